@@ -1,10 +1,26 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import Controls from './components/Controls';
 import Button from './components/Button';
-import { loadImage, setupCanvas, generateJitterFrames } from './utils/imageProcessing';
-import { DEFAULT_SETTINGS, GIF_WORKER_URL } from './constants';
+import HistoryPanel from './components/HistoryPanel';
+import BatchPanel from './components/BatchPanel';
+import GeneratePanel from './components/GeneratePanel';
+import { createRenderPipeline, RenderPipeline } from './utils/imageProcessing';
+import { setupCanvas, generateJitterFrames, suggestThresholdForImage, extractPaletteForImage, loadImage, getTexturePixels, textureSource, toPngBlob } from './utils/canvas';
+import { rgbTupleToHex } from './utils/palette';
+import { isSourceFile, loadSourceMedia, releaseSourceMedia, sourceBitmaps, SourceMedia } from './utils/sourceMedia';
+import { frameDelays, sourceSettings } from './utils/sourceTiming';
+import { exporters, ExportFormat, ExportOptions } from './utils/exporters';
+import { renderExport } from './utils/exportRender';
+import { DEFAULT_SETTINGS, DEFAULT_EXPORT_OPTIONS } from './constants';
 import { ProcessingSettings, AppStatus } from './types';
 import { translations, Language } from './utils/translations';
+import { randomSeed } from './utils/random';
+import { createRenderClient, supportsWorkerRendering, RenderClient, RenderProgress } from './utils/renderClient';
+import { serializeProject, parseProject, PROJECT_FILE_EXTENSION } from './utils/project';
+import { useSettingsHistory, createThumbnail } from './utils/settingsHistory';
+import { useBatchQueue } from './utils/batch';
+import { activeSketchProvider } from './utils/sketchProviders';
+import { composePrompt, StyleModifier, useSketchGeneration } from './utils/sketchGeneration';
 
 // Icons
 const UploadIcon = () => (
@@ -19,58 +35,263 @@ const GlobeIcon = () => (
   </svg>
 );
 
+// Shown behind the canvas so transparent pixels are visible
+const CHECKERBOARD_STYLE: React.CSSProperties = {
+  backgroundImage: 'repeating-conic-gradient(#3f3f46 0% 25%, #27272a 0% 50%)',
+  backgroundSize: '16px 16px'
+};
+
+const sketchProvider = activeSketchProvider();
+
 const App: React.FC = () => {
   // State
   const [status, setStatus] = useState<AppStatus>(AppStatus.IDLE);
   const [imageSrc, setImageSrc] = useState<string | null>(null);
-  const [settings, setSettings] = useState<ProcessingSettings>(DEFAULT_SETTINGS);
+  const history = useSettingsHistory(DEFAULT_SETTINGS);
+  const { settings } = history;
   const [generatedFrames, setGeneratedFrames] = useState<ImageData[]>([]);
   const [downloadUrl, setDownloadUrl] = useState<string | null>(null);
+  const [downloadFormat, setDownloadFormat] = useState<ExportFormat>('gif');
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('gif');
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const [exportProgress, setExportProgress] = useState(0);
   const [lang, setLang] = useState<Language>('zh');
-  const [workerBlobUrl, setWorkerBlobUrl] = useState<string | null>(null);
+  const [seedLocked, setSeedLocked] = useState(true);
+  const [progress, setProgress] = useState<RenderProgress | null>(null);
+  const [batchOpen, setBatchOpen] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const batch = useBatchQueue();
+  const [generateOpen, setGenerateOpen] = useState(false);
+  // null until edited, so the default prompt follows the language
+  const [sketchPrompt, setSketchPrompt] = useState<string | null>(null);
+  const [sketchModifiers, setSketchModifiers] = useState<StyleModifier[]>([]);
+  const sketch = useSketchGeneration(sketchProvider);
 
   const t = translations[lang];
 
   // Refs
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const originalImageRef = useRef<HTMLImageElement | null>(null);
-  const loadedSrcRef = useRef<string | null>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+  // The uploaded file itself, kept so projects can embed its original bytes
+  const sourceFileRef = useRef<{ blob: Blob; name: string } | null>(null);
+  // Set when opening a project, whose saved threshold must not be replaced by a suggestion
+  const skipAutoThresholdRef = useRef(false);
+  // The decoded frames of imageSrc, shared by the preview, auto threshold and export
+  const sourceMediaRef = useRef<{ src: string; media: Promise<SourceMedia> } | null>(null);
+  const renderClientRef = useRef<RenderClient | null>(null);
+  const fallbackPipelineRef = useRef<RenderPipeline | null>(null);
+  // Per-frame delays of an animated source; null for a still image
+  const [sourceDelays, setSourceDelays] = useState<number[] | null>(null);
+  // Image for the 'texture' background style, keyed by its object URL; `file` is kept so
+  // projects can embed it
+  const [backgroundTexture, setBackgroundTexture] = useState<{ key: string; image: HTMLImageElement; file: Blob } | null>(null);
 
   // --- Initialization ---
-  
+
   useEffect(() => {
-    const loadWorker = async () => {
-      try {
-        const response = await fetch(GIF_WORKER_URL);
-        const blob = await response.blob();
-        const url = URL.createObjectURL(blob);
-        setWorkerBlobUrl(url);
-      } catch (error) {
-        console.error("Failed to load GIF worker script:", error);
-      }
-    };
-    loadWorker();
+    if (!supportsWorkerRendering()) return;
+    const client = createRenderClient();
+    renderClientRef.current = client;
 
     return () => {
-      if (workerBlobUrl) URL.revokeObjectURL(workerBlobUrl);
+      client.dispose();
+      renderClientRef.current = null;
     };
   }, []);
 
+  // Decodes imageSrc once, freeing the frames of the source it replaces
+  const getSourceMedia = (src: string): Promise<SourceMedia> => {
+    const loaded = sourceMediaRef.current;
+    if (loaded?.src === src) return loaded.media;
+
+    loaded?.media.then(releaseSourceMedia, () => {});
+    const media = fetch(src).then(res => res.blob()).then(loadSourceMedia);
+    sourceMediaRef.current = { src, media };
+    return media;
+  };
+
   // --- Handlers ---
 
+  const loadFile = (file: File) => {
+    const url = URL.createObjectURL(file);
+    sourceFileRef.current = { blob: file, name: file.name };
+    setImageSrc(url);
+    setDownloadUrl(null);
+    if (!seedLocked) {
+      history.amend({ seed: randomSeed() });
+    }
+  };
+
+  // A single image opens in the editor; several go to the batch queue
+  const handleFiles = (files: File[]) => {
+    const images = files.filter(isSourceFile);
+    if (images.length === 0) return;
+    if (images.length === 1 && !batchOpen) {
+      loadFile(images[0]);
+    } else {
+      batch.add(images);
+      setBatchOpen(true);
+    }
+  };
+
+  const handleGenerateSketch = async () => {
+    const result = await sketch.generate(composePrompt(sketchPrompt ?? t.prompt, sketchModifiers));
+    switch (result.status) {
+      case 'done': {
+        // Providers that draw pixels themselves hand over an image rather than a file
+        try {
+          const image = result.image instanceof Blob ? result.image : await toPngBlob(result.image);
+          loadFile(new File([image], `sketch.${image.type.split('/')[1] || 'png'}`, { type: image.type }));
+          setGenerateOpen(false);
+        } catch (err) {
+          console.error(err);
+          alert(t.generalError);
+        }
+        break;
+      }
+      case 'unconfigured':
+        alert(t.apiKeyAlert);
+        break;
+      case 'empty':
+        alert(t.geminiError);
+        break;
+      case 'failed':
+        console.error('Sketch generation failed', result.error);
+        alert(t.generalError);
+        break;
+    }
+  };
+
+  const closeGeneratePanel = () => {
+    sketch.cancel();
+    setGenerateOpen(false);
+  };
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    handleFiles(Array.from(e.target.files ?? []));
+    e.target.value = '';
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const loadBackgroundTexture = async (file: Blob) => {
+    const url = URL.createObjectURL(file);
+    try {
+      return { key: url, image: await loadImage(url), file };
+    } catch (err) {
+      URL.revokeObjectURL(url);
+      throw err;
+    }
+  };
+
+  const replaceBackgroundTexture = (texture: NonNullable<typeof backgroundTexture>) => {
+    if (backgroundTexture) URL.revokeObjectURL(backgroundTexture.key);
+    setBackgroundTexture(texture);
+  };
+
+  const handleSaveProject = async () => {
+    const source = sourceFileRef.current;
+    if (!source) return;
+
+    try {
+      const text = await serializeProject(source.blob, source.name, settings, activeTexture?.file ?? null);
+      const url = URL.createObjectURL(new Blob([text], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${source.name.replace(/\.[^.]+$/, '') || 'project'}.${PROJECT_FILE_EXTENSION}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error(err);
+      alert(t.projectSaveError);
+    }
+  };
+
+  const handleOpenProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
-      const url = URL.createObjectURL(file);
-      setImageSrc(url);
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const project = await parseProject(await file.text());
+      // Loaded first, so a broken texture leaves the current image alone
+      if (project.texture) replaceBackgroundTexture(await loadBackgroundTexture(project.texture));
+      sourceFileRef.current = { blob: project.image, name: project.imageName };
+      skipAutoThresholdRef.current = project.settings.autoThreshold;
+      // The saved seed is part of the project, so keep it from being rerolled
+      setSeedLocked(true);
+      history.reset(project.settings);
+      setImageSrc(URL.createObjectURL(project.image));
       setDownloadUrl(null);
+    } catch (err) {
+      console.error(err);
+      alert(t.projectOpenError);
     }
   };
 
   const handleUpdateSettings = useCallback((newSettings: Partial<ProcessingSettings>) => {
-    setSettings(prev => ({ ...prev, ...newSettings }));
-  }, []);
+    // An unlocked seed behaves like the old random jitter: every tweak gets a fresh wiggle
+    const reroll = !seedLocked && newSettings.seed === undefined;
+    history.change({ ...newSettings, ...(reroll ? { seed: randomSeed() } : {}) });
+  }, [seedLocked, history.change]);
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z (or Ctrl+Y) redoes; text fields keep their own undo
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (target instanceof HTMLInputElement && target.type === 'text') return;
+      if (target instanceof HTMLTextAreaElement) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) history.undo();
+      else if ((key === 'z' && e.shiftKey) || key === 'y') history.redo();
+      else return;
+      e.preventDefault();
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [history.undo, history.redo]);
+
+  // Turns the image's line colors into editable swatches: as many as the extracted palette
+  // shows, or as there are swatches already
+  const handleExtractPalette = async () => {
+    if (!imageSrc) return;
+    try {
+      const media = await getSourceMedia(imageSrc);
+      const extracted = settings.paletteMode === 'extracted';
+      const colors = extractPaletteForImage(media.frames[0], settings, extracted ? settings.paletteSize : settings.paletteColors.length);
+      if (colors.length === 0) {
+        alert(t.paletteExtractError);
+        return;
+      }
+      handleUpdateSettings({
+        paletteColors: colors.map(rgbTupleToHex),
+        ...(extracted ? { paletteMode: 'swatches' as const } : {}),
+      });
+    } catch (err) {
+      console.error(err);
+      alert(t.paletteExtractError);
+    }
+  };
+
+  const handleImportTexture = async (file: File) => {
+    try {
+      replaceBackgroundTexture(await loadBackgroundTexture(file));
+    } catch (err) {
+      console.error(err);
+      alert(t.textureLoadError);
+    }
+  };
+
+  // The texture only matters to the style that shows it
+  const activeTexture = settings.backgroundStyle === 'texture' ? backgroundTexture : null;
 
   const toggleLanguage = () => {
     setLang(prev => prev === 'en' ? 'zh' : 'en');
@@ -78,6 +299,36 @@ const App: React.FC = () => {
 
   // --- Core Logic ---
 
+  // Auto threshold: analyze the image at preview size and apply the suggestion
+  useEffect(() => {
+    if (!imageSrc || !settings.autoThreshold) return;
+    if (skipAutoThresholdRef.current) {
+      skipAutoThresholdRef.current = false;
+      return;
+    }
+    let isMounted = true;
+
+    const analyze = async () => {
+      try {
+        const media = await getSourceMedia(imageSrc);
+        if (!isMounted) return;
+
+        // Animated sources are judged by their first frame
+        const suggestion = suggestThresholdForImage(media.frames[0], settings);
+        // A suggestion refines the current step rather than adding one to undo
+        if (isMounted) history.amend(suggestion);
+      } catch (err) {
+        console.error(err);
+      }
+    };
+
+    analyze();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [imageSrc, settings.autoThreshold, settings.detectionMode, settings.edgeBlur]);
+
   useEffect(() => {
     let isMounted = true;
     
@@ -86,32 +337,58 @@ const App: React.FC = () => {
       
       if (isMounted) setStatus(AppStatus.PROCESSING);
       try {
-        if (loadedSrcRef.current !== imageSrc) {
-           originalImageRef.current = await loadImage(imageSrc);
-           loadedSrcRef.current = imageSrc;
+        const media = await getSourceMedia(imageSrc);
+        if (!isMounted || !canvasRef.current) return;
+
+        // An animated source decides the frame count
+        const renderSettings = sourceSettings(settings, media.delays);
+        setSourceDelays(media.delays);
+        setProgress({ done: 0, total: renderSettings.frameCount });
+
+        const dimensions = setupCanvas(canvasRef.current, media.frames[0]);
+        const client = renderClientRef.current;
+        let frames: ImageData[] | null | undefined;
+
+        if (client?.isAvailable()) {
+          frames = await client.render(
+            `${imageSrc}|${dimensions.width}x${dimensions.height}`,
+            () => sourceBitmaps(media, dimensions.width, dimensions.height),
+            dimensions.width,
+            dimensions.height,
+            renderSettings,
+            (p) => { if (isMounted) setProgress(p); },
+            activeTexture && textureSource(activeTexture.key, activeTexture.image)
+          ).catch((err) => {
+            // A worker that died leaves the preview to the main thread from now on
+            if (client.isAvailable()) throw err;
+            console.error(err);
+            return undefined;
+          });
+        }
+        if (frames === undefined) {
+          if (!isMounted || !canvasRef.current) return;
+          const ctx = canvasRef.current.getContext('2d', { willReadFrequently: true });
+          if (!ctx) return;
+          const pipeline = fallbackPipelineRef.current ??= createRenderPipeline();
+          pipeline.setBackgroundTexture(activeTexture?.key ?? null, activeTexture ? () => getTexturePixels(activeTexture.image) : undefined);
+          frames = generateJitterFrames(
+            ctx, imageSrc, media.frames, dimensions.width, dimensions.height, renderSettings, pipeline
+          );
         }
         
-        const img = originalImageRef.current;
-        const ctx = canvasRef.current.getContext('2d', { willReadFrequently: true });
-        
-        if (!ctx || !img) return;
-
-        const dimensions = setupCanvas(canvasRef.current, img, settings.scale);
-        const frames = generateJitterFrames(
-          ctx, 
-          img, 
-          dimensions.width, 
-          dimensions.height, 
-          settings
-        );
-        
-        if (isMounted) {
+        // null means a newer render superseded this one
+        if (isMounted && frames) {
           setGeneratedFrames(frames);
+          history.setThumbnail(settings, createThumbnail(frames[0]));
+          setProgress(null);
           setStatus(AppStatus.IDLE);
         }
       } catch (err) {
         console.error(err);
-        if (isMounted) setStatus(AppStatus.ERROR);
+        if (isMounted) {
+          setProgress(null);
+          setStatus(AppStatus.ERROR);
+        }
       }
     };
 
@@ -119,18 +396,48 @@ const App: React.FC = () => {
 
     return () => {
       isMounted = false;
+      renderClientRef.current?.cancel();
     };
   }, [
     imageSrc, 
     settings.threshold, 
     settings.jitterAmount, 
+    settings.jitterMode,
+    settings.noiseType,
+    settings.noiseOctaves,
+    settings.noiseScale,
+    settings.noiseAnisotropy,
     settings.frameCount, 
+    settings.animationMode,
+    settings.flowSmoothness,
     settings.lineColor, 
     settings.bgColor, 
-    settings.scale,
+    settings.backgroundStyle,
+    settings.backgroundStrength,
+    settings.underlayOpacity,
+    settings.underlayDesaturation,
+    settings.underlayJitter,
+    activeTexture,
     settings.detectionMode,
+    settings.edgeBlur,
+    settings.cannyLow,
+    settings.cannyHigh,
+    settings.xdogSigma,
+    settings.xdogSharpness,
+    settings.adaptiveRadius,
+    settings.adaptiveOffset,
     settings.useOriginalColors,
-    settings.jitterSpeed
+    settings.transparentBg,
+    settings.antiHalo,
+    settings.lineWeight,
+    settings.taperLength,
+    settings.strokeTexture,
+    settings.textureStrength,
+    settings.paletteMode,
+    settings.paletteColors,
+    settings.paletteSize,
+    settings.gradientDirection,
+    settings.seed
   ]);
 
   useEffect(() => {
@@ -139,12 +446,13 @@ const App: React.FC = () => {
     let frameIndex = 0;
     let lastTime = 0;
     const ctx = canvasRef.current.getContext('2d');
+    const delays = frameDelays(settings, sourceDelays);
     let animationId: number;
 
     const animate = (time: number) => {
       if (!ctx) return;
 
-      if (time - lastTime > settings.jitterSpeed) {
+      if (time - lastTime > delays[frameIndex % delays.length]) {
         ctx.putImageData(generatedFrames[frameIndex], 0, 0);
         frameIndex = (frameIndex + 1) % generatedFrames.length;
         lastTime = time;
@@ -158,46 +466,47 @@ const App: React.FC = () => {
     return () => {
       cancelAnimationFrame(animationId);
     };
-  }, [generatedFrames, settings.jitterSpeed]);
+  }, [generatedFrames, settings.jitterSpeed, settings.sourceTiming, settings.frameCount, sourceDelays]);
 
   const handleExport = async () => {
-    if (generatedFrames.length === 0 || !canvasRef.current) return;
+    if (generatedFrames.length === 0 || !imageSrc) return;
+
+    const exporter = exporters[exportFormat];
+    if (!exporter.isSupported()) {
+      alert(t.formatUnsupported);
+      return;
+    }
 
     setStatus(AppStatus.EXPORTING);
+    setExportProgress(0);
     setDownloadUrl(null);
 
-    if (!window.GIF) {
-      alert(t.gifLibError);
-      setStatus(AppStatus.IDLE);
-      return;
-    }
-    
-    if (!workerBlobUrl) {
-      alert("Worker script not loaded yet.");
+    // Let the overlay paint before any synchronous encoding work starts
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    try {
+      // Export renders from the original image at its own size, independent of the preview
+      const blob = await renderExport({
+        source: await getSourceMedia(imageSrc),
+        sourceKey: imageSrc,
+        settings,
+        exportOptions,
+        exporter,
+        texture: activeTexture,
+        client: renderClientRef.current,
+        onProgress: setExportProgress,
+      });
+      // A newer render superseded the export
+      if (!blob) return;
+
+      setDownloadUrl(URL.createObjectURL(blob));
+      setDownloadFormat(exportFormat);
+    } catch (err) {
+      console.error(err);
+      alert(t.exportError);
+    } finally {
       setStatus(AppStatus.IDLE);
-      return;
     }
-
-    const gif = new window.GIF({
-      workers: 2,
-      quality: 10,
-      width: generatedFrames[0].width,
-      height: generatedFrames[0].height,
-      workerScript: workerBlobUrl,
-      background: settings.bgColor
-    });
-
-    generatedFrames.forEach(frame => {
-      gif.addFrame(frame, { delay: settings.jitterSpeed });
-    });
-
-    gif.on('finished', (blob: Blob) => {
-      const url = URL.createObjectURL(blob);
-      setDownloadUrl(url);
-      setStatus(AppStatus.IDLE);
-    });
-
-    gif.render();
   };
 
   return (
@@ -210,7 +519,12 @@ const App: React.FC = () => {
       */}
 
       {/* Main Content (Canvas Area) */}
-      <main className="order-2 lg:order-2 flex-1 flex flex-col relative overflow-hidden min-h-0">
+      <main
+        className="order-2 lg:order-2 flex-1 flex flex-col relative overflow-hidden min-h-0"
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={(e) => { if (e.currentTarget === e.target) setIsDragging(false); }}
+        onDrop={handleDrop}
+      >
         
         {/* Header / Top Bar */}
         <header className="flex-shrink-0 h-16 border-b border-gray-800 flex items-center justify-between px-4 lg:px-6 bg-[#09090b]/90 backdrop-blur z-30">
@@ -232,10 +546,10 @@ const App: React.FC = () => {
              {downloadUrl && (
               <a 
                 href={downloadUrl} 
-                download="wiggle-export.gif"
+                download={`wiggle-export.${exporters[downloadFormat].extension}`}
                 className="inline-flex items-center px-3 py-1.5 lg:px-4 lg:py-2 bg-green-600 hover:bg-green-500 text-white text-xs lg:text-sm font-medium rounded-lg transition-colors shadow-lg"
               >
-                {t.downloadGif}
+                {t.download} {exporters[downloadFormat].label}
               </a>
             )}
             
@@ -243,9 +557,41 @@ const App: React.FC = () => {
               type="file" 
               ref={fileInputRef} 
               onChange={handleFileChange} 
-              accept="image/*" 
+              accept="image/*,video/*" 
+              multiple
               className="hidden" 
             />
+            <input
+              type="file"
+              ref={projectInputRef}
+              onChange={handleOpenProject}
+              accept={`.${PROJECT_FILE_EXTENSION},application/json`}
+              className="hidden"
+            />
+
+            <Button
+              variant="ghost"
+              onClick={() => setBatchOpen(prev => !prev)}
+              className={`text-xs lg:text-sm px-2 sm:px-3 ${batchOpen ? 'text-white bg-gray-800' : ''}`}
+            >
+              {t.batch}
+            </Button>
+            <Button
+              variant="ghost"
+              onClick={() => projectInputRef.current?.click()}
+              className="text-xs lg:text-sm px-2 sm:px-3"
+            >
+              {t.openProject}
+            </Button>
+            {imageSrc && (
+              <Button
+                variant="ghost"
+                onClick={handleSaveProject}
+                className="text-xs lg:text-sm px-2 sm:px-3"
+              >
+                {t.saveProject}
+              </Button>
+            )}
             
             <Button 
               variant="secondary" 
@@ -261,6 +607,31 @@ const App: React.FC = () => {
 
         {/* Canvas Display Area */}
         <div className="flex-1 flex items-center justify-center p-4 lg:p-8 bg-[#0c0c0e] overflow-auto relative min-h-0">
+          {batchOpen && (
+            <BatchPanel
+              batch={batch}
+              settings={settings}
+              exportOptions={exportOptions}
+              exporter={exporters[exportFormat]}
+              texture={activeTexture}
+              onClose={() => setBatchOpen(false)}
+              t={t}
+            />
+          )}
+          {generateOpen && (
+            <GeneratePanel
+              generation={sketch}
+              providerLabel={sketchProvider.label}
+              prompt={sketchPrompt ?? t.prompt}
+              modifiers={sketchModifiers}
+              onChangePrompt={setSketchPrompt}
+              onChangeModifiers={setSketchModifiers}
+              onGenerate={handleGenerateSketch}
+              onClose={closeGeneratePanel}
+              t={t}
+            />
+          )}
+
           {!imageSrc && (
             <div className="text-center max-w-md px-4">
               <div className="w-16 h-16 lg:w-20 lg:h-20 bg-gray-800 rounded-2xl flex items-center justify-center mx-auto mb-6 text-gray-500 cursor-pointer" onClick={() => fileInputRef.current?.click()}>
@@ -274,21 +645,62 @@ const App: React.FC = () => {
                  <Button onClick={() => fileInputRef.current?.click()}>
                     {t.uploadSketch}
                  </Button>
+                 <Button variant="secondary" onClick={() => setGenerateOpen(true)}>
+                    {t.generateWithAi}
+                 </Button>
               </div>
             </div>
           )}
 
           <div className={`relative shadow-2xl rounded-sm overflow-hidden border border-gray-800 transition-opacity duration-300 max-w-full max-h-full ${imageSrc ? 'opacity-100' : 'opacity-0 hidden'}`}>
-             <canvas ref={canvasRef} className="block object-contain max-w-full max-h-full" />
+             <canvas
+               ref={canvasRef}
+               className="block object-contain max-w-full max-h-full"
+               style={settings.transparentBg ? CHECKERBOARD_STYLE : undefined}
+             />
              
+             {status === AppStatus.PROCESSING && progress && (
+               <div className="absolute bottom-0 inset-x-0 bg-black/60 backdrop-blur-sm px-3 py-2 z-30">
+                 <div className="flex justify-between text-[10px] font-mono text-gray-300 mb-1">
+                   <span>{t.processingFrames}</span>
+                   <span>{progress.done}/{progress.total}</span>
+                 </div>
+                 <div className="h-1 bg-gray-700 rounded-full overflow-hidden">
+                   <div
+                     className="h-full bg-indigo-500 transition-all duration-150"
+                     style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+                   />
+                 </div>
+               </div>
+             )}
+
              {status === AppStatus.EXPORTING && (
                <div className="absolute inset-0 bg-black/70 backdrop-blur-sm flex flex-col items-center justify-center z-40">
                  <div className="w-10 h-10 border-4 border-white border-t-transparent rounded-full animate-spin mb-3"></div>
                  <p className="text-white font-medium tracking-wide">{t.rendering}</p>
+                 <p className="text-gray-400 text-xs font-mono mt-1">{Math.round(exportProgress * 100)}%</p>
                </div>
              )}
           </div>
         </div>
+
+        {isDragging && (
+          <div className="absolute inset-0 z-50 border-4 border-dashed border-indigo-500 bg-indigo-500/10 pointer-events-none" />
+        )}
+
+        {/* Settings History */}
+        {imageSrc && (
+          <HistoryPanel
+            entries={history.entries}
+            index={history.index}
+            canUndo={history.canUndo}
+            canRedo={history.canRedo}
+            onUndo={history.undo}
+            onRedo={history.redo}
+            onJump={history.jumpTo}
+            t={t}
+          />
+        )}
       </main>
 
       {/* Sidebar Controls */}
@@ -296,11 +708,21 @@ const App: React.FC = () => {
         <Controls 
           settings={settings}
           updateSettings={handleUpdateSettings}
-          onGenerate={() => {}} 
+          onGenerate={() => setGenerateOpen(true)}
+          onExtractPalette={handleExtractPalette}
+          onImportTexture={handleImportTexture}
+          hasTexture={backgroundTexture !== null}
           onExport={handleExport}
+          exportFormat={exportFormat}
+          onChangeExportFormat={setExportFormat}
+          exportOptions={exportOptions}
+          onChangeExportOptions={(o) => setExportOptions(prev => ({ ...prev, ...o }))}
           isGenerating={status === AppStatus.PROCESSING}
           isExporting={status === AppStatus.EXPORTING}
           hasImage={!!imageSrc}
+          sourceFrameCount={imageSrc && sourceDelays ? sourceDelays.length : null}
+          seedLocked={seedLocked}
+          onToggleSeedLock={() => setSeedLocked(prev => !prev)}
           t={t}
         />
       </div>
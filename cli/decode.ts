@@ -0,0 +1,77 @@
+import pngjs from 'pngjs';
+import jpeg from 'jpeg-js';
+import { RgbaImage } from '../types';
+import { decodeGif } from '../utils/gifDecoder';
+import { PixelSource } from '../utils/pixelExport';
+import { MAX_SOURCE_FRAMES } from '../utils/sourceTiming';
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+const isPng = (bytes: Uint8Array) => PNG_SIGNATURE.every((b, i) => bytes[i] === b);
+const isJpeg = (bytes: Uint8Array) => bytes[0] === 0xFF && bytes[1] === 0xD8 && bytes[2] === 0xFF;
+const isGif = (bytes: Uint8Array) => bytes[0] === 0x47 && bytes[1] === 0x49 && bytes[2] === 0x46;
+
+// The streaming parser, since the sync one doesn't run on the Worker's zlib
+const readPng = (bytes: Buffer) =>
+  new Promise<pngjs.PNG>((resolve, reject) => {
+    new pngjs.PNG().parse(bytes, (err, png) => (err ? reject(err) : resolve(png)));
+  });
+
+/**
+ * Decodes a PNG or JPEG into RGBA pixels. Fully transparent pixels are zeroed,
+ * matching what a browser canvas reads back.
+ */
+const decodeImage = async (bytes: Buffer): Promise<RgbaImage> => {
+  let decoded: { width: number; height: number; data: Uint8Array };
+
+  if (isPng(bytes)) {
+    decoded = await readPng(bytes);
+  } else if (isJpeg(bytes)) {
+    decoded = jpeg.decode(bytes, { useTArray: true, formatAsRGBA: true });
+  } else {
+    throw new Error('Unsupported image format (expected PNG, JPEG or GIF)');
+  }
+
+  const { width, height } = decoded;
+  const data = new Uint8ClampedArray(decoded.data.buffer, decoded.data.byteOffset, width * height * 4);
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) data[i] = data[i + 1] = data[i + 2] = 0;
+  }
+
+  return { width, height, data };
+};
+
+/**
+ * Width and height from the file header, so oversized images can be refused before
+ * decoding them. Null when `bytes` isn't a PNG, JPEG or GIF.
+ */
+export const imageSize = (bytes: Uint8Array): { width: number; height: number } | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  if (isPng(bytes) && bytes.length >= 24) return { width: view.getUint32(16), height: view.getUint32(20) };
+  if (isGif(bytes) && bytes.length >= 10) return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+  if (isJpeg(bytes)) {
+    // Walk the segments up to the first start-of-frame marker (C0-CF, except DHT, JPG and DAC)
+    for (let i = 2; i + 9 <= bytes.length; i += 2 + view.getUint16(i + 2)) {
+      if (bytes[i] !== 0xFF) return null;
+      const marker = bytes[i + 1];
+      if (marker >= 0xC0 && marker <= 0xCF && marker !== 0xC4 && marker !== 0xC8 && marker !== 0xCC) {
+        return { width: view.getUint16(i + 7), height: view.getUint16(i + 5) };
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Decodes a PNG, JPEG or GIF (told apart by their signatures). Animated GIFs give every
+ * frame, by default up to the same limit as in the app.
+ */
+export const decodeInput = async (bytes: Buffer, maxFrames = MAX_SOURCE_FRAMES): Promise<PixelSource> => {
+  if (isGif(bytes)) {
+    const gif = decodeGif(bytes, maxFrames);
+    const frames = gif.frames.map(f => f.image);
+    return { frames, delays: frames.length > 1 ? gif.frames.map(f => f.delay) : null };
+  }
+  return { frames: [await decodeImage(bytes)], delays: null };
+};
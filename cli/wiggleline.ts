@@ -0,0 +1,240 @@
+#!/usr/bin/env node
+import { readFile, writeFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import { parseArgs } from 'node:util';
+import { ProcessingSettings } from '../types';
+import { DEFAULT_SETTINGS, DEFAULT_EXPORT_OPTIONS } from '../constants';
+import { exporters, ExportFormat, ExportOptions, ExportResolution } from '../utils/exporters';
+import { parseSettings } from '../utils/settings';
+import { BUILT_IN_PRESETS, parsePresets, Preset, PRESET_FILE_FORMAT } from '../utils/presets';
+import { planPixelExport, renderPixelExport } from '../utils/pixelExport';
+import { decodeInput } from './decode';
+
+const USAGE = `Usage: wiggleline <input.png|input.jpg|input.gif> -o <output> [options]
+
+Renders jittered line art the same way as the app, without a browser. An animated GIF
+gets one output frame per source frame, each with its own lines.
+
+Options:
+  -o, --output <file>     Output file; its extension picks the format (.gif, .png, .svg)
+  -s, --settings <file>   Settings JSON (as in a project) or a preset file
+  -p, --preset <name>     Preset by name: built-in, or from the --settings preset file
+      --threshold <n>     Detection threshold, 0-500 (turns off auto threshold)
+      --jitter <n>        Jitter amount, 0-10
+      --frames <n>        Number of frames (still input only)
+      --timing <t>        Animated input: source (keep its delays) or uniform (use --speed)
+      --seed <n>          Noise seed; same seed = same frames
+      --speed <ms>        Delay per frame
+      --mode <mode>       brightness, edge, sobel, canny, xdog or adaptive
+      --line-color <hex>  Line color, used unless original colors are on
+      --bg-color <hex>    Background color
+      --background <s>    flat, paper, notebook, grid, chalkboard or texture
+      --bg-texture <file> Background texture image (PNG or JPEG); implies --background texture
+      --underlay <n>      Faded original beneath the lines, opacity 0-1
+      --line-weight <n>   Grow (> 0) or thin (< 0) the lines, -3 to 6
+      --taper <n>         Taper stroke ends over this length, 0-80
+      --texture <t>       Brush texture: none, pencil, ink or chalk
+      --palette <p>       Line palette: off, extracted, swatches, duotone or gradient
+      --swatches <list>   Comma-separated hex colors for the palette
+      --palette-size <n>  Colors to extract, 2-16
+      --gradient <d>      horizontal, vertical, diagonal or radial
+      --transparent       Transparent background
+      --resolution <r>    preview, original (default) or the longest side in pixels
+      --quality <n>       1-100
+      --loop <n>          Loop count, 0 = forever
+      --dither            Dither when reducing to a palette
+  -h, --help              Show this help
+`;
+
+// Flags that set a ProcessingSettings field directly
+const SETTING_FLAGS: Record<string, keyof ProcessingSettings> = {
+  threshold: 'threshold',
+  jitter: 'jitterAmount',
+  frames: 'frameCount',
+  seed: 'seed',
+  speed: 'jitterSpeed',
+  mode: 'detectionMode',
+  'line-color': 'lineColor',
+  'bg-color': 'bgColor',
+  background: 'backgroundStyle',
+  underlay: 'underlayOpacity',
+  'line-weight': 'lineWeight',
+  taper: 'taperLength',
+  texture: 'strokeTexture',
+  palette: 'paletteMode',
+  swatches: 'paletteColors',
+  'palette-size': 'paletteSize',
+  gradient: 'gradientDirection',
+  transparent: 'transparentBg',
+  timing: 'sourceTiming',
+};
+
+const EXTENSION_FORMATS: Record<string, ExportFormat> = {
+  '.gif': 'gif',
+  '.png': 'apng',
+  '.apng': 'apng',
+  '.svg': 'svg',
+  '.webp': 'webp',
+  '.webm': 'webm',
+};
+
+const parseCommandLine = (argv: string[]) => parseArgs({
+  args: argv,
+  allowPositionals: true,
+  options: {
+    output: { type: 'string', short: 'o' },
+    settings: { type: 'string', short: 's' },
+    preset: { type: 'string', short: 'p' },
+    threshold: { type: 'string' },
+    jitter: { type: 'string' },
+    frames: { type: 'string' },
+    seed: { type: 'string' },
+    speed: { type: 'string' },
+    mode: { type: 'string' },
+    'line-color': { type: 'string' },
+    'bg-color': { type: 'string' },
+    background: { type: 'string' },
+    'bg-texture': { type: 'string' },
+    underlay: { type: 'string' },
+    'line-weight': { type: 'string' },
+    taper: { type: 'string' },
+    texture: { type: 'string' },
+    palette: { type: 'string' },
+    swatches: { type: 'string' },
+    'palette-size': { type: 'string' },
+    gradient: { type: 'string' },
+    timing: { type: 'string' },
+    transparent: { type: 'boolean' },
+    resolution: { type: 'string' },
+    quality: { type: 'string' },
+    loop: { type: 'string' },
+    dither: { type: 'boolean' },
+    help: { type: 'boolean', short: 'h' },
+  },
+});
+
+type CommandLine = ReturnType<typeof parseCommandLine>['values'];
+
+const parseNumber = (flag: string, raw: string) => {
+  const value = Number(raw);
+  if (raw.trim() === '' || !Number.isFinite(value)) throw new Error(`--${flag} expects a number, got "${raw}"`);
+  return value;
+};
+
+/**
+ * Settings given as flags, validated like an imported settings file
+ */
+const flagSettings = (values: CommandLine): Partial<ProcessingSettings> => {
+  const raw: Record<string, unknown> = {};
+
+  for (const [flag, key] of Object.entries(SETTING_FLAGS)) {
+    const value = values[flag as keyof CommandLine];
+    if (value === undefined) continue;
+    const expected = DEFAULT_SETTINGS[key];
+    if (typeof value !== 'string') raw[key] = value;
+    else if (typeof expected === 'number') raw[key] = parseNumber(flag, value);
+    else if (Array.isArray(expected)) raw[key] = value.split(',').map(s => s.trim());
+    else raw[key] = value;
+  }
+
+  const settings = parseSettings(raw);
+  const rejected = Object.entries(SETTING_FLAGS).find(([, key]) => key in raw && !(key in settings));
+  if (rejected) throw new Error(`Invalid value for --${rejected[0]}: "${values[rejected[0] as keyof CommandLine]}"`);
+
+  // An explicit threshold wins over the automatic one, as when dragging the slider
+  if (settings.threshold !== undefined) settings.autoThreshold = false;
+  return settings;
+};
+
+/**
+ * The look from --settings and --preset: a plain settings object, or a preset picked
+ * from a preset file or the built-ins
+ */
+const fileSettings = async (values: CommandLine): Promise<Partial<ProcessingSettings>> => {
+  let presets: Preset[] = BUILT_IN_PRESETS;
+  let settings: Partial<ProcessingSettings> = {};
+
+  if (values.settings) {
+    const text = await readFile(values.settings, 'utf-8');
+    const json = JSON.parse(text);
+    if (json?.format === PRESET_FILE_FORMAT) {
+      const filePresets = parsePresets(text);
+      if (!values.preset) {
+        if (filePresets.length !== 1) {
+          throw new Error(`${values.settings} holds ${filePresets.length} presets; pick one with --preset`);
+        }
+        return filePresets[0].settings;
+      }
+      presets = [...filePresets, ...BUILT_IN_PRESETS];
+    } else {
+      settings = parseSettings(json);
+    }
+  }
+
+  if (values.preset) {
+    const preset = presets.find(p => p.name.toLowerCase() === values.preset!.toLowerCase());
+    if (!preset) throw new Error(`Unknown preset "${values.preset}"`);
+    settings = { ...settings, ...preset.settings };
+  }
+
+  return settings;
+};
+
+const parseResolution = (raw: string | undefined): ExportResolution => {
+  if (raw === undefined) return DEFAULT_EXPORT_OPTIONS.resolution;
+  if (raw === 'preview' || raw === 'original') return raw;
+  const size = parseNumber('resolution', raw);
+  if (size < 1) throw new Error('--resolution must be at least 1 pixel');
+  return Math.round(size);
+};
+
+const exportOptions = (values: CommandLine): ExportOptions => ({
+  quality: values.quality === undefined
+    ? DEFAULT_EXPORT_OPTIONS.quality
+    : Math.min(100, Math.max(1, parseNumber('quality', values.quality))),
+  loopCount: values.loop === undefined ? DEFAULT_EXPORT_OPTIONS.loopCount : Math.max(0, parseNumber('loop', values.loop)),
+  dither: values.dither ?? DEFAULT_EXPORT_OPTIONS.dither,
+  resolution: parseResolution(values.resolution),
+});
+
+const main = async (argv: string[]) => {
+  const { values, positionals } = parseCommandLine(argv);
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return;
+  }
+  if (positionals.length !== 1 || !values.output) {
+    process.stderr.write(USAGE);
+    process.exitCode = 2;
+    return;
+  }
+
+  const [input] = positionals;
+  const output = values.output;
+  const format = EXTENSION_FORMATS[extname(output).toLowerCase()];
+  if (!format) throw new Error(`Can't tell the format of ${output} (use .gif, .png or .svg)`);
+  const exporter = exporters[format];
+  if (!exporter.isSupported()) throw new Error(`${exporter.label} export needs a browser`);
+
+  const options = exportOptions(values);
+  const source = await decodeInput(await readFile(input));
+  const texture = values['bg-texture'] ? (await decodeInput(await readFile(values['bg-texture']), 1)).frames[0] : null;
+  const plan = planPixelExport(source, {
+    ...DEFAULT_SETTINGS,
+    ...(await fileSettings(values)),
+    ...(texture ? { backgroundStyle: 'texture' as const } : {}),
+    ...flagSettings(values),
+  }, options);
+
+  const blob = await renderPixelExport(source, plan, exporter, options, input, texture);
+  await writeFile(output, new Uint8Array(await blob.arrayBuffer()));
+  const { width, height, settings } = plan;
+  process.stdout.write(`${output}: ${width}×${height}, ${settings.frameCount} frames, seed ${settings.seed}\n`);
+  const unsupported = exporter.unsupportedSettings?.(settings) ?? [];
+  if (unsupported.length > 0) process.stderr.write(`wiggleline: ${exporter.label} leaves out ${unsupported.join(', ')}\n`);
+};
+
+main(process.argv.slice(2)).catch((err) => {
+  process.stderr.write(`wiggleline: ${err instanceof Error ? err.message : err}\n`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,254 @@
+import React, { useRef, useState } from 'react';
+import { ProcessingSettings, DetectionMode } from '../types';
+import { BatchItem, BatchQueue, zipBatchResults } from '../utils/batch';
+import { ExportJob } from '../utils/exportRender';
+import { Exporter, ExportOptions } from '../utils/exporters';
+import { translations } from '../utils/translations';
+import Button from './Button';
+
+interface BatchPanelProps {
+  batch: BatchQueue;
+  settings: ProcessingSettings;
+  exportOptions: ExportOptions;
+  exporter: Exporter;
+  texture: ExportJob['texture']; // The imported texture while the 'texture' background style is on
+  onClose: () => void;
+  t: typeof translations.en;
+}
+
+const DETECTION_MODES: DetectionMode[] = ['brightness', 'edge', 'sobel', 'canny', 'xdog', 'adaptive'];
+
+const STATUS_STYLES: Record<BatchItem['status'], string> = {
+  queued: 'bg-gray-700 text-gray-300',
+  rendering: 'bg-indigo-600 text-white',
+  done: 'bg-green-600 text-white',
+  error: 'bg-red-600 text-white',
+};
+
+const FIELD = 'bg-gray-800 border border-gray-700 text-gray-300 text-xs rounded px-2 py-1 focus:outline-none focus:border-indigo-500';
+
+/**
+ * Per-item overrides: an empty field means "use the shared setting"
+ */
+const OverrideEditor: React.FC<{
+  item: BatchItem;
+  settings: ProcessingSettings;
+  disabled: boolean;
+  onChange: (overrides: Partial<ProcessingSettings>) => void;
+  t: typeof translations.en;
+}> = ({ item, settings, disabled, onChange, t }) => {
+  const { overrides } = item;
+
+  const set = <K extends keyof ProcessingSettings>(key: K, value: ProcessingSettings[K] | undefined) => {
+    const next = { ...overrides };
+    if (value === undefined) delete next[key];
+    else next[key] = value;
+    onChange(next);
+  };
+
+  const numberValue = (raw: string) => (raw.trim() === '' || !Number.isFinite(Number(raw)) ? undefined : Number(raw));
+
+  return (
+    <div className={`grid grid-cols-2 gap-2 mt-2 ${disabled ? 'opacity-50 pointer-events-none' : ''}`}>
+      <label className="text-[10px] text-gray-400 flex flex-col gap-1">
+        {t.detectionMode}
+        <select
+          value={overrides.detectionMode ?? ''}
+          onChange={(e) => set('detectionMode', (e.target.value || undefined) as DetectionMode | undefined)}
+          className={FIELD}
+        >
+          <option value="">{t.batchShared} ({settings.detectionMode})</option>
+          {DETECTION_MODES.map(mode => <option key={mode} value={mode}>{mode}</option>)}
+        </select>
+      </label>
+      <label className="text-[10px] text-gray-400 flex flex-col gap-1">
+        {t.threshold}
+        <input
+          type="number"
+          min={0}
+          max={500}
+          value={overrides.threshold ?? ''}
+          placeholder={String(settings.threshold)}
+          onChange={(e) => set('threshold', numberValue(e.target.value))}
+          className={FIELD}
+        />
+      </label>
+      <label className="text-[10px] text-gray-400 flex flex-col gap-1">
+        {t.jitterAmount}
+        <input
+          type="number"
+          min={0}
+          max={10}
+          step={0.5}
+          value={overrides.jitterAmount ?? ''}
+          placeholder={String(settings.jitterAmount)}
+          onChange={(e) => set('jitterAmount', numberValue(e.target.value))}
+          className={FIELD}
+        />
+      </label>
+      <label className="text-[10px] text-gray-400 flex flex-col gap-1">
+        {t.lineColor}
+        <div className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={overrides.lineColor !== undefined}
+            onChange={(e) => set('lineColor', e.target.checked ? settings.lineColor : undefined)}
+            className="accent-indigo-500"
+          />
+          <input
+            type="color"
+            value={overrides.lineColor ?? settings.lineColor}
+            disabled={overrides.lineColor === undefined}
+            onChange={(e) => set('lineColor', e.target.value)}
+            className="h-6 w-10 bg-transparent border-0 p-0 disabled:opacity-40"
+          />
+        </div>
+      </label>
+    </div>
+  );
+};
+
+/**
+ * Queue of images exported with the shared settings, downloaded together as a zip
+ */
+const BatchPanel: React.FC<BatchPanelProps> = ({ batch, settings, exportOptions, exporter, texture, onClose, t }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [isZipping, setIsZipping] = useState(false);
+  const doneCount = batch.items.filter(item => item.status === 'done').length;
+  const statusLabels: Record<BatchItem['status'], string> = {
+    queued: t.batchQueued,
+    rendering: t.batchRendering,
+    done: t.batchDone,
+    error: t.batchError,
+  };
+
+  const downloadZip = async () => {
+    setIsZipping(true);
+    try {
+      const url = URL.createObjectURL(await zipBatchResults(batch.items));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'wiggle-batch.zip';
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error(err);
+      alert(t.exportError);
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-40 bg-[#09090b]/95 backdrop-blur-sm flex flex-col">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-800">
+        <h2 className="text-sm font-bold text-white">
+          {t.batchTitle} <span className="text-gray-500 font-mono font-normal">({doneCount}/{batch.items.length})</span>
+        </h2>
+        <div className="flex items-center gap-2">
+          <input
+            type="file"
+            ref={fileInputRef}
+            multiple
+            accept="image/*,video/*"
+            onChange={(e) => {
+              batch.add(Array.from(e.target.files ?? []));
+              e.target.value = '';
+            }}
+            className="hidden"
+          />
+          <Button variant="ghost" className="text-xs px-3 py-1.5" disabled={batch.running} onClick={() => fileInputRef.current?.click()}>
+            {t.batchAddFiles}
+          </Button>
+          <Button variant="ghost" className="text-xs px-3 py-1.5" disabled={batch.running || batch.items.length === 0} onClick={batch.clear}>
+            {t.batchClear}
+          </Button>
+          <Button variant="ghost" className="text-xs px-3 py-1.5" onClick={onClose}>
+            {t.batchClose}
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-2 min-h-0">
+        {batch.items.length === 0 && (
+          <div
+            onClick={() => fileInputRef.current?.click()}
+            className="h-full min-h-[160px] border-2 border-dashed border-gray-700 rounded-xl flex items-center justify-center text-sm text-gray-500 cursor-pointer hover:border-gray-500"
+          >
+            {t.batchDropHint}
+          </div>
+        )}
+        {batch.items.map(item => (
+          <div key={item.id} className="bg-gray-900 border border-gray-800 rounded-lg px-3 py-2">
+            <div className="flex items-center gap-3">
+              <span className={`text-[10px] font-semibold uppercase px-2 py-0.5 rounded ${STATUS_STYLES[item.status]}`}>
+                {statusLabels[item.status]}
+              </span>
+              <span className="flex-1 text-xs text-gray-200 truncate" title={item.file.name}>{item.file.name}</span>
+              {Object.keys(item.overrides).length > 0 && (
+                <span className="text-[10px] text-indigo-400">{t.batchOverridden}</span>
+              )}
+              <button
+                onClick={() => setExpanded(expanded === item.id ? null : item.id)}
+                className="text-[11px] text-gray-400 hover:text-white"
+              >
+                {t.batchCustomize}
+              </button>
+              <button
+                onClick={() => batch.remove(item.id)}
+                disabled={batch.running}
+                className="text-[11px] text-gray-500 hover:text-red-400 disabled:opacity-30"
+              >
+                ✕
+              </button>
+            </div>
+            {item.status === 'rendering' && (
+              <div className="h-1 bg-gray-700 rounded-full overflow-hidden mt-2">
+                <div className="h-full bg-indigo-500 transition-all duration-150" style={{ width: `${item.progress * 100}%` }} />
+              </div>
+            )}
+            {item.error && <p className="text-[11px] text-red-400 mt-1">{item.error}</p>}
+            {expanded === item.id && (
+              <OverrideEditor
+                item={item}
+                settings={settings}
+                disabled={batch.running}
+                onChange={(overrides) => batch.setOverrides(item.id, overrides)}
+                t={t}
+              />
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-end gap-2 px-4 py-3 border-t border-gray-800">
+        <span className="flex-1 text-[11px] text-gray-500">
+          {t.batchUsesExport} {exporter.label}
+        </span>
+        {batch.running ? (
+          <Button variant="danger" className="text-xs px-4" onClick={batch.cancel}>{t.batchCancel}</Button>
+        ) : (
+          <Button
+            className="text-xs px-4"
+            disabled={batch.items.length === 0 || !exporter.isSupported()}
+            onClick={() => batch.run(batch.items, settings, exportOptions, exporter, texture)}
+          >
+            {t.batchStart}
+          </Button>
+        )}
+        <Button
+          variant="secondary"
+          className="text-xs px-4"
+          disabled={batch.running || doneCount === 0}
+          isLoading={isZipping}
+          onClick={downloadZip}
+        >
+          {t.batchDownloadZip}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default BatchPanel;
@@ -1,15 +1,33 @@
 import React from 'react';
-import { ProcessingSettings } from '../types';
+import { ProcessingSettings, DetectionMode, JitterMode, NoiseType, AnimationMode, SourceTiming, StrokeTexture, PaletteMode, GradientDirection, BackgroundStyle } from '../types';
 import { translations } from '../utils/translations';
+import { randomSeed } from '../utils/random';
+import { MAX_PALETTE_COLORS } from '../utils/palette';
+import PresetManager from './PresetManager';
+import { exporters, EXPORT_FORMATS, EXPORT_RESOLUTIONS, ExportFormat, ExportOptions, ExportResolution } from '../utils/exporters';
+
+// Frame count limits: boil frames are all distinct, flow frames are steps along one loop
+const MAX_BOIL_FRAMES = 8;
+const MAX_FLOW_FRAMES = 24;
 
 interface ControlsProps {
   settings: ProcessingSettings;
   updateSettings: (s: Partial<ProcessingSettings>) => void;
   onGenerate: () => void;
+  onExtractPalette: () => void;
+  onImportTexture: (file: File) => void;
+  hasTexture: boolean;
   onExport: () => void;
+  exportFormat: ExportFormat;
+  onChangeExportFormat: (format: ExportFormat) => void;
+  exportOptions: ExportOptions;
+  onChangeExportOptions: (options: Partial<ExportOptions>) => void;
   isGenerating: boolean;
   isExporting: boolean;
   hasImage: boolean;
+  sourceFrameCount: number | null; // Frames of an animated source; null for a still image
+  seedLocked: boolean;
+  onToggleSeedLock: () => void;
   t: typeof translations.en;
 }
 
@@ -109,14 +127,112 @@ const Select: React.FC<{
   </div>
 );
 
+const SwatchList: React.FC<{
+  label: string;
+  colors: string[];
+  addLabel: string;
+  removeLabel: string;
+  onChange: (colors: string[]) => void;
+}> = ({ label, colors, addLabel, removeLabel, onChange }) => (
+  <div className="mb-4">
+    <label className="text-xs font-medium text-gray-400 block mb-1">{label}</label>
+    <div className="flex flex-wrap items-center gap-2">
+      {colors.map((color, i) => (
+        <div key={i} className="relative group">
+          <input
+            type="color"
+            value={color}
+            onChange={(e) => onChange(colors.map((c, j) => (j === i ? e.target.value : c)))}
+            className="h-8 w-8 bg-transparent border-0 p-0 cursor-pointer"
+          />
+          {colors.length > 1 && (
+            <button
+              onClick={() => onChange(colors.filter((_, j) => j !== i))}
+              title={removeLabel}
+              className="absolute -top-1.5 -right-1.5 hidden group-hover:flex h-4 w-4 items-center justify-center rounded-full bg-gray-700 text-[10px] text-gray-300 hover:bg-red-600 hover:text-white"
+            >
+              ×
+            </button>
+          )}
+        </div>
+      ))}
+      {colors.length < MAX_PALETTE_COLORS && (
+        <button
+          onClick={() => onChange([...colors, colors[colors.length - 1]])}
+          title={addLabel}
+          className="h-8 w-8 rounded border border-dashed border-gray-600 text-gray-400 hover:text-white hover:border-gray-400 transition-colors"
+        >
+          +
+        </button>
+      )}
+    </div>
+  </div>
+);
+
+const SeedInput: React.FC<{
+  label: string;
+  value: number;
+  locked: boolean;
+  lockLabel: string;
+  unlockLabel: string;
+  rerollLabel: string;
+  onChange: (val: number) => void;
+  onToggleLock: () => void;
+  onReroll: () => void;
+}> = ({ label, value, locked, lockLabel, unlockLabel, rerollLabel, onChange, onToggleLock, onReroll }) => (
+  <div className="mb-4">
+    <label className="text-xs font-medium text-gray-400 block mb-1">{label}</label>
+    <div className="flex items-center space-x-2">
+      <input
+        type="number"
+        min={0}
+        value={value}
+        onChange={(e) => onChange(Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+        className="flex-1 min-w-0 bg-gray-800 border border-gray-700 text-xs rounded px-2 py-1 text-gray-300 font-mono"
+      />
+      <button
+        onClick={onToggleLock}
+        title={locked ? unlockLabel : lockLabel}
+        className={`text-xs px-2 py-1 rounded border transition-colors ${
+          locked ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-gray-800 border-gray-700 text-gray-400 hover:text-white'
+        }`}
+      >
+        {locked ? '🔒' : '🔓'}
+      </button>
+      <button
+        onClick={onReroll}
+        title={rerollLabel}
+        className="text-xs px-2 py-1 rounded border bg-gray-800 border-gray-700 text-gray-400 hover:text-white transition-colors"
+      >
+        🎲
+      </button>
+    </div>
+  </div>
+);
+
 const Controls: React.FC<ControlsProps> = ({
   settings,
   updateSettings,
+  onGenerate,
+  onExtractPalette,
+  onImportTexture,
+  hasTexture,
+  isGenerating,
   isExporting,
   hasImage,
+  sourceFrameCount,
   onExport,
+  exportFormat,
+  onChangeExportFormat,
+  exportOptions,
+  onChangeExportOptions,
+  seedLocked,
+  onToggleSeedLock,
   t
 }) => {
+  const exporter = exporters[exportFormat];
+  const unsupportedSettings = exporter.unsupportedSettings?.(settings) ?? [];
+
   return (
     <div className="w-full h-full flex flex-col">
       {/* Scrollable container for settings */}
@@ -124,8 +240,22 @@ const Controls: React.FC<ControlsProps> = ({
         <h2 className="text-lg font-bold text-white flex items-center mb-2">
           <span className="bg-indigo-600 w-2 h-6 rounded mr-3"></span>
           {t.settings}
+          <button
+            onClick={onGenerate}
+            className="ml-auto text-[11px] font-medium text-indigo-400 hover:text-indigo-300"
+          >
+            {t.generateSample}
+          </button>
         </h2>
 
+        {/* Presets Section */}
+        <section>
+          <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-widest mb-4 border-b border-gray-800 pb-2">
+            {t.presets}
+          </h3>
+          <PresetManager settings={settings} updateSettings={updateSettings} t={t} />
+        </section>
+
         {/* Line Extraction Section */}
         <section>
           <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-widest mb-4 border-b border-gray-800 pb-2">
@@ -137,16 +267,96 @@ const Controls: React.FC<ControlsProps> = ({
              options={[
                { label: t.modeBrightness, value: 'brightness' },
                { label: t.modeEdge, value: 'edge' },
+               { label: t.modeSobel, value: 'sobel' },
+               { label: t.modeCanny, value: 'canny' },
+               { label: t.modeXdog, value: 'xdog' },
+               { label: t.modeAdaptive, value: 'adaptive' },
              ]}
-             onChange={(v) => updateSettings({ detectionMode: v as 'brightness' | 'edge' })}
-          />
-          <Slider
-            label={t.threshold}
-            value={settings.threshold}
-            min={0}
-            max={500}
-            onChange={(v) => updateSettings({ threshold: v })}
+             onChange={(v) => updateSettings({ detectionMode: v as DetectionMode })}
           />
+          {settings.detectionMode !== 'adaptive' && (
+            <Toggle
+              label={t.autoThreshold}
+              checked={settings.autoThreshold}
+              onChange={(v) => updateSettings({ autoThreshold: v })}
+            />
+          )}
+          {settings.detectionMode !== 'canny' && settings.detectionMode !== 'adaptive' && (
+            <Slider
+              label={t.threshold}
+              value={settings.threshold}
+              min={0}
+              max={500}
+              onChange={(v) => updateSettings({ threshold: v, autoThreshold: false })}
+            />
+          )}
+          {settings.detectionMode === 'adaptive' && (
+            <>
+              <Slider
+                label={t.adaptiveRadius}
+                value={settings.adaptiveRadius}
+                min={2}
+                max={60}
+                onChange={(v) => updateSettings({ adaptiveRadius: v })}
+              />
+              <Slider
+                label={t.adaptiveOffset}
+                value={settings.adaptiveOffset}
+                min={0}
+                max={60}
+                onChange={(v) => updateSettings({ adaptiveOffset: v })}
+              />
+            </>
+          )}
+          {(settings.detectionMode === 'sobel' || settings.detectionMode === 'canny') && (
+            <Slider
+              label={t.edgeBlur}
+              value={settings.edgeBlur}
+              min={0}
+              max={4}
+              step={0.25}
+              onChange={(v) => updateSettings({ edgeBlur: v })}
+            />
+          )}
+          {settings.detectionMode === 'canny' && (
+            <>
+              <Slider
+                label={t.cannyLow}
+                value={settings.cannyLow}
+                min={0}
+                max={500}
+                step={5}
+                onChange={(v) => updateSettings({ cannyLow: v, autoThreshold: false })}
+              />
+              <Slider
+                label={t.cannyHigh}
+                value={settings.cannyHigh}
+                min={0}
+                max={500}
+                step={5}
+                onChange={(v) => updateSettings({ cannyHigh: v, autoThreshold: false })}
+              />
+            </>
+          )}
+          {settings.detectionMode === 'xdog' && (
+            <>
+              <Slider
+                label={t.xdogSigma}
+                value={settings.xdogSigma}
+                min={0.5}
+                max={5}
+                step={0.1}
+                onChange={(v) => updateSettings({ xdogSigma: v })}
+              />
+              <Slider
+                label={t.xdogSharpness}
+                value={settings.xdogSharpness}
+                min={1}
+                max={100}
+                onChange={(v) => updateSettings({ xdogSharpness: v })}
+              />
+            </>
+          )}
         </section>
 
         {/* Animation Section */}
@@ -154,6 +364,15 @@ const Controls: React.FC<ControlsProps> = ({
           <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-widest mb-4 border-b border-gray-800 pb-2">
             {t.animation}
           </h3>
+          <Select
+             label={t.jitterMode}
+             value={settings.jitterMode}
+             options={[
+               { label: t.jitterModePixel, value: 'pixel' },
+               { label: t.jitterModeStroke, value: 'stroke' },
+             ]}
+             onChange={(v) => updateSettings({ jitterMode: v as JitterMode })}
+          />
           <Slider
             label={t.jitterAmount}
             value={settings.jitterAmount}
@@ -162,20 +381,112 @@ const Controls: React.FC<ControlsProps> = ({
             step={0.5}
             onChange={(v) => updateSettings({ jitterAmount: v })}
           />
-          <Slider
-            label={t.speed}
-            value={settings.jitterSpeed}
-            min={50}
-            max={500}
-            step={10}
-            onChange={(v) => updateSettings({ jitterSpeed: v })}
-          />
-           <Slider
-            label={t.uniqueFrames}
-            value={settings.frameCount}
-            min={2}
-            max={8}
-            onChange={(v) => updateSettings({ frameCount: v })}
+          {settings.jitterMode === 'pixel' && (
+            <>
+              <Select
+                 label={t.noiseType}
+                 value={settings.noiseType}
+                 options={[
+                   { label: t.noiseValue, value: 'value' },
+                   { label: t.noisePerlin, value: 'perlin' },
+                   { label: t.noiseSimplex, value: 'simplex' },
+                 ]}
+                 onChange={(v) => updateSettings({ noiseType: v as NoiseType })}
+              />
+              <Slider
+                label={t.noiseScale}
+                value={settings.noiseScale}
+                min={0.5}
+                max={10}
+                step={0.5}
+                onChange={(v) => updateSettings({ noiseScale: v })}
+              />
+              <Slider
+                label={t.noiseOctaves}
+                value={settings.noiseOctaves}
+                min={1}
+                max={5}
+                onChange={(v) => updateSettings({ noiseOctaves: v })}
+              />
+              <Slider
+                label={t.noiseAnisotropy}
+                value={settings.noiseAnisotropy}
+                min={-1}
+                max={1}
+                step={0.1}
+                onChange={(v) => updateSettings({ noiseAnisotropy: v })}
+              />
+            </>
+          )}
+          {sourceFrameCount !== null && (
+            <Select
+               label={t.sourceTiming}
+               value={settings.sourceTiming}
+               options={[
+                 { label: t.timingSource, value: 'source' },
+                 { label: t.timingUniform, value: 'uniform' },
+               ]}
+               onChange={(v) => updateSettings({ sourceTiming: v as SourceTiming })}
+            />
+          )}
+          {(sourceFrameCount === null || settings.sourceTiming === 'uniform') && (
+            <Slider
+              label={t.speed}
+              value={settings.jitterSpeed}
+              min={50}
+              max={500}
+              step={10}
+              onChange={(v) => updateSettings({ jitterSpeed: v })}
+            />
+          )}
+          <Select
+             label={t.animationMode}
+             value={settings.animationMode}
+             options={[
+               { label: t.animationBoil, value: 'boil' },
+               { label: t.animationFlow, value: 'flow' },
+             ]}
+             onChange={(v) => updateSettings({
+               animationMode: v as AnimationMode,
+               // Boil loops stay short; longer flow loops don't fit its slider
+               frameCount: v === 'boil' ? Math.min(settings.frameCount, MAX_BOIL_FRAMES) : settings.frameCount,
+             })}
+          />
+          {sourceFrameCount === null ? (
+            <Slider
+              label={settings.animationMode === 'flow' ? t.loopLength : t.uniqueFrames}
+              value={settings.frameCount}
+              min={2}
+              max={settings.animationMode === 'flow' ? MAX_FLOW_FRAMES : MAX_BOIL_FRAMES}
+              onChange={(v) => updateSettings({ frameCount: v })}
+            />
+          ) : (
+            // An animated source has one output frame per source frame
+            <div className="mb-4 flex justify-between">
+              <span className="text-xs font-medium text-gray-400">{t.sourceFrames}</span>
+              <span className="text-xs font-mono text-gray-500">{sourceFrameCount}</span>
+            </div>
+          )}
+          {settings.animationMode === 'flow' && (
+            <Slider
+              label={t.flowSmoothness}
+              value={settings.flowSmoothness}
+              min={0}
+              max={1}
+              step={0.05}
+              onChange={(v) => updateSettings({ flowSmoothness: v })}
+            />
+          )}
+          <SeedInput
+            label={t.seed}
+            value={settings.seed}
+            locked={seedLocked}
+            lockLabel={t.lockSeed}
+            unlockLabel={t.unlockSeed}
+            rerollLabel={t.rerollSeed}
+            onChange={(v) => updateSettings({ seed: v })}
+            onToggleLock={onToggleSeedLock}
+            onReroll={() => updateSettings({ seed: randomSeed() })}
           />
         </section>
 
@@ -193,28 +504,256 @@ const Controls: React.FC<ControlsProps> = ({
             label={t.lineColor} 
             value={settings.lineColor} 
             onChange={(v) => updateSettings({ lineColor: v })} 
-            disabled={settings.useOriginalColors}
+            disabled={settings.useOriginalColors || settings.paletteMode === 'gradient'}
+          />
+          <Select
+             label={t.paletteMode}
+             value={settings.paletteMode}
+             options={[
+               { label: t.paletteOff, value: 'off' },
+               { label: t.paletteExtracted, value: 'extracted' },
+               { label: t.paletteSwatches, value: 'swatches' },
+               { label: t.paletteDuotone, value: 'duotone' },
+               { label: t.paletteGradient, value: 'gradient' },
+             ]}
+             onChange={(v) => updateSettings({ paletteMode: v as PaletteMode })}
           />
+          {settings.paletteMode === 'extracted' && (
+            <>
+              <Slider
+                label={t.paletteSize}
+                value={settings.paletteSize}
+                min={2}
+                max={MAX_PALETTE_COLORS}
+                onChange={(v) => updateSettings({ paletteSize: v })}
+              />
+              <button
+                onClick={onExtractPalette}
+                disabled={!hasImage}
+                className="mb-4 text-[11px] font-medium text-indigo-400 hover:text-indigo-300 disabled:opacity-50 disabled:pointer-events-none"
+              >
+                {t.editExtractedPalette}
+              </button>
+            </>
+          )}
+          {settings.paletteMode !== 'off' && settings.paletteMode !== 'extracted' && (
+            <>
+              <SwatchList
+                label={t.paletteColors}
+                colors={settings.paletteColors}
+                addLabel={t.addSwatch}
+                removeLabel={t.removeSwatch}
+                onChange={(colors) => updateSettings({ paletteColors: colors })}
+              />
+              <button
+                onClick={onExtractPalette}
+                disabled={!hasImage}
+                className="mb-4 text-[11px] font-medium text-indigo-400 hover:text-indigo-300 disabled:opacity-50 disabled:pointer-events-none"
+              >
+                {t.extractPalette}
+              </button>
+            </>
+          )}
+          {settings.paletteMode === 'gradient' && (
+            <Select
+               label={t.gradientDirection}
+               value={settings.gradientDirection}
+               options={[
+                 { label: t.gradientHorizontal, value: 'horizontal' },
+                 { label: t.gradientVertical, value: 'vertical' },
+                 { label: t.gradientDiagonal, value: 'diagonal' },
+                 { label: t.gradientRadial, value: 'radial' },
+               ]}
+               onChange={(v) => updateSettings({ gradientDirection: v as GradientDirection })}
+            />
+          )}
+          <Toggle
+             label={t.transparentBg}
+             checked={settings.transparentBg}
+             onChange={(v) => updateSettings({ transparentBg: v })}
+          />
+          {settings.transparentBg && settings.useOriginalColors && (
+            <Toggle
+               label={t.antiHalo}
+               checked={settings.antiHalo}
+               onChange={(v) => updateSettings({ antiHalo: v })}
+            />
+          )}
           <ColorPicker 
             label={t.bgColor} 
             value={settings.bgColor} 
             onChange={(v) => updateSettings({ bgColor: v })} 
+            disabled={settings.transparentBg}
           />
+          {!settings.transparentBg && (
+            <>
+              <Select
+                 label={t.backgroundStyle}
+                 value={settings.backgroundStyle}
+                 options={[
+                   { label: t.backgroundFlat, value: 'flat' },
+                   { label: t.backgroundPaper, value: 'paper' },
+                   { label: t.backgroundNotebook, value: 'notebook' },
+                   { label: t.backgroundGrid, value: 'grid' },
+                   { label: t.backgroundChalkboard, value: 'chalkboard' },
+                   { label: t.backgroundTexture, value: 'texture' },
+                 ]}
+                 onChange={(v) => updateSettings({ backgroundStyle: v as BackgroundStyle })}
+              />
+              {settings.backgroundStyle === 'texture' && (
+                <label className="mb-4 inline-block text-[11px] font-medium text-indigo-400 hover:text-indigo-300 cursor-pointer">
+                  {hasTexture ? t.replaceTexture : t.importTexture}
+                  <input
+                    type="file"
+                    accept="image/*"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) onImportTexture(file);
+                      // Lets the same file be picked again
+                      e.target.value = '';
+                    }}
+                  />
+                </label>
+              )}
+              {settings.backgroundStyle !== 'flat' && (
+                <Slider
+                  label={t.backgroundStrength}
+                  value={settings.backgroundStrength}
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  onChange={(v) => updateSettings({ backgroundStrength: v })}
+                />
+              )}
+              <Slider
+                label={t.underlayOpacity}
+                value={settings.underlayOpacity}
+                min={0}
+                max={1}
+                step={0.05}
+                onChange={(v) => updateSettings({ underlayOpacity: v })}
+              />
+              {settings.underlayOpacity > 0 && (
+                <>
+                  <Slider
+                    label={t.underlayDesaturation}
+                    value={settings.underlayDesaturation}
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    onChange={(v) => updateSettings({ underlayDesaturation: v })}
+                  />
+                  <Slider
+                    label={t.underlayJitter}
+                    value={settings.underlayJitter}
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    onChange={(v) => updateSettings({ underlayJitter: v })}
+                  />
+                </>
+              )}
+            </>
+          )}
+          <Slider
+            label={t.lineWeight}
+            value={settings.lineWeight}
+            min={-3}
+            max={6}
+            step={0.5}
+            onChange={(v) => updateSettings({ lineWeight: v })}
+          />
+          <Slider
+            label={t.taperLength}
+            value={settings.taperLength}
+            min={0}
+            max={80}
+            onChange={(v) => updateSettings({ taperLength: v })}
+          />
+          <Select
+             label={t.strokeTexture}
+             value={settings.strokeTexture}
+             options={[
+               { label: t.textureNone, value: 'none' },
+               { label: t.texturePencil, value: 'pencil' },
+               { label: t.textureInk, value: 'ink' },
+               { label: t.textureChalk, value: 'chalk' },
+             ]}
+             onChange={(v) => updateSettings({ strokeTexture: v as StrokeTexture })}
+          />
+          {settings.strokeTexture !== 'none' && (
+            <Slider
+              label={t.textureStrength}
+              value={settings.textureStrength}
+              min={0}
+              max={1}
+              step={0.05}
+              onChange={(v) => updateSettings({ textureStrength: v })}
+            />
+          )}
         </section>
       </div>
 
-      {/* Export Button area - fixed at bottom of controls component */}
+      {/* Export area - fixed at bottom of controls component */}
       <div className="p-4 border-t border-gray-800 bg-[#09090b] shadow-2xl">
+        <Select
+          label={t.exportFormat}
+          value={exportFormat}
+          options={EXPORT_FORMATS.map(f => ({ label: exporters[f].label, value: f }))}
+          onChange={(v) => onChangeExportFormat(v as ExportFormat)}
+        />
+        {unsupportedSettings.length > 0 && (
+          <p className="mb-4 text-[11px] text-gray-500">
+            {t.formatLeavesOut}{unsupportedSettings.map(key => (key in t ? t[key as keyof typeof t] : key)).join(t.listSeparator)}
+          </p>
+        )}
+        <Select
+          label={t.exportResolution}
+          value={String(exportOptions.resolution)}
+          options={EXPORT_RESOLUTIONS.map(r => ({
+            label: r === 'preview' ? t.resolutionPreview : r === 'original' ? t.resolutionOriginal : `${r}px`,
+            value: String(r),
+          }))}
+          onChange={(v) => onChangeExportOptions({
+            resolution: v === 'preview' || v === 'original' ? v : Number(v) as ExportResolution,
+          })}
+        />
+        {exporter.supportsQuality && (
+          <Slider
+            label={t.exportQuality}
+            value={exportOptions.quality}
+            min={1}
+            max={100}
+            onChange={(v) => onChangeExportOptions({ quality: v })}
+          />
+        )}
+        {exporter.supportsLoopCount && (
+          <Slider
+            label={exportOptions.loopCount === 0 ? `${t.loopCount} (${t.loopForever})` : t.loopCount}
+            value={exportOptions.loopCount}
+            min={0}
+            max={10}
+            onChange={(v) => onChangeExportOptions({ loopCount: v })}
+          />
+        )}
+        {exporter.supportsDither && (
+          <Toggle
+            label={t.dither}
+            checked={exportOptions.dither}
+            onChange={(v) => onChangeExportOptions({ dither: v })}
+          />
+        )}
         <button
           onClick={onExport}
-          disabled={!hasImage || isExporting}
+          disabled={!hasImage || isExporting || isGenerating}
           className={`w-full py-3 px-4 rounded-xl font-bold text-sm uppercase tracking-wide transition-all 
-            ${!hasImage || isExporting 
+            ${!hasImage || isExporting || isGenerating 
               ? 'bg-gray-800 text-gray-500 cursor-not-allowed' 
               : 'bg-indigo-600 hover:bg-indigo-500 text-white shadow-lg shadow-indigo-600/20 active:scale-[0.98]'
             }`}
         >
-          {isExporting ? t.generating : t.exportGif}
+          {isExporting ? t.generating : `${t.export} ${exporter.label}`}
         </button>
       </div>
     </div>
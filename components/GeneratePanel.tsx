@@ -0,0 +1,107 @@
+import React from 'react';
+import { SketchGeneration, StyleModifier, STYLE_MODIFIER_IDS } from '../utils/sketchGeneration';
+import { translations } from '../utils/translations';
+import Button from './Button';
+
+interface GeneratePanelProps {
+  generation: SketchGeneration;
+  providerLabel: string;
+  prompt: string;
+  modifiers: StyleModifier[];
+  onChangePrompt: (prompt: string) => void;
+  onChangeModifiers: (modifiers: StyleModifier[]) => void;
+  onGenerate: () => void;
+  onClose: () => void;
+  t: typeof translations.en;
+}
+
+const GeneratePanel: React.FC<GeneratePanelProps> = ({
+  generation,
+  providerLabel,
+  prompt,
+  modifiers,
+  onChangePrompt,
+  onChangeModifiers,
+  onGenerate,
+  onClose,
+  t
+}) => {
+  const { generating } = generation;
+
+  const modifierLabels: Record<StyleModifier, string> = {
+    thickLines: t.styleThickLines,
+    thinLines: t.styleThinLines,
+    minimal: t.styleMinimal,
+    continuousLine: t.styleContinuousLine,
+    pencil: t.stylePencil,
+    ink: t.styleInk,
+    cartoon: t.styleCartoon,
+    whiteBackground: t.styleWhiteBackground,
+  };
+
+  const toggle = (modifier: StyleModifier) =>
+    onChangeModifiers(
+      modifiers.includes(modifier) ? modifiers.filter(m => m !== modifier) : [...modifiers, modifier]
+    );
+
+  return (
+    <div className="absolute inset-0 z-40 bg-[#09090b]/95 backdrop-blur-sm flex flex-col">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-800">
+        <h2 className="text-sm font-bold text-white">
+          {t.generateTitle} <span className="text-gray-500 font-mono font-normal">({providerLabel})</span>
+        </h2>
+        <Button variant="ghost" className="text-xs px-3 py-1.5" onClick={onClose}>
+          {t.batchClose}
+        </Button>
+      </div>
+
+      <div className={`flex-1 overflow-y-auto p-4 space-y-4 min-h-0 ${generating ? 'opacity-50 pointer-events-none' : ''}`}>
+        <label className="text-xs text-gray-400 flex flex-col gap-2">
+          {t.promptLabel}
+          <textarea
+            value={prompt}
+            onChange={(e) => onChangePrompt(e.target.value)}
+            rows={4}
+            className="bg-gray-800 border border-gray-700 text-gray-200 text-sm rounded-lg px-3 py-2 resize-none focus:outline-none focus:border-indigo-500"
+          />
+        </label>
+        <div>
+          <p className="text-xs text-gray-400 mb-2">{t.styleModifiers}</p>
+          <div className="flex flex-wrap gap-2">
+            {STYLE_MODIFIER_IDS.map(modifier => (
+              <button
+                key={modifier}
+                onClick={() => toggle(modifier)}
+                className={`text-xs px-3 py-1 rounded-full border transition-colors ${
+                  modifiers.includes(modifier)
+                    ? 'bg-indigo-600 border-indigo-500 text-white'
+                    : 'bg-gray-800 border-gray-700 text-gray-400 hover:text-white'
+                }`}
+              >
+                {modifierLabels[modifier]}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-end gap-2 px-4 py-3 border-t border-gray-800">
+        {generating && (
+          <span className="flex-1 flex items-center gap-2 text-[11px] text-gray-400">
+            <span className="w-3 h-3 border-2 border-indigo-400 border-t-transparent rounded-full animate-spin"></span>
+            {t.dreaming}
+          </span>
+        )}
+        {generating ? (
+          <Button variant="danger" className="text-xs px-4" onClick={generation.cancel}>{t.batchCancel}</Button>
+        ) : (
+          <Button className="text-xs px-4" disabled={!prompt.trim()} onClick={onGenerate}>
+            {t.generateSketch}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GeneratePanel;
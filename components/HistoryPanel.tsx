@@ -0,0 +1,60 @@
+import React from 'react';
+import { HistoryEntry } from '../utils/settingsHistory';
+import { translations } from '../utils/translations';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  index: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (index: number) => void;
+  t: typeof translations.en;
+}
+
+const UndoIcon = () => (
+  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a5 5 0 015 5v2M3 10l5-5m-5 5l5 5" />
+  </svg>
+);
+
+const RedoIcon = () => (
+  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 10H11a5 5 0 00-5 5v2m15-7l-5-5m5 5l-5 5" />
+  </svg>
+);
+
+const ICON_BUTTON = 'p-1.5 rounded text-gray-400 hover:text-white hover:bg-gray-800 disabled:opacity-30 disabled:pointer-events-none transition-colors';
+
+/**
+ * Undo/redo buttons plus a strip of earlier settings states to jump back to
+ */
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, index, canUndo, canRedo, onUndo, onRedo, onJump, t }) => (
+  <div className="flex-shrink-0 flex items-center gap-2 px-4 py-2 border-t border-gray-800 bg-[#09090b] min-w-0">
+    <button onClick={onUndo} disabled={!canUndo} className={ICON_BUTTON} title={`${t.undo} (Ctrl+Z)`}>
+      <UndoIcon />
+    </button>
+    <button onClick={onRedo} disabled={!canRedo} className={ICON_BUTTON} title={`${t.redo} (Ctrl+Shift+Z)`}>
+      <RedoIcon />
+    </button>
+    <div className="flex-1 flex gap-1.5 overflow-x-auto min-w-0 py-0.5">
+      {entries.map((entry, i) => (
+        <button
+          key={entry.id}
+          onClick={() => onJump(i)}
+          title={entry.changed.length > 0 ? entry.changed.join(', ') : t.historyInitial}
+          className={`flex-shrink-0 w-10 h-10 rounded border overflow-hidden bg-gray-800 transition-all
+            ${i === index ? 'border-indigo-500 ring-1 ring-indigo-500' : 'border-gray-700 hover:border-gray-500'}
+            ${i > index ? 'opacity-40' : ''}`}
+        >
+          {entry.thumbnail
+            ? <img src={entry.thumbnail} alt="" className="w-full h-full object-contain" />
+            : <span className="text-[10px] font-mono text-gray-500">{i + 1}</span>}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+export default HistoryPanel;
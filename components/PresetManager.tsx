@@ -0,0 +1,136 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ProcessingSettings } from '../types';
+import { DEFAULT_SETTINGS } from '../constants';
+import { translations } from '../utils/translations';
+import {
+  Preset,
+  BUILT_IN_PRESETS,
+  presetSettings,
+  serializePresets,
+  parsePresets,
+  loadStoredPresets,
+  storePresets,
+  mergePresets,
+} from '../utils/presets';
+
+interface PresetManagerProps {
+  settings: ProcessingSettings;
+  updateSettings: (s: Partial<ProcessingSettings>) => void;
+  t: typeof translations.en;
+}
+
+const SMALL_BUTTON = 'flex-1 text-[11px] font-medium text-gray-300 bg-gray-800 hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed px-2 py-1.5 rounded transition-colors';
+
+/**
+ * Built-in looks plus presets saved in localStorage, with JSON import/export
+ */
+const PresetManager: React.FC<PresetManagerProps> = ({ settings, updateSettings, t }) => {
+  const [saved, setSaved] = useState<Preset[]>(loadStoredPresets);
+  const [selected, setSelected] = useState('');
+  const [name, setName] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    storePresets(saved);
+  }, [saved]);
+
+  const selectedSaved = saved.find(p => p.name === selected);
+
+  const applyPreset = (value: string) => {
+    setSelected(value);
+    const preset = [...BUILT_IN_PRESETS, ...saved].find(p => p.name === value);
+    // Merged over the defaults so a preset looks the same whatever was set before
+    if (preset) updateSettings({ ...presetSettings(DEFAULT_SETTINGS), ...preset.settings });
+  };
+
+  const savePreset = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    setSaved(prev => mergePresets(prev, [{ name: trimmed, settings: presetSettings(settings) }]));
+    setSelected(trimmed);
+    setName('');
+  };
+
+  const deletePreset = () => {
+    setSaved(prev => prev.filter(p => p.name !== selected));
+    setSelected('');
+  };
+
+  const exportPresets = () => {
+    const url = URL.createObjectURL(new Blob([serializePresets(saved)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'wiggle-presets.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importPresets = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parsePresets(await file.text());
+      setSaved(prev => mergePresets(prev, imported));
+    } catch (err) {
+      console.error(err);
+      alert(t.presetImportError);
+    }
+  };
+
+  return (
+    <div>
+      <select
+        value={selected}
+        onChange={(e) => applyPreset(e.target.value)}
+        className="w-full bg-gray-800 border border-gray-700 text-gray-300 text-xs rounded px-2 py-2 mb-3 focus:outline-none focus:border-indigo-500"
+      >
+        <option value="" disabled>{t.presetChoose}</option>
+        <optgroup label={t.presetBuiltIn}>
+          {BUILT_IN_PRESETS.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+        </optgroup>
+        {saved.length > 0 && (
+          <optgroup label={t.presetSaved}>
+            {saved.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+          </optgroup>
+        )}
+      </select>
+
+      <div className="flex gap-2 mb-3">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') savePreset(); }}
+          placeholder={t.presetNamePlaceholder}
+          className="flex-1 min-w-0 bg-gray-800 border border-gray-700 text-gray-300 text-xs rounded px-2 py-1.5 focus:outline-none focus:border-indigo-500"
+        />
+        <button onClick={savePreset} disabled={!name.trim()} className={`${SMALL_BUTTON} flex-none`}>
+          {t.presetSave}
+        </button>
+      </div>
+
+      <div className="flex gap-2">
+        <button onClick={deletePreset} disabled={!selectedSaved} className={SMALL_BUTTON}>
+          {t.presetDelete}
+        </button>
+        <button onClick={() => fileInputRef.current?.click()} className={SMALL_BUTTON}>
+          {t.presetImport}
+        </button>
+        <button onClick={exportPresets} disabled={saved.length === 0} className={SMALL_BUTTON}>
+          {t.presetExport}
+        </button>
+        <input
+          type="file"
+          ref={fileInputRef}
+          onChange={importPresets}
+          accept="application/json,.json"
+          className="hidden"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default PresetManager;
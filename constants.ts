@@ -1,16 +1,54 @@
 import { ProcessingSettings } from "./types";
+import { ExportOptions } from "./utils/exporters/types";
 
 // Default settings for the application
 export const DEFAULT_SETTINGS: ProcessingSettings = {
   threshold: 350,          // Higher sensitivity by default (scale is now 0-500)
+  autoThreshold: true,     // Analyze each upload for a starting threshold
   jitterAmount: 3,         // Moderate jitter
   jitterSpeed: 120,        // Slightly slower for hand-drawn feel
+  jitterMode: 'pixel',
+  noiseType: 'value',      // Matches the original bilinear grid noise
+  noiseOctaves: 1,
+  noiseScale: 2.5,         // ~20px cells on an 800px preview
+  noiseAnisotropy: 0,
+  animationMode: 'boil',   // Classic hand-drawn boil
+  flowSmoothness: 0.7,
   frameCount: 5,           // Enough unique frames for a good loop
+  sourceTiming: 'source',  // Animated input plays at its own pace
   lineColor: '#000000',
   bgColor: '#ffffff',
+  backgroundStyle: 'flat',
+  backgroundStrength: 0.6,
+  underlayOpacity: 0,      // No ghost of the original
+  underlayDesaturation: 1,
+  underlayJitter: 0,
+  transparentBg: false,
+  antiHalo: true,
+  paletteMode: 'off',      // Lines keep their own colors
+  paletteColors: ['#1b1f3b', '#c8553d', '#f2d0a4'],
+  paletteSize: 6,
+  gradientDirection: 'horizontal',
+  lineWeight: 0,           // Lines as detected
+  taperLength: 0,
+  strokeTexture: 'none',
+  textureStrength: 0.5,
   scale: 1,
   useOriginalColors: true,
-  detectionMode: 'edge'    // Edge mode is more robust for colored lines
+  detectionMode: 'edge',   // Edge mode is more robust for colored lines
+  edgeBlur: 1,
+  cannyLow: 40,
+  cannyHigh: 100,
+  xdogSigma: 1,
+  xdogSharpness: 20,
+  adaptiveRadius: 15,
+  adaptiveOffset: 10,
+  seed: 1                  // Rerolled from the UI; fixed here so defaults are reproducible
 };
 
-export const GIF_WORKER_URL = 'https://cdnjs.cloudflare.com/ajax/libs/gif.js/0.2.0/gif.worker.js';
\ No newline at end of file
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  quality: 80,
+  loopCount: 0,            // Loop forever
+  dither: false,           // Flat line art stays crisp without dithering
+  resolution: 'original'   // Full detail of the uploaded image
+};
\ No newline at end of file
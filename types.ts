@@ -1,13 +1,73 @@
+export type DetectionMode = 'brightness' | 'edge' | 'sobel' | 'canny' | 'xdog' | 'adaptive';
+
+export type JitterMode = 'pixel' | 'stroke';
+
+export type AnimationMode = 'boil' | 'flow';
+
+export type NoiseType = 'value' | 'perlin' | 'simplex';
+
+export type SourceTiming = 'source' | 'uniform';
+
+export type StrokeTexture = 'none' | 'pencil' | 'ink' | 'chalk';
+
+export type PaletteMode = 'off' | 'extracted' | 'swatches' | 'duotone' | 'gradient';
+
+export type GradientDirection = 'horizontal' | 'vertical' | 'diagonal' | 'radial';
+
+export type BackgroundStyle = 'flat' | 'paper' | 'notebook' | 'grid' | 'chalkboard' | 'texture';
+
 export interface ProcessingSettings {
   threshold: number;      // 0-500, sensitivity
-  jitterAmount: number;   // 0-10, pixel displacement
-  jitterSpeed: number;    // ms per frame
-  frameCount: number;     // Number of unique jitter frames to loop
+  autoThreshold: boolean; // Suggest threshold from the image histogram on load
+  jitterAmount: number;   // 0-10, displacement in pixels at an 800px image, scaled with size
+  jitterSpeed: number;    // 10-10000 ms per frame (animated sources: only with uniform timing)
+  jitterMode: JitterMode; // Per-pixel noise field, or whole connected strokes
+  noiseType: NoiseType;   // Shape of the pixel displacement noise
+  noiseOctaves: number;   // 1-5, layers of finer detail added to the noise
+  noiseScale: number;     // 0.5-10, noise cell size as % of the longest image side
+  noiseAnisotropy: number; // -1 to 1, > 0 shakes more horizontally, < 0 more vertically
+  animationMode: AnimationMode; // Independent frames (boil) or a smooth seamless loop (flow)
+  flowSmoothness: number; // 0-1, flow only: 1 is one gentle cycle, lower adds faster wobbles
+  frameCount: number;     // 1-48, number of unique jitter frames to loop (loop length in flow mode), unless the source is animated
+  sourceTiming: SourceTiming; // Animated sources: keep each source frame's delay, or jitterSpeed for all
   lineColor: string;      // Hex color (used if useOriginalColors is false)
   bgColor: string;        // Hex color
-  scale: number;          // Output scale
+  backgroundStyle: BackgroundStyle; // Pattern painted over bgColor, or the imported texture image
+  backgroundStrength: number; // 0-1, how strongly the pattern or texture shows
+  underlayOpacity: number; // 0-1, faded original image beneath the lines; 0 = off
+  underlayDesaturation: number; // 0-1, 1 turns the underlay grey
+  underlayJitter: number; // 0-1, underlay shake as a fraction of the line jitter
+  transparentBg: boolean; // Leave non-line pixels at alpha 0 instead of painting the background
+  antiHalo: boolean;      // Strip paper-colored fringes from original colors when transparent
+  paletteMode: PaletteMode; // Remaps line colors: nearest extracted/swatch color, a tone ramp, or a gradient across the image
+  paletteColors: string[]; // Hex swatches, dark to light for duotone and start to end for gradients
+  paletteSize: number;    // 2-16, colors extracted from the source lines in 'extracted' mode
+  gradientDirection: GradientDirection; // Which way the swatches run across the image in 'gradient' mode
+  lineWeight: number;     // -3 to 6, grows (> 0) or thins (< 0) the lines by this many pixels at an 800px image
+  taperLength: number;    // 0-80, stroke ends narrow and fade over this many pixels at an 800px image; 0 = off
+  strokeTexture: StrokeTexture; // Brush texture painted into the lines
+  textureStrength: number; // 0-1, how strongly the texture shows
+  scale: number;          // 0.1-4, export scale, applied on top of the export resolution
   useOriginalColors: boolean; // Whether to use the pixel's original color
-  detectionMode: 'brightness' | 'edge'; // Algorithm for finding lines
+  detectionMode: DetectionMode; // Algorithm for finding lines
+  edgeBlur: number;       // 0-4, Gaussian sigma before Sobel/Canny
+  cannyLow: number;       // 0-500, hysteresis low gradient threshold
+  cannyHigh: number;      // 0-500, hysteresis high gradient threshold
+  xdogSigma: number;      // 0.5-5, XDoG base blur sigma
+  xdogSharpness: number;  // 1-100, XDoG edge emphasis (p)
+  adaptiveRadius: number; // 2-60, neighborhood radius for adaptive thresholding
+  adaptiveOffset: number; // 0-60, how much darker than its neighborhood a line must be
+  seed: number;           // Whole number 0 to 2^32-1, drives all jitter noise; same seed = same frames
+}
+
+/**
+ * Plain RGBA pixels, row-major with 4 bytes per pixel. The render core works on these
+ * so it runs outside the browser too; a browser ImageData is one as-is.
+ */
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
 }
 
 export enum AppStatus {
@@ -16,26 +76,3 @@ export enum AppStatus {
   EXPORTING = 'EXPORTING',
   ERROR = 'ERROR'
 }
-
-// Minimal definition for the global GIF library loaded via CDN
-export interface GIFOptions {
-  workers?: number;
-  quality?: number;
-  width?: number;
-  height?: number;
-  workerScript?: string;
-  background?: string;
-  repeat?: number; // 0 for loop
-}
-
-export interface GIFInstance {
-  addFrame: (element: HTMLCanvasElement | ImageData, options?: { delay?: number; copy?: boolean }) => void;
-  on: (event: 'finished' | 'progress', callback: (data: any) => void) => void;
-  render: () => void;
-}
-
-declare global {
-  interface Window {
-    GIF: new (options: GIFOptions) => GIFInstance;
-  }
-}
\ No newline at end of file
@@ -0,0 +1,179 @@
+import { ProcessingSettings, RgbaImage } from '../types';
+import { createRng, deriveSeed, hashToUnit } from './random';
+import { createNoiseMap } from './noise';
+import { hexToRgbTuple, RGB } from './palette';
+import type { DisplacementField } from './imageProcessing';
+
+// Longest side an imported background texture is kept at
+export const TEXTURE_SIZE = 2048;
+
+// Frame index the sheet's noise is derived with, clear of real frames, flow bases and stroke textures
+const SHEET_FRAME = (1 << 21) + 1;
+
+// The sheet ignores the jitter seed, so rerolling the wiggle keeps the same paper
+const SHEET_SEED = 1;
+
+// Notebook rules and grid, in pixels at the reference size
+const RULE_SPACING = 28;
+const GRID_SPACING = 24;
+const MARGIN_X = 72;
+const RULE_COLOR: RGB = [118, 168, 214];
+const MARGIN_COLOR: RGB = [222, 108, 108];
+
+/**
+ * Whether `settings` paint anything behind the lines besides the flat background color
+ */
+export const hasBackground = (settings: ProcessingSettings) =>
+  !settings.transparentBg && (settings.backgroundStyle !== 'flat' || settings.underlayOpacity > 0);
+
+/**
+ * Coverage (0-1) of a pixel `distance` from the middle of a `thickness`-wide line,
+ * anti-aliased over one pixel
+ */
+const lineCoverage = (distance: number, thickness: number) =>
+  Math.min(1, Math.max(0, thickness / 2 + 0.5 - distance));
+
+/**
+ * Coverage of lines repeating every `spacing` pixels, starting at `offset`
+ */
+const ruleCoverage = (v: number, spacing: number, offset: number, thickness: number) => {
+  const d = (((v - offset) % spacing) + spacing) % spacing;
+  return lineCoverage(Math.min(d, spacing - d), thickness);
+};
+
+/**
+ * Bilinear sampler that scales `texture` to cover a width × height image, centered
+ */
+const coverSampler = (texture: RgbaImage, width: number, height: number) => {
+  const { width: tw, height: th, data } = texture;
+  const s = Math.max(width / tw, height / th);
+  const ox = (tw * s - width) / 2;
+  const oy = (th * s - height) / 2;
+
+  return (x: number, y: number, out: number[]) => {
+    const u = Math.min(tw - 1, Math.max(0, (x + 0.5 + ox) / s - 0.5));
+    const v = Math.min(th - 1, Math.max(0, (y + 0.5 + oy) / s - 0.5));
+    const x0 = Math.floor(u), y0 = Math.floor(v);
+    const x1 = Math.min(tw - 1, x0 + 1), y1 = Math.min(th - 1, y0 + 1);
+    const fx = u - x0, fy = v - y0;
+    for (let c = 0; c < 3; c++) {
+      const top = data[(y0 * tw + x0) * 4 + c] * (1 - fx) + data[(y0 * tw + x1) * 4 + c] * fx;
+      const bottom = data[(y1 * tw + x0) * 4 + c] * (1 - fx) + data[(y1 * tw + x1) * 4 + c] * fx;
+      out[c] = top * (1 - fy) + bottom * fy;
+    }
+  };
+};
+
+/**
+ * Paints rows `rowStart`..`rowEnd` of the sheet behind the lines: the background color
+ * with paper grain, notebook rules, a grid or chalk smudges over it, or the imported
+ * `texture`, each shown by `backgroundStrength`. `scale` is the render size relative to
+ * the reference size, so patterns keep their look at every resolution.
+ */
+export const paintSheet = (
+  width: number,
+  height: number,
+  settings: ProcessingSettings,
+  texture: RgbaImage | null,
+  scale: number,
+  rowStart = 0,
+  rowEnd = height
+): RgbaImage => {
+  const { backgroundStyle: style, backgroundStrength: strength } = settings;
+  const bg = hexToRgbTuple(settings.bgColor);
+  const data = new Uint8ClampedArray(width * (rowEnd - rowStart) * 4);
+
+  const grain = Math.max(1, Math.round(scale));
+  const grainCols = Math.ceil(width / grain);
+  const speckSeed = deriveSeed(SHEET_SEED, SHEET_FRAME, 0);
+  const speck = (x: number, y: number) =>
+    hashToUnit(speckSeed, Math.floor(y / grain) * grainCols + Math.floor(x / grain));
+
+  // Paper fibres mottle at a fine scale; chalk smudges are broad sweeps of dust
+  const mottle = style === 'paper' || style === 'chalkboard'
+    ? createNoiseMap(width, height, createRng(deriveSeed(SHEET_SEED, SHEET_FRAME, 1)), {
+        type: 'value',
+        octaves: 3,
+        cellSize: (style === 'paper' ? 40 : 160) * scale,
+      }, rowStart, rowEnd)
+    : null;
+  const sample = style === 'texture' && texture ? coverSampler(texture, width, height) : null;
+  const texel = [0, 0, 0];
+  const thickness = Math.max(1, scale);
+
+  for (let y = rowStart; y < rowEnd; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y - rowStart) * width + x;
+      let r = bg[0], g = bg[1], b = bg[2];
+
+      if (style === 'paper') {
+        // Darker where fibres bunch up, never brighter than the paper itself
+        const shade = 1 - strength * 0.12 * (0.5 + 0.3 * mottle![i] + 0.2 * (speck(x, y) * 2 - 1));
+        r *= shade; g *= shade; b *= shade;
+      } else if (style === 'notebook' || style === 'grid') {
+        const spacing = (style === 'grid' ? GRID_SPACING : RULE_SPACING) * scale;
+        let rule = ruleCoverage(y, spacing, spacing * 0.5, thickness);
+        if (style === 'grid') rule = Math.max(rule, ruleCoverage(x, spacing, spacing * 0.5, thickness));
+        const margin = style === 'notebook' ? lineCoverage(Math.abs(x - MARGIN_X * scale), thickness) : 0;
+        const [cr, cg, cb] = margin > rule ? MARGIN_COLOR : RULE_COLOR;
+        const a = Math.max(rule, margin) * strength * 0.8;
+        r += (cr - r) * a; g += (cg - g) * a; b += (cb - b) * a;
+      } else if (style === 'chalkboard') {
+        // Leftover chalk lifts the board towards white in smudges and stray specks
+        const dust = strength * (0.1 * Math.max(0, mottle![i] + 0.3) + (speck(x, y) > 0.97 ? 0.18 : 0.03 * speck(x, y)));
+        r += (255 - r) * dust; g += (255 - g) * dust; b += (255 - b) * dust;
+      } else if (sample) {
+        sample(x, y, texel);
+        r += (texel[0] - r) * strength; g += (texel[1] - g) * strength; b += (texel[2] - b) * strength;
+      }
+
+      data[i * 4] = r;
+      data[i * 4 + 1] = g;
+      data[i * 4 + 2] = b;
+      data[i * 4 + 3] = 255;
+    }
+  }
+
+  return { width, height: rowEnd - rowStart, data };
+};
+
+/**
+ * Lays `source` over a painted band of the sheet as a ghost: desaturated by
+ * `underlayDesaturation` and faded to `underlayOpacity`. With `field` (covering the same
+ * rows) the ghost shakes by `underlayJitter` times the line jitter.
+ */
+export const paintUnderlay = (
+  sheet: RgbaImage,
+  source: RgbaImage,
+  settings: ProcessingSettings,
+  rowStart = 0,
+  field?: DisplacementField
+): RgbaImage => {
+  const { width, height } = source;
+  const { underlayOpacity: opacity, underlayDesaturation: desaturation } = settings;
+  const jitter = settings.jitterAmount * settings.underlayJitter;
+  const src = source.data;
+  const data = sheet.data.slice();
+
+  for (let y = rowStart; y < rowStart + sheet.height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y - rowStart) * width + x;
+      let sx = x, sy = y;
+      if (field) {
+        sx = Math.min(width - 1, Math.max(0, Math.round(x - field.x[i] * jitter)));
+        sy = Math.min(height - 1, Math.max(0, Math.round(y - field.y[i] * jitter)));
+      }
+
+      const s = (sy * width + sx) * 4;
+      const luma = 0.299 * src[s] + 0.587 * src[s + 1] + 0.114 * src[s + 2];
+      // Transparent source pixels leave the sheet showing
+      const a = opacity * src[s + 3] / 255;
+      for (let c = 0; c < 3; c++) {
+        const ghost = src[s + c] + (luma - src[s + c]) * desaturation;
+        data[i * 4 + c] += (ghost - data[i * 4 + c]) * a;
+      }
+    }
+  }
+
+  return { width, height: sheet.height, data };
+};
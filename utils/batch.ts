@@ -0,0 +1,149 @@
+import { useCallback, useRef, useState } from 'react';
+import { ProcessingSettings } from '../types';
+import { SourceImage, suggestThresholdForImage } from './canvas';
+import { Exporter, ExportOptions } from './exporters';
+import { ExportJob, renderExport } from './exportRender';
+import { createRenderClient, supportsWorkerRendering } from './renderClient';
+import { isSourceFile, loadSourceMedia, releaseSourceMedia, SourceMedia } from './sourceMedia';
+import { createZip } from './zip';
+
+export type BatchStatus = 'queued' | 'rendering' | 'done' | 'error';
+
+export interface BatchItem {
+  id: number;
+  file: File;
+  status: BatchStatus;
+  progress: number; // 0-1 while rendering
+  error?: string;
+  overrides: Partial<ProcessingSettings>; // Applied over the shared settings for this item only
+  result?: Blob;
+  extension?: string; // Of the format `result` was exported in
+}
+
+let nextItemId = 1;
+
+/**
+ * The settings an item renders with. Auto threshold still analyzes each image unless
+ * the item overrides its thresholds (judging animations by their first frame).
+ */
+const itemSettings = (item: BatchItem, img: SourceImage, shared: ProcessingSettings): ProcessingSettings => {
+  const settings = { ...shared, ...item.overrides };
+  const pinned = ['threshold', 'cannyLow', 'cannyHigh'].some(k => k in item.overrides);
+  return settings.autoThreshold && !pinned ? { ...settings, ...suggestThresholdForImage(img, settings) } : settings;
+};
+
+const baseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '') || 'image';
+
+/**
+ * Zips every finished item, named after its source file (numbered on clashes)
+ */
+export const zipBatchResults = async (items: BatchItem[]): Promise<Blob> => {
+  const used = new Set<string>();
+  const entries = [];
+
+  for (const item of items) {
+    if (item.status !== 'done' || !item.result) continue;
+    const base = baseName(item.file.name);
+    let name = `${base}.${item.extension}`;
+    for (let n = 2; used.has(name); n++) name = `${base}-${n}.${item.extension}`;
+    used.add(name);
+    entries.push({ name, data: new Uint8Array(await item.result.arrayBuffer()) });
+  }
+
+  return new Blob([createZip(entries)], { type: 'application/zip' });
+};
+
+/**
+ * A queue of images rendered one after another with shared settings (plus per-item
+ * overrides). Runs on its own render worker, so the live preview keeps working.
+ */
+export const useBatchQueue = () => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [running, setRunning] = useState(false);
+  const cancelRef = useRef<(() => void) | null>(null);
+
+  const updateItem = useCallback((id: number, patch: Partial<BatchItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...patch } : item)));
+  }, []);
+
+  const add = useCallback((files: File[]) => {
+    const images = files.filter(isSourceFile);
+    setItems(prev => [
+      ...prev,
+      ...images.map(file => ({ id: nextItemId++, file, status: 'queued' as BatchStatus, progress: 0, overrides: {} })),
+    ]);
+  }, []);
+
+  const remove = useCallback((id: number) => {
+    setItems(prev => prev.filter(item => item.id !== id));
+  }, []);
+
+  const clear = useCallback(() => setItems([]), []);
+
+  const setOverrides = useCallback((id: number, overrides: Partial<ProcessingSettings>) => {
+    // New overrides make any earlier result stale
+    updateItem(id, { overrides, status: 'queued', result: undefined, error: undefined, progress: 0 });
+  }, [updateItem]);
+
+  /**
+   * Renders every item in order with the current settings (and the imported texture,
+   * for the 'texture' background style), replacing earlier results
+   */
+  const run = useCallback(async (
+    queue: BatchItem[],
+    shared: ProcessingSettings,
+    exportOptions: ExportOptions,
+    exporter: Exporter,
+    texture: ExportJob['texture'] = null
+  ) => {
+    const client = supportsWorkerRendering() ? createRenderClient() : null;
+    let cancelled = false;
+    cancelRef.current = () => {
+      cancelled = true;
+      client?.cancel();
+    };
+    setRunning(true);
+    setItems(prev => prev.map(item => ({ ...item, status: 'queued', progress: 0, result: undefined, error: undefined })));
+
+    try {
+      for (const item of queue) {
+        if (cancelled) break;
+        updateItem(item.id, { status: 'rendering', progress: 0, error: undefined });
+
+        let media: SourceMedia | null = null;
+        try {
+          media = await loadSourceMedia(item.file);
+          const blob = await renderExport({
+            source: media,
+            sourceKey: `batch-${item.id}`,
+            settings: itemSettings(item, media.frames[0], shared),
+            exportOptions,
+            exporter,
+            texture,
+            client,
+            onProgress: (progress) => updateItem(item.id, { progress }),
+          });
+          updateItem(item.id, blob
+            ? { status: 'done', result: blob, extension: exporter.extension, progress: 1 }
+            : { status: 'queued', progress: 0 });
+        } catch (err) {
+          console.error(err);
+          const message = err instanceof Error ? err.message : 'Could not load image';
+          updateItem(item.id, { status: 'error', error: message });
+        } finally {
+          if (media) releaseSourceMedia(media);
+        }
+      }
+    } finally {
+      client?.dispose();
+      cancelRef.current = null;
+      setRunning(false);
+    }
+  }, [updateItem]);
+
+  const cancel = useCallback(() => cancelRef.current?.(), []);
+
+  return { items, running, add, remove, clear, setOverrides, run, cancel };
+};
+
+export type BatchQueue = ReturnType<typeof useBatchQueue>;
@@ -0,0 +1,144 @@
+import { ProcessingSettings, RgbaImage } from '../types';
+import { createRenderPipeline, extractPaletteForPixels, fitSize, PREVIEW_SIZE, RenderPipeline, suggestThresholdForPixels } from './imageProcessing';
+import { RGB } from './palette';
+import { TEXTURE_SIZE } from './background';
+
+// A decoded source frame the canvas can draw
+export type SourceImage = HTMLImageElement | ImageBitmap;
+
+/**
+ * Loads an image from a source string (URL or Base64)
+ */
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = (e) => reject(e);
+    img.src = src;
+  });
+};
+
+/**
+ * Resizes the canvas to the preview size of the image
+ */
+export const setupCanvas = (
+  canvas: HTMLCanvasElement,
+  img: SourceImage
+): { width: number, height: number } => {
+  const { width, height } = fitSize(img.width, img.height, PREVIEW_SIZE);
+
+  // Resizing clears the canvas, so skip it when nothing changed (e.g. recoloring)
+  if (canvas.width !== width) canvas.width = width;
+  if (canvas.height !== height) canvas.height = height;
+
+  return { width, height };
+};
+
+/**
+ * Draws the image at the target size and reads back its pixels
+ */
+export const getSourcePixels = (
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  img: CanvasImageSource,
+  width: number,
+  height: number
+): ImageData => {
+  ctx.clearRect(0, 0, width, height);
+  ctx.drawImage(img, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height);
+};
+
+/**
+ * Wraps pipeline pixels for putImageData (sharing the buffer, not copying it)
+ */
+export const toImageData = (image: RgbaImage): ImageData =>
+  image instanceof ImageData ? image : new ImageData(image.data, image.width, image.height);
+
+/**
+ * Encodes pixels as a PNG file
+ */
+export const toPngBlob = (image: RgbaImage): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.reject(new Error('2D context unavailable'));
+  ctx.putImageData(toImageData(image), 0, 0);
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png')
+  );
+};
+
+/**
+ * Auto threshold: analyzes the image at preview size and suggests thresholds for `settings`
+ */
+export const suggestThresholdForImage = (img: SourceImage, settings: ProcessingSettings): Partial<ProcessingSettings> => {
+  const canvas = document.createElement('canvas');
+  const { width, height } = fitSize(img.width, img.height, PREVIEW_SIZE);
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return {};
+  return suggestThresholdForPixels(getSourcePixels(ctx, img, width, height), settings);
+};
+
+/**
+ * Palette extraction: the `count` main line colors of the image at preview size
+ */
+export const extractPaletteForImage = (img: SourceImage, settings: ProcessingSettings, count: number): RGB[] => {
+  const canvas = document.createElement('canvas');
+  const { width, height } = fitSize(img.width, img.height, PREVIEW_SIZE);
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return [];
+  return extractPaletteForPixels(getSourcePixels(ctx, img, width, height), settings, count);
+};
+
+/**
+ * Reads an imported background texture, capped to TEXTURE_SIZE
+ */
+export const getTexturePixels = (img: SourceImage): ImageData => {
+  const canvas = document.createElement('canvas');
+  const { width, height } = fitSize(img.width, img.height, TEXTURE_SIZE);
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('2D context unavailable');
+  return getSourcePixels(ctx, img, width, height);
+};
+
+/**
+ * The background texture `img` for the render worker, its bitmap capped to TEXTURE_SIZE
+ */
+export const textureSource = (key: string, img: SourceImage) => ({
+  key,
+  getBitmap: () => {
+    const { width, height } = fitSize(img.width, img.height, TEXTURE_SIZE);
+    return createImageBitmap(img, { resizeWidth: width, resizeHeight: height, resizeQuality: 'high' });
+  },
+});
+
+/**
+ * Generates N frames of jittered line art synchronously, one per source frame for an
+ * animated source. Used as a fallback where Web Workers / OffscreenCanvas are unavailable.
+ */
+export const generateJitterFrames = (
+  ctx: CanvasRenderingContext2D,
+  sourceKey: string,
+  images: SourceImage[],
+  width: number,
+  height: number,
+  settings: ProcessingSettings,
+  pipeline: RenderPipeline = createRenderPipeline()
+): ImageData[] => {
+  pipeline.setSourceFrames(`${sourceKey}|${width}x${height}`, images.length, i => getSourcePixels(ctx, images[i], width, height));
+
+  const frames: ImageData[] = [];
+  for (let f = 0; f < settings.frameCount; f++) {
+    frames.push(toImageData(pipeline.frame(settings, f)));
+  }
+
+  return frames;
+};
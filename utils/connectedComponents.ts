@@ -0,0 +1,45 @@
+/**
+ * Result of labeling a line mask: `labels[i]` is the component id (1-based) of pixel i, 0 for background
+ */
+export interface ComponentLabels {
+  labels: Int32Array;
+  count: number;
+}
+
+/**
+ * Labels 8-connected components (strokes) of a binary mask with an iterative flood fill
+ */
+export const labelConnectedComponents = (lineMask: Uint8Array, width: number, height: number): ComponentLabels => {
+  const labels = new Int32Array(width * height);
+  const stack: number[] = [];
+  let count = 0;
+
+  for (let i = 0; i < lineMask.length; i++) {
+    if (lineMask[i] !== 1 || labels[i] !== 0) continue;
+
+    count++;
+    labels[i] = count;
+    stack.push(i);
+
+    while (stack.length > 0) {
+      const p = stack.pop()!;
+      const x = p % width;
+      const y = (p - x) / width;
+      for (let dy = -1; dy <= 1; dy++) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= height) continue;
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          if (nx < 0 || nx >= width) continue;
+          const n = ny * width + nx;
+          if (lineMask[n] === 1 && labels[n] === 0) {
+            labels[n] = count;
+            stack.push(n);
+          }
+        }
+      }
+    }
+  }
+
+  return { labels, count };
+};
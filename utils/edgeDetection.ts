@@ -0,0 +1,223 @@
+import { ProcessingSettings, RgbaImage } from '../types';
+
+/**
+ * Converts RGBA pixels to a luma plane (0-255)
+ */
+export const toLuma = (sourceData: RgbaImage): Float32Array => {
+  const src = sourceData.data;
+  const luma = new Float32Array(sourceData.width * sourceData.height);
+  for (let i = 0; i < luma.length; i++) {
+    const idx = i * 4;
+    luma[i] = 0.299 * src[idx] + 0.587 * src[idx + 1] + 0.114 * src[idx + 2];
+  }
+  return luma;
+};
+
+/**
+ * Normalized Gaussian weights for offsets -radius..radius, with radius = ceil(3σ)
+ */
+export const gaussianKernel = (sigma: number): Float32Array => {
+  const radius = Math.max(1, Math.ceil(sigma * 3));
+  const kernel = new Float32Array(radius * 2 + 1);
+  let sum = 0;
+  for (let i = -radius; i <= radius; i++) {
+    const w = Math.exp(-(i * i) / (2 * sigma * sigma));
+    kernel[i + radius] = w;
+    sum += w;
+  }
+  for (let i = 0; i < kernel.length; i++) kernel[i] /= sum;
+  return kernel;
+};
+
+/**
+ * Separable Gaussian blur with clamped borders. sigma <= 0 returns a copy.
+ */
+export const gaussianBlur = (values: Float32Array, width: number, height: number, sigma: number): Float32Array => {
+  if (sigma <= 0) return values.slice();
+
+  const kernel = gaussianKernel(sigma);
+  const radius = (kernel.length - 1) / 2;
+
+  const tmp = new Float32Array(values.length);
+  const out = new Float32Array(values.length);
+
+  // Horizontal pass
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    for (let x = 0; x < width; x++) {
+      let acc = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const sx = Math.min(width - 1, Math.max(0, x + k));
+        acc += values[row + sx] * kernel[k + radius];
+      }
+      tmp[row + x] = acc;
+    }
+  }
+
+  // Vertical pass
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let acc = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const sy = Math.min(height - 1, Math.max(0, y + k));
+        acc += tmp[sy * width + x] * kernel[k + radius];
+      }
+      out[y * width + x] = acc;
+    }
+  }
+
+  return out;
+};
+
+interface Gradient {
+  magnitude: Float32Array;
+  gx: Float32Array;
+  gy: Float32Array;
+}
+
+/**
+ * 3x3 Sobel operator. Borders are clamped so the last row/column still get edges.
+ */
+export const sobel = (values: Float32Array, width: number, height: number): Gradient => {
+  const magnitude = new Float32Array(values.length);
+  const gx = new Float32Array(values.length);
+  const gy = new Float32Array(values.length);
+
+  const at = (x: number, y: number) =>
+    values[Math.min(height - 1, Math.max(0, y)) * width + Math.min(width - 1, Math.max(0, x))];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const tl = at(x - 1, y - 1), tc = at(x, y - 1), tr = at(x + 1, y - 1);
+      const ml = at(x - 1, y),                         mr = at(x + 1, y);
+      const bl = at(x - 1, y + 1), bc = at(x, y + 1), br = at(x + 1, y + 1);
+
+      const sx = (tr + 2 * mr + br) - (tl + 2 * ml + bl);
+      const sy = (bl + 2 * bc + br) - (tl + 2 * tc + tr);
+
+      const i = y * width + x;
+      gx[i] = sx;
+      gy[i] = sy;
+      magnitude[i] = Math.sqrt(sx * sx + sy * sy);
+    }
+  }
+
+  return { magnitude, gx, gy };
+};
+
+/**
+ * Sobel gradient magnitude, thresholded with the same `500 - threshold` cutoff as 'edge' mode
+ */
+export const sobelMask = (sourceData: RgbaImage, settings: ProcessingSettings): Uint8Array => {
+  const { width, height } = sourceData;
+  const luma = gaussianBlur(toLuma(sourceData), width, height, settings.edgeBlur);
+  const { magnitude } = sobel(luma, width, height);
+
+  const cutoff = Math.max(0, 500 - settings.threshold);
+  const mask = new Uint8Array(width * height);
+  for (let i = 0; i < mask.length; i++) {
+    if (magnitude[i] > cutoff) mask[i] = 1;
+  }
+  return mask;
+};
+
+/**
+ * Canny: Gaussian smoothing, Sobel gradients, non-maximum suppression and
+ * hysteresis between `cannyLow` and `cannyHigh`. Produces thin, connected edges.
+ */
+export const cannyMask = (sourceData: RgbaImage, settings: ProcessingSettings): Uint8Array => {
+  const { width, height } = sourceData;
+  const luma = gaussianBlur(toLuma(sourceData), width, height, settings.edgeBlur);
+  const { magnitude, gx, gy } = sobel(luma, width, height);
+
+  const low = Math.min(settings.cannyLow, settings.cannyHigh);
+  const high = Math.max(settings.cannyLow, settings.cannyHigh);
+
+  const mag = (x: number, y: number) =>
+    x < 0 || x >= width || y < 0 || y >= height ? 0 : magnitude[y * width + x];
+
+  // Non-maximum suppression: keep pixels that peak along their gradient direction.
+  // 0 = suppressed, 1 = weak, 2 = strong
+  const state = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const m = magnitude[i];
+      if (m < low) continue;
+
+      // Quantize direction to 0°, 45°, 90° or 135°
+      let angle = Math.atan2(gy[i], gx[i]) * 180 / Math.PI;
+      if (angle < 0) angle += 180;
+
+      let n1: number, n2: number;
+      if (angle < 22.5 || angle >= 157.5) {
+        n1 = mag(x - 1, y); n2 = mag(x + 1, y);
+      } else if (angle < 67.5) {
+        n1 = mag(x + 1, y - 1); n2 = mag(x - 1, y + 1);
+      } else if (angle < 112.5) {
+        n1 = mag(x, y - 1); n2 = mag(x, y + 1);
+      } else {
+        n1 = mag(x - 1, y - 1); n2 = mag(x + 1, y + 1);
+      }
+
+      if (m >= n1 && m >= n2) {
+        state[i] = m >= high ? 2 : 1;
+      }
+    }
+  }
+
+  // Hysteresis: weak pixels survive only when connected to a strong one
+  const mask = new Uint8Array(width * height);
+  const stack: number[] = [];
+  for (let i = 0; i < state.length; i++) {
+    if (state[i] === 2) {
+      mask[i] = 1;
+      stack.push(i);
+    }
+  }
+
+  while (stack.length > 0) {
+    const i = stack.pop()!;
+    const x = i % width;
+    const y = (i - x) / width;
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+        const n = ny * width + nx;
+        if (state[n] === 1 && mask[n] === 0) {
+          mask[n] = 1;
+          stack.push(n);
+        }
+      }
+    }
+  }
+
+  return mask;
+};
+
+// k in XDoG: how much wider the second Gaussian is than the first
+export const XDOG_SIGMA_RATIO = 1.6;
+
+/**
+ * Extended Difference-of-Gaussians for an inked look.
+ * D = (1 + p)·G(σ) − p·G(kσ); ink where D falls below ε, with ε driven by `threshold`.
+ */
+export const xdogMask = (sourceData: RgbaImage, settings: ProcessingSettings): Uint8Array => {
+  const { width, height } = sourceData;
+  const k = XDOG_SIGMA_RATIO;
+  const p = settings.xdogSharpness;
+  const luma = toLuma(sourceData);
+  const g1 = gaussianBlur(luma, width, height, settings.xdogSigma);
+  const g2 = gaussianBlur(luma, width, height, settings.xdogSigma * k);
+
+  // Higher sensitivity raises ε, so more of the image turns to ink
+  const epsilon = (settings.threshold / 500) * 255;
+  const mask = new Uint8Array(width * height);
+  for (let i = 0; i < mask.length; i++) {
+    const d = (1 + p) * g1[i] - p * g2[i];
+    if (d < epsilon) mask[i] = 1;
+  }
+  return mask;
+};
@@ -0,0 +1,84 @@
+import { ProcessingSettings, RgbaImage } from '../types';
+import { createRenderPipeline } from './imageProcessing';
+import { getSourcePixels, getTexturePixels, SourceImage, textureSource } from './canvas';
+import { exportSize, Exporter, ExportOptions } from './exporters';
+import { RenderClient, RenderProgress } from './renderClient';
+import { SourceMedia, sourceBitmaps } from './sourceMedia';
+import { frameDelays, sourceSettings } from './sourceTiming';
+
+export interface ExportJob {
+  source: SourceMedia;
+  sourceKey: string;       // Identifies the source, for the pipeline's source cache
+  settings: ProcessingSettings;
+  exportOptions: ExportOptions;
+  exporter: Exporter;
+  texture?: { key: string; image: SourceImage } | null; // For the 'texture' background style
+  client?: RenderClient | null; // Renders off the main thread when available
+  onProgress?: (ratio: number) => void;
+}
+
+const nextTick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+/**
+ * Renders frames from the original image (or every frame of an animated source) at the
+ * export size and encodes them. Resolves to null if a newer job on the same render
+ * client superseded this one.
+ *
+ * The export-size source is only read on the main thread when it renders there or the
+ * exporter needs it, into a pipeline of its own so the preview's caches survive.
+ */
+export const renderExport = async (job: ExportJob): Promise<Blob | null> => {
+  const { source, sourceKey, exportOptions, exporter, texture, client, onProgress } = job;
+  const settings = sourceSettings(job.settings, source.delays);
+  const { width, height } = exportSize(source.width, source.height, exportOptions.resolution, settings.scale);
+
+  const pipeline = createRenderPipeline();
+  const exportKey = `${sourceKey}|${width}x${height}`;
+  const loadSource = () => {
+    if (pipeline.hasSource(exportKey)) return;
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('2D context unavailable');
+    pipeline.setSourceFrames(
+      exportKey,
+      source.frames.length,
+      i => getSourcePixels(ctx, source.frames[i], width, height)
+    );
+    pipeline.setBackgroundTexture(texture?.key ?? null, texture ? () => getTexturePixels(texture.image) : undefined);
+  };
+
+  // First half of the progress is rendering, second half encoding
+  const onRenderProgress = (p: RenderProgress) => onProgress?.(p.done / p.total / 2);
+  let frames: RgbaImage[] | null | undefined;
+
+  if (client?.isAvailable()) {
+    frames = await client.renderExport(
+      () => sourceBitmaps(source, width, height), width, height, settings, onRenderProgress,
+      texture ? textureSource(texture.key, texture.image) : null
+    ).catch((err) => {
+      // A worker that died leaves the export to the main thread
+      if (client.isAvailable()) throw err;
+      console.error(err);
+      return undefined;
+    });
+  }
+  if (frames === undefined) {
+    loadSource();
+    frames = [];
+    for (let f = 0; f < settings.frameCount; f++) {
+      frames.push(pipeline.tiledFrame(settings, f));
+      onRenderProgress({ done: f + 1, total: settings.frameCount });
+      await nextTick();
+    }
+  }
+  if (!frames) return null;
+  if (exporter.needsSource?.(settings)) loadSource();
+
+  return exporter.encode(
+    { frames, delays: frameDelays(settings, source.delays), settings, pipeline },
+    exportOptions,
+    (ratio) => onProgress?.(0.5 + ratio / 2)
+  );
+};
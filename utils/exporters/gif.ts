@@ -0,0 +1,51 @@
+import { Exporter } from './types';
+import { encodeGif } from '../gifEncoder';
+import { buildPalette, hexToRgbTuple, indexFrame } from '../palette';
+
+// Yields between frames so the export overlay keeps updating
+const nextTick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+/**
+ * Bundled GIF encoder: one global palette with exact line/background (and line palette) entries,
+ * dithering only on request, so the same frames always give the same file
+ */
+export const gifExporter: Exporter = {
+  format: 'gif',
+  label: 'GIF',
+  extension: 'gif',
+  mimeType: 'image/gif',
+  supportsQuality: true,
+  supportsLoopCount: true,
+  supportsDither: true,
+  isSupported: () => true,
+  // An extracted line palette is read from the source
+  needsSource: (settings) => settings.paletteMode === 'extracted',
+
+  encode: async ({ frames, delays, settings, pipeline }, { quality, loopCount, dither }, onProgress) => {
+    const { width, height } = frames[0];
+    // Quality trades palette size for file size
+    const maxColors = Math.round(2 + (quality / 100) * 254);
+    const fixedColors = settings.transparentBg ? [] : [hexToRgbTuple(settings.bgColor)];
+    // Mapped lines land on the palette's colors (or ramps between them) instead of the line color
+    if (settings.paletteMode !== 'off') fixedColors.push(...pipeline.linePalette(settings));
+    else if (!settings.useOriginalColors) fixedColors.push(hexToRgbTuple(settings.lineColor));
+
+    // A transparent background takes the last palette slot; its RGB is the background
+    // color for viewers that ignore transparency
+    const palette = buildPalette(frames, fixedColors, settings.transparentBg ? maxColors - 1 : maxColors);
+    const transparentIndex = settings.transparentBg ? palette.length : undefined;
+    if (settings.transparentBg) palette.push(hexToRgbTuple(settings.bgColor));
+
+    const indexed = [];
+
+    for (let f = 0; f < frames.length; f++) {
+      await nextTick();
+      indexed.push({ indices: indexFrame(frames[f], palette, dither, transparentIndex), delay: delays[f] });
+      onProgress?.((f + 1) / (frames.length + 1));
+    }
+
+    const bytes = encodeGif(indexed, { width, height, palette, loopCount, transparentIndex });
+    onProgress?.(1);
+    return new Blob([bytes], { type: 'image/gif' });
+  }
+};
@@ -0,0 +1,33 @@
+import { ExportFormat, Exporter, ExportResolution } from './types';
+import { fitSize, PREVIEW_SIZE } from '../imageProcessing';
+import { gifExporter } from './gif';
+import { apngExporter } from './apng';
+import { webpExporter } from './webp';
+import { webmExporter } from './webm';
+import { svgExporter } from './svg';
+
+export type { ExportFormat, ExportOptions, ExportInput, Exporter, ExportResolution } from './types';
+
+export const exporters: Record<ExportFormat, Exporter> = {
+  gif: gifExporter,
+  apng: apngExporter,
+  webp: webpExporter,
+  webm: webmExporter,
+  svg: svgExporter,
+};
+
+export const EXPORT_FORMATS = Object.keys(exporters) as ExportFormat[];
+
+export const EXPORT_RESOLUTIONS: ExportResolution[] = ['preview', 1600, 2400, 4000, 'original'];
+
+/**
+ * Frame size for exporting a sourceWidth × sourceHeight image at `resolution`,
+ * times the settings' output `scale`
+ */
+export const exportSize = (sourceWidth: number, sourceHeight: number, resolution: ExportResolution, scale: number) =>
+  fitSize(
+    sourceWidth,
+    sourceHeight,
+    resolution === 'preview' ? PREVIEW_SIZE : resolution === 'original' ? Infinity : resolution,
+    scale
+  );
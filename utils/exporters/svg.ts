@@ -0,0 +1,91 @@
+import { ProcessingSettings } from '../../types';
+import { Exporter } from './types';
+import { encodePng } from './apng';
+import { toBase64 } from './binary';
+import { traceLineMask, buildAnimatedSvg, displacementMap, fieldDisplacer, recolorPaths, VectorPath } from '../vectorize';
+import { createPaletteMapper } from '../palette';
+import { hasBackground } from '../background';
+import { strokeTransform, StrokeAnalysis, StrokeTransform } from '../strokeJitter';
+
+/**
+ * The settings in use that SVG leaves out: it draws solid lines on a flat color
+ */
+const unsupportedSettings = (settings: ProcessingSettings): (keyof ProcessingSettings)[] => {
+  const unsupported: (keyof ProcessingSettings)[] = [];
+  if (hasBackground(settings)) {
+    if (settings.backgroundStyle !== 'flat') unsupported.push('backgroundStyle');
+    if (settings.underlayOpacity > 0) unsupported.push('underlayOpacity');
+  }
+  if (settings.taperLength > 0) unsupported.push('taperLength');
+  if (settings.strokeTexture !== 'none' && settings.textureStrength > 0) unsupported.push('strokeTexture');
+  return unsupported;
+};
+
+/**
+ * Vector output traced from the line mask rather than the raster frames
+ */
+export const svgExporter: Exporter = {
+  format: 'svg',
+  label: 'SVG',
+  extension: 'svg',
+  mimeType: 'image/svg+xml',
+  supportsQuality: false,
+  supportsLoopCount: false,
+  isSupported: () => typeof CompressionStream !== 'undefined',
+  needsSource: () => true,
+  unsupportedSettings,
+
+  encode: async ({ frames, delays, settings: frameSettings, pipeline }) => {
+    const { width, height } = frames[0];
+    // Tapered and textured lines only fade in and out by coverage, which a fill can't
+    // show, and their ragged edges would be traced one pixel at a time
+    const settings: ProcessingSettings = { ...frameSettings, taperLength: 0, strokeTexture: 'none' };
+    const px = pipeline.pixelSettings(settings);
+
+    // An animated source has a mask per frame; a still one reuses the same mask (and
+    // tracing) for every frame
+    const traced: { mask: Uint8Array; analysis: StrokeAnalysis; paths: VectorPath[] }[] = [];
+    const recolor = createPaletteMapper(settings, pipeline.linePalette(settings), width, height);
+    for (let f = 0; f < frames.length; f++) {
+      const mask = pipeline.lineMask(settings, f);
+      const previous = traced[f - 1];
+      if (previous?.mask === mask) {
+        traced.push(previous);
+        continue;
+      }
+      const analysis = pipeline.strokes(settings, f);
+      const outlines = traceLineMask(mask, pipeline.sourcePixels(f), settings, {
+        labels: analysis.labels,
+        count: analysis.strokes.length,
+      });
+      const paths = recolor ? recolorPaths(outlines, analysis.strokes, width, recolor) : outlines;
+      traced.push({ mask, analysis, paths });
+    }
+
+    const framePaths = (f: number) => traced[f].paths;
+    let svg: string;
+    if (settings.jitterMode === 'stroke') {
+      // Same per-stroke transforms as the raster frames, applied forwards to the vertices.
+      // Their bends differ stroke by stroke, so no smooth map can stand in for them.
+      const transforms = frames.map((_, f) => new Map<number, StrokeTransform>(
+        traced[f].analysis.strokes.map(stroke => [stroke.id, strokeTransform(stroke, px, f)])
+      ));
+      const displace = (f: number, x: number, y: number, strokeId: number) => transforms[f].get(strokeId)!.forward(x, y);
+      svg = buildAnimatedSvg(framePaths, delays, { kind: 'vertices', displace }, width, height, settings);
+    } else {
+      const fields = frames.map((_, f) => pipeline.displacementField(settings, f));
+      const maps = await Promise.all(fields.map(async (field) => {
+        const map = displacementMap(field, width, height, px);
+        return map && { ...map, href: `data:image/png;base64,${toBase64(await encodePng(map.image))}` };
+      }));
+      // Shifting the shared outlines through each frame's map is usually much smaller, but
+      // fine noise needs large maps; then moving every frame's vertices takes fewer bytes
+      const shifted = buildAnimatedSvg(framePaths, delays, { kind: 'field', maps }, width, height, settings);
+      const displace = fieldDisplacer(fields, width, height, px.jitterAmount);
+      const moved = buildAnimatedSvg(framePaths, delays, { kind: 'vertices', displace }, width, height, settings);
+      svg = shifted.length <= moved.length ? shifted : moved;
+    }
+
+    return new Blob([svg], { type: 'image/svg+xml' });
+  }
+};
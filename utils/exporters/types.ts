@@ -0,0 +1,43 @@
+import { ProcessingSettings, RgbaImage } from '../../types';
+import { RenderPipeline } from '../imageProcessing';
+
+export type ExportFormat = 'gif' | 'apng' | 'webp' | 'webm' | 'svg';
+
+// Longest side of the exported frames in pixels, or the preview/original image size
+export type ExportResolution = 'preview' | 'original' | number;
+
+export interface ExportOptions {
+  quality: number;   // 1-100, ignored by lossless formats
+  loopCount: number; // 0 = loop forever; for video, how many times the loop is recorded
+  dither: boolean;   // Error diffusion when reducing to a palette
+  resolution: ExportResolution;
+}
+
+export interface ExportInput {
+  frames: RgbaImage[];
+  delays: number[]; // ms each frame shows
+  settings: ProcessingSettings;
+  // Holds the export-size source when `needsSource` asks for it, for exporters that work
+  // from the line mask or palette instead of frames
+  pipeline: RenderPipeline;
+}
+
+/**
+ * Encodes generated frames into a downloadable file
+ */
+export interface Exporter {
+  format: ExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+  supportsQuality: boolean;
+  supportsLoopCount: boolean;
+  supportsDither?: boolean;
+  isSupported: () => boolean;
+  // Whether encode reads the source through `pipeline`; without it, frames rendered off
+  // the main thread are encoded without loading the source there
+  needsSource?: (settings: ProcessingSettings) => boolean;
+  // Settings in use that the format leaves out, for the export panel to point out
+  unsupportedSettings?: (settings: ProcessingSettings) => (keyof ProcessingSettings)[];
+  encode: (input: ExportInput, options: ExportOptions, onProgress?: (ratio: number) => void) => Promise<Blob>;
+}
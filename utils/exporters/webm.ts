@@ -0,0 +1,80 @@
+import { RgbaImage } from '../../types';
+import { Exporter } from './types';
+import { toImageData } from '../canvas';
+
+const pickMimeType = (): string | undefined =>
+  ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'].find(type =>
+    typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(type)
+  );
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * WebM video recorded in real time from a canvas stream. Video has no loop flag,
+ * so `loopCount` is how many times the loop is recorded into the clip. There is no
+ * alpha either, so transparent frames are composited over the background color.
+ */
+export const webmExporter: Exporter = {
+  format: 'webm',
+  label: 'WebM',
+  extension: 'webm',
+  mimeType: 'video/webm',
+  supportsQuality: true,
+  supportsLoopCount: true,
+  isSupported: () =>
+    typeof HTMLCanvasElement !== 'undefined' && 'captureStream' in HTMLCanvasElement.prototype && !!pickMimeType(),
+
+  encode: async ({ frames, delays, settings }, { quality, loopCount }, onProgress) => {
+    const { width, height } = frames[0];
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('2D context unavailable');
+
+    const scratch = document.createElement('canvas');
+    scratch.width = width;
+    scratch.height = height;
+    const scratchCtx = scratch.getContext('2d');
+    if (!scratchCtx) throw new Error('2D context unavailable');
+
+    const draw = (frame: RgbaImage) => {
+      scratchCtx.putImageData(toImageData(frame), 0, 0);
+      ctx.fillStyle = settings.bgColor;
+      ctx.fillRect(0, 0, width, height);
+      ctx.drawImage(scratch, 0, 0);
+    };
+
+    // Manual frame capture: one video frame per requestFrame()
+    const stream = canvas.captureStream(0);
+    const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+    const recorder = new MediaRecorder(stream, {
+      mimeType: pickMimeType(),
+      // Scale bitrate with pixel count; quality 100 ≈ 8 bits per pixel per second
+      videoBitsPerSecond: Math.round(width * height * 8 * (quality / 100)) + 100000
+    });
+
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+    const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+    const loops = Math.max(1, loopCount);
+    const total = frames.length * loops;
+
+    draw(frames[0]);
+    recorder.start();
+
+    for (let i = 0; i < total; i++) {
+      draw(frames[i % frames.length]);
+      track.requestFrame();
+      await wait(delays[i % frames.length]);
+      onProgress?.((i + 1) / total);
+    }
+
+    recorder.stop();
+    await stopped;
+    stream.getTracks().forEach(t => t.stop());
+
+    return new Blob(chunks, { type: 'video/webm' });
+  }
+};
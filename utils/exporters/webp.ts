@@ -0,0 +1,122 @@
+import { Exporter } from './types';
+import { ascii, concatBytes } from './binary';
+import { toImageData } from '../canvas';
+
+// Chunks of a still WebP that carry image data into an ANMF frame
+const FRAME_CHUNKS = new Set(['ALPH', 'VP8 ', 'VP8L']);
+
+const riffChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const padded = data.length + (data.length & 1);
+  const out = new Uint8Array(8 + padded);
+  out.set(ascii(type), 0);
+  new DataView(out.buffer).setUint32(4, data.length, true);
+  out.set(data, 8);
+  return out;
+};
+
+const writeUint24 = (target: Uint8Array, offset: number, value: number) => {
+  target[offset] = value & 0xFF;
+  target[offset + 1] = (value >> 8) & 0xFF;
+  target[offset + 2] = (value >> 16) & 0xFF;
+};
+
+/**
+ * Pulls the image-data chunks out of a still WebP produced by the canvas encoder
+ */
+const extractFrameChunks = (bytes: Uint8Array): { chunks: Uint8Array[]; hasAlpha: boolean } => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Uint8Array[] = [];
+  let hasAlpha = false;
+  let offset = 12; // "RIFF" size "WEBP"
+
+  while (offset + 8 <= bytes.length) {
+    const type = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+    const size = view.getUint32(offset + 4, true);
+    const end = offset + 8 + size + (size & 1);
+    if (FRAME_CHUNKS.has(type)) {
+      chunks.push(bytes.subarray(offset, end));
+      // ALPH, or the alpha_is_used bit in the VP8L header
+      if (type === 'ALPH' || (type === 'VP8L' && (bytes[offset + 12] & 0x10) !== 0)) hasAlpha = true;
+    }
+    offset = end;
+  }
+
+  return { chunks, hasAlpha };
+};
+
+const encodeStill = (canvas: HTMLCanvasElement, quality: number): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(async (blob) => {
+      if (!blob || blob.type !== 'image/webp') {
+        reject(new Error('This browser cannot encode WebP'));
+        return;
+      }
+      resolve(new Uint8Array(await blob.arrayBuffer()));
+    }, 'image/webp', quality);
+  });
+
+const hexToBgra = (hex: string, alpha: number): Uint8Array =>
+  new Uint8Array([parseInt(hex.slice(5, 7), 16), parseInt(hex.slice(3, 5), 16), parseInt(hex.slice(1, 3), 16), alpha]);
+
+/**
+ * Animated WebP, assembled from per-frame stills encoded by the browser
+ */
+export const webpExporter: Exporter = {
+  format: 'webp',
+  label: 'WebP',
+  extension: 'webp',
+  mimeType: 'image/webp',
+  supportsQuality: true,
+  supportsLoopCount: true,
+  isSupported: () => {
+    if (typeof document === 'undefined') return false;
+    const probe = document.createElement('canvas');
+    probe.width = probe.height = 1;
+    return probe.toDataURL('image/webp').startsWith('data:image/webp');
+  },
+
+  encode: async ({ frames, delays, settings }, { quality, loopCount }, onProgress) => {
+    const { width, height } = frames[0];
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('2D context unavailable');
+
+    const anmfChunks: Uint8Array[] = [];
+    let anyAlpha = false;
+
+    for (let f = 0; f < frames.length; f++) {
+      ctx.putImageData(toImageData(frames[f]), 0, 0);
+      const { chunks, hasAlpha } = extractFrameChunks(await encodeStill(canvas, quality / 100));
+      anyAlpha ||= hasAlpha;
+
+      const header = new Uint8Array(16);
+      writeUint24(header, 0, 0);           // x offset / 2
+      writeUint24(header, 3, 0);           // y offset / 2
+      writeUint24(header, 6, width - 1);
+      writeUint24(header, 9, height - 1);
+      writeUint24(header, 12, Math.round(delays[f]));
+      header[15] = 0b10;                   // no blending, no disposal
+      anmfChunks.push(riffChunk('ANMF', concatBytes([header, ...chunks])));
+
+      onProgress?.((f + 1) / frames.length);
+    }
+
+    const vp8x = new Uint8Array(10);
+    vp8x[0] = 0x02 | (anyAlpha ? 0x10 : 0); // animation (+ alpha) flags
+    writeUint24(vp8x, 4, width - 1);
+    writeUint24(vp8x, 7, height - 1);
+
+    const anim = new Uint8Array(6);
+    anim.set(hexToBgra(settings.bgColor, settings.transparentBg ? 0 : 255), 0);
+    new DataView(anim.buffer).setUint16(4, loopCount, true);
+
+    const body = concatBytes([ascii('WEBP'), riffChunk('VP8X', vp8x), riffChunk('ANIM', anim), ...anmfChunks]);
+    const header = new Uint8Array(8);
+    header.set(ascii('RIFF'), 0);
+    new DataView(header.buffer).setUint32(4, body.length, true);
+
+    return new Blob([header, body], { type: 'image/webp' });
+  }
+};
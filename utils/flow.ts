@@ -0,0 +1,37 @@
+import { ProcessingSettings } from '../types';
+
+// Harmonics of the flow loop; higher ones add quicker wobbles on top of the main cycle
+export const FLOW_HARMONICS = 3;
+
+// Basis samples use frame indices far past any real frame, so they never alias boil frames
+export const FLOW_BASIS_FRAME = 1 << 20;
+
+export const FLOW_BASIS_COUNT = FLOW_HARMONICS * 2;
+
+// A unit-length blend of values in -r..r stays within ±r·√(basis count) (Cauchy–Schwarz)
+export const FLOW_MAX_GAIN = Math.sqrt(FLOW_BASIS_COUNT);
+
+/**
+ * Blend weights that turn FLOW_BASIS_COUNT independent random samples into one point
+ * on a closed loop through time. Harmonic h contributes cos(hθ) and sin(hθ), falling
+ * off faster the smoother the flow; θ runs once around the circle over `frameCount`
+ * frames, so the last frame leads straight back into the first.
+ *
+ * The weights have unit length, so the blend keeps the spread of a single sample and
+ * flow frames shake as far as boil frames do.
+ */
+export const flowWeights = (settings: ProcessingSettings, frameIndex: number): number[] => {
+  const theta = (2 * Math.PI * frameIndex) / Math.max(1, settings.frameCount);
+  const falloff = 1 - Math.max(0, Math.min(1, settings.flowSmoothness));
+
+  const weights: number[] = [];
+  let norm = 0;
+  for (let h = 1; h <= FLOW_HARMONICS; h++) {
+    const amplitude = falloff ** (h - 1);
+    weights.push(amplitude * Math.cos(h * theta), amplitude * Math.sin(h * theta));
+    norm += amplitude * amplitude;
+  }
+
+  const scale = 1 / Math.sqrt(norm);
+  return weights.map(w => w * scale);
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { countGifFrames, decodeGif } from './gifDecoder';
+import { encodeGif } from './gifEncoder';
+
+const animatedGif = (frameCount: number, width = 6, height = 4) =>
+  encodeGif(
+    Array.from({ length: frameCount }, (_, f) => ({
+      indices: new Uint8Array(width * height).map((_, i) => (i + f) % 2),
+      delay: 100,
+    })),
+    { width, height, palette: [[0, 0, 0], [255, 255, 255]], loopCount: 0 }
+  );
+
+describe('countGifFrames', () => {
+  it('counts the frames decodeGif decodes', () => {
+    for (const frameCount of [1, 3, 7]) {
+      const gif = animatedGif(frameCount);
+      expect(countGifFrames(gif)).toBe(frameCount);
+      expect(decodeGif(gif).frames).toHaveLength(frameCount);
+    }
+  });
+
+  it('stops at maxFrames', () => {
+    expect(countGifFrames(animatedGif(7), 4)).toBe(4);
+  });
+
+  it('counts only the frames before a cut', () => {
+    const gif = animatedGif(3);
+    expect(countGifFrames(gif.subarray(0, gif.length - 10))).toBe(2);
+    expect(countGifFrames(gif.subarray(0, 8))).toBe(0);
+  });
+});
@@ -0,0 +1,252 @@
+import { RgbaImage } from '../types';
+
+export interface DecodedGifFrame {
+  image: RgbaImage; // The whole composited screen, as a viewer shows it
+  delay: number;    // ms
+}
+
+export interface DecodedGif {
+  width: number;
+  height: number;
+  frames: DecodedGifFrame[];
+}
+
+// Browsers play delays of 0 or 1 centisecond at this speed instead
+const MIN_DELAY_CS = 2;
+const DEFAULT_DELAY_MS = 100;
+
+// Row order of the four interlace passes: [first row, step]
+const INTERLACE_PASSES = [[0, 8], [4, 8], [2, 4], [1, 2]];
+
+/**
+ * Unpacks GIF-flavored LZW (LSB-first codes, growing up to 12 bits) into `pixelCount` indices
+ */
+const lzwDecode = (data: Uint8Array, minCodeSize: number, pixelCount: number): Uint8Array => {
+  const out = new Uint8Array(pixelCount);
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+
+  // Each table entry is a prefix entry plus one index; `first` caches its leading index
+  const prefix = new Int16Array(4096).fill(-1);
+  const suffix = new Uint8Array(4096);
+  const first = new Uint8Array(4096);
+  const length = new Uint16Array(4096);
+  for (let i = 0; i < clearCode; i++) {
+    suffix[i] = first[i] = i;
+    length[i] = 1;
+  }
+
+  let codeSize = minCodeSize + 1;
+  let next = endCode + 1;
+  let prev = -1;
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let pos = 0;
+  let outPos = 0;
+
+  while (outPos < pixelCount) {
+    while (bitCount < codeSize && pos < data.length) {
+      bitBuffer |= data[pos++] << bitCount;
+      bitCount += 8;
+    }
+    if (bitCount < codeSize) break; // Truncated data: leave the rest at index 0
+
+    const code = bitBuffer & ((1 << codeSize) - 1);
+    bitBuffer >>>= codeSize;
+    bitCount -= codeSize;
+
+    if (code === clearCode) {
+      codeSize = minCodeSize + 1;
+      next = endCode + 1;
+      prev = -1;
+      continue;
+    }
+    if (code === endCode || code > next) break;
+
+    if (prev >= 0 && next < 4096) {
+      // New entry: the previous string plus the first index of this one (which, for the
+      // code being defined right now, is the previous string's first index)
+      prefix[next] = prev;
+      suffix[next] = code === next ? first[prev] : first[code];
+      first[next] = first[prev];
+      length[next] = length[prev] + 1;
+      next++;
+      if (next === 1 << codeSize && codeSize < 12) codeSize++;
+    } else if (prev < 0 && code >= clearCode) {
+      break; // A string code before any literal is corrupt
+    }
+
+    // Strings are linked back to front, so write them from their end
+    for (let c = code, p = outPos + length[code] - 1; c >= 0; c = prefix[c], p--) {
+      if (p < pixelCount) out[p] = suffix[c];
+    }
+    outPos += length[code];
+    prev = code;
+  }
+
+  return out;
+};
+
+/**
+ * Decodes a GIF, animated or not, into fully composited RGBA frames: each frame's
+ * rectangle is drawn over what its predecessors left, following their disposal methods.
+ * Stops after `maxFrames` frames. Throws on anything that isn't a GIF.
+ */
+export const decodeGif = (bytes: Uint8Array, maxFrames = Infinity): DecodedGif => {
+  const signature = String.fromCharCode(...bytes.subarray(0, 6));
+  if (signature !== 'GIF87a' && signature !== 'GIF89a') throw new Error('Not a GIF');
+
+  let pos = 6;
+  const byte = () => {
+    if (pos >= bytes.length) throw new Error('GIF is truncated');
+    return bytes[pos++];
+  };
+  const short = () => byte() | (byte() << 8);
+  const colorTable = (size: number) => {
+    const table = bytes.subarray(pos, pos + size * 3);
+    pos += size * 3;
+    return table;
+  };
+  // Data sub-blocks: length-prefixed runs up to a zero-length terminator
+  const subBlocks = () => {
+    const parts: Uint8Array[] = [];
+    let total = 0;
+    for (let size = byte(); size > 0; size = byte()) {
+      parts.push(bytes.subarray(pos, pos + size));
+      pos += size;
+      total += size;
+    }
+    const data = new Uint8Array(total);
+    let offset = 0;
+    for (const part of parts) {
+      data.set(part, offset);
+      offset += part.length;
+    }
+    return data;
+  };
+
+  const width = short();
+  const height = short();
+  const screenFlags = byte();
+  pos += 2; // Background index and aspect ratio; viewers start from transparent anyway
+  const globalTable = screenFlags & 0x80 ? colorTable(2 << (screenFlags & 0x07)) : null;
+
+  const screen = new Uint8ClampedArray(width * height * 4);
+  const frames: DecodedGifFrame[] = [];
+  let delay = DEFAULT_DELAY_MS;
+  let disposal = 0;
+  let transparentIndex = -1;
+
+  while (pos < bytes.length && frames.length < maxFrames) {
+    const block = byte();
+
+    if (block === 0x3B) break; // Trailer
+
+    if (block === 0x21) {
+      const label = byte();
+      if (label === 0xF9) {
+        // Graphic control: applies to the next image
+        const data = subBlocks();
+        disposal = (data[0] >> 2) & 0x07;
+        const cs = data[1] | (data[2] << 8);
+        delay = cs < MIN_DELAY_CS ? DEFAULT_DELAY_MS : cs * 10;
+        transparentIndex = data[0] & 0x01 ? data[3] : -1;
+      } else {
+        subBlocks();
+      }
+      continue;
+    }
+
+    if (block !== 0x2C) throw new Error(`Unexpected GIF block 0x${block.toString(16)}`);
+
+    const left = short();
+    const top = short();
+    const frameWidth = short();
+    const frameHeight = short();
+    const flags = byte();
+    const table = flags & 0x80 ? colorTable(2 << (flags & 0x07)) : globalTable;
+    if (!table) throw new Error('GIF frame has no color table');
+    const minCodeSize = byte();
+    const indices = lzwDecode(subBlocks(), minCodeSize, frameWidth * frameHeight);
+
+    const restore = disposal === 3 ? screen.slice() : null;
+
+    // Interlaced frames store rows in four passes; map each stored row to its place
+    const rowOrder = new Int32Array(frameHeight);
+    if (flags & 0x40) {
+      let r = 0;
+      for (const [start, step] of INTERLACE_PASSES) {
+        for (let y = start; y < frameHeight; y += step) rowOrder[r++] = y;
+      }
+    } else {
+      for (let y = 0; y < frameHeight; y++) rowOrder[y] = y;
+    }
+
+    for (let row = 0; row < frameHeight; row++) {
+      const y = top + rowOrder[row];
+      if (y >= height) continue;
+      for (let col = 0; col < frameWidth; col++) {
+        const x = left + col;
+        const index = indices[row * frameWidth + col];
+        if (x >= width || index === transparentIndex) continue;
+        const o = (y * width + x) * 4;
+        screen[o] = table[index * 3];
+        screen[o + 1] = table[index * 3 + 1];
+        screen[o + 2] = table[index * 3 + 2];
+        screen[o + 3] = 255;
+      }
+    }
+
+    frames.push({ image: { width, height, data: screen.slice() }, delay });
+
+    if (disposal === 2) {
+      // Restore to background, which viewers treat as transparent
+      for (let y = top; y < Math.min(height, top + frameHeight); y++) {
+        screen.fill(0, (y * width + left) * 4, (y * width + Math.min(width, left + frameWidth)) * 4);
+      }
+    } else if (restore) {
+      screen.set(restore);
+    }
+
+    delay = DEFAULT_DELAY_MS;
+    disposal = 0;
+    transparentIndex = -1;
+  }
+
+  if (frames.length === 0) throw new Error('GIF has no frames');
+  return { width, height, frames };
+};
+
+/**
+ * Counts a GIF's frames, up to `maxFrames`, by walking its blocks without decoding them,
+ * so the memory its frames would take can be judged first. A truncated file counts the
+ * frames before the cut.
+ */
+export const countGifFrames = (bytes: Uint8Array, maxFrames = Infinity): number => {
+  if (bytes.length < 13) return 0;
+  let pos = 13;
+  const tableSize = (flags: number) => (flags & 0x80 ? 3 * (2 << (flags & 0x07)) : 0);
+  const skipSubBlocks = () => {
+    while (pos < bytes.length && bytes[pos] > 0) pos += bytes[pos] + 1;
+    pos++;
+  };
+
+  pos += tableSize(bytes[10]);
+  let count = 0;
+  while (pos < bytes.length && count < maxFrames) {
+    const block = bytes[pos++];
+    if (block === 0x21) {
+      pos++; // Label
+      skipSubBlocks();
+    } else if (block === 0x2C) {
+      if (pos + 9 > bytes.length) break;
+      pos += 9 + tableSize(bytes[pos + 8]) + 1; // Descriptor, local table, LZW code size
+      skipSubBlocks();
+      if (pos > bytes.length) break;
+      count++;
+    } else {
+      break; // Trailer, or a block decodeGif would reject
+    }
+  }
+  return count;
+};
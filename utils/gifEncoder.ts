@@ -0,0 +1,193 @@
+import { RGB } from './palette';
+
+export interface GifFrame {
+  indices: Uint8Array; // One palette index per pixel
+  delay: number;       // ms
+}
+
+export interface GifEncodeOptions {
+  width: number;
+  height: number;
+  palette: RGB[];      // Global color table, at most 256 entries
+  loopCount: number;   // Total plays, 0 = forever
+  transparentIndex?: number;
+}
+
+/**
+ * Growable little-endian byte buffer
+ */
+const createByteWriter = () => {
+  let bytes = new Uint8Array(4096);
+  let length = 0;
+
+  const ensure = (extra: number) => {
+    if (length + extra <= bytes.length) return;
+    let size = bytes.length * 2;
+    while (size < length + extra) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(bytes.subarray(0, length));
+    bytes = next;
+  };
+
+  return {
+    byte: (v: number) => {
+      ensure(1);
+      bytes[length++] = v & 0xFF;
+    },
+    short: (v: number) => {
+      ensure(2);
+      bytes[length++] = v & 0xFF;
+      bytes[length++] = (v >> 8) & 0xFF;
+    },
+    bytes: (src: Uint8Array | number[]) => {
+      ensure(src.length);
+      bytes.set(src, length);
+      length += src.length;
+    },
+    result: () => bytes.slice(0, length),
+  };
+};
+
+/**
+ * GIF-flavored LZW, packed LSB-first into 255-byte sub-blocks
+ */
+const lzwEncode = (indices: Uint8Array, minCodeSize: number): Uint8Array => {
+  const out = createByteWriter();
+  const block = new Uint8Array(255);
+  let blockLength = 0;
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const flushBlock = () => {
+    if (blockLength === 0) return;
+    out.byte(blockLength);
+    out.bytes(block.subarray(0, blockLength));
+    blockLength = 0;
+  };
+
+  const emit = (code: number, size: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += size;
+    while (bitCount >= 8) {
+      block[blockLength++] = bitBuffer & 0xFF;
+      if (blockLength === 255) flushBlock();
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  const dictionary = new Map<number, number>();
+
+  emit(clearCode, codeSize);
+
+  if (indices.length > 0) {
+    let prefix = indices[0];
+
+    for (let i = 1; i < indices.length; i++) {
+      const k = indices[i];
+      const key = (prefix << 8) | k;
+      const code = dictionary.get(key);
+      if (code !== undefined) {
+        prefix = code;
+        continue;
+      }
+
+      emit(prefix, codeSize);
+
+      if (nextCode < 4096) {
+        dictionary.set(key, nextCode);
+        // The decoder widens its codes once its table reaches the next power of two
+        if (nextCode === (1 << codeSize) && codeSize < 12) codeSize++;
+        nextCode++;
+      } else {
+        emit(clearCode, codeSize);
+        dictionary.clear();
+        codeSize = minCodeSize + 1;
+        nextCode = endCode + 1;
+      }
+      prefix = k;
+    }
+
+    emit(prefix, codeSize);
+  }
+
+  emit(endCode, codeSize);
+  if (bitCount > 0) {
+    block[blockLength++] = bitBuffer & 0xFF;
+    if (blockLength === 255) flushBlock();
+  }
+  flushBlock();
+  out.byte(0); // Block terminator
+
+  return out.result();
+};
+
+/**
+ * Encodes indexed frames as an animated GIF89a with a single global palette.
+ * Pure and DOM-free, so identical input always yields identical bytes.
+ */
+export const encodeGif = (frames: GifFrame[], options: GifEncodeOptions): Uint8Array => {
+  const { width, height, palette, loopCount, transparentIndex } = options;
+  const hasTransparency = transparentIndex !== undefined;
+
+  // Color table size must be a power of two (2-256)
+  let tableBits = 1;
+  while ((1 << tableBits) < palette.length) tableBits++;
+  const tableSize = 1 << tableBits;
+  const minCodeSize = Math.max(2, tableBits);
+
+  const out = createByteWriter();
+
+  // Header + logical screen descriptor
+  out.bytes([0x47, 0x49, 0x46, 0x38, 0x39, 0x61]); // "GIF89a"
+  out.short(width);
+  out.short(height);
+  out.byte(0x80 | ((tableBits - 1) << 4) | (tableBits - 1)); // Global color table present
+  out.byte(0); // Background color index
+  out.byte(0); // Pixel aspect ratio
+
+  for (let i = 0; i < tableSize; i++) {
+    const [r, g, b] = palette[i] ?? [0, 0, 0];
+    out.byte(r);
+    out.byte(g);
+    out.byte(b);
+  }
+
+  // NETSCAPE2.0 looping extension counts repeats after the first play;
+  // without it the animation plays once
+  if (loopCount !== 1) {
+    out.bytes([0x21, 0xFF, 0x0B]);
+    out.bytes([0x4E, 0x45, 0x54, 0x53, 0x43, 0x41, 0x50, 0x45, 0x32, 0x2E, 0x30]);
+    out.bytes([0x03, 0x01]);
+    out.short(loopCount === 0 ? 0 : loopCount - 1);
+    out.byte(0);
+  }
+
+  for (const frame of frames) {
+    // Graphic control extension: delay in centiseconds. Transparent frames dispose to
+    // background so the previous frame doesn't show through their holes.
+    out.bytes([0x21, 0xF9, 0x04]);
+    out.byte(hasTransparency ? (2 << 2) | 1 : 1 << 2);
+    out.short(Math.round(frame.delay / 10));
+    out.byte(hasTransparency ? transparentIndex : 0);
+    out.byte(0);
+
+    // Image descriptor (full canvas, no local color table)
+    out.byte(0x2C);
+    out.short(0);
+    out.short(0);
+    out.short(width);
+    out.short(height);
+    out.byte(0);
+
+    out.byte(minCodeSize);
+    out.bytes(lzwEncode(frame.indices, minCodeSize));
+  }
+
+  out.byte(0x3B); // Trailer
+  return out.result();
+};
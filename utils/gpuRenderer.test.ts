@@ -0,0 +1,564 @@
+import { createHash } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import { ProcessingSettings, RgbaImage } from '../types';
+import { DEFAULT_SETTINGS } from '../constants';
+import { createRgbaImage, createRenderPipeline } from './imageProcessing';
+import { createGpuRenderer } from './gpuRenderer';
+import { hashToUnit } from './random';
+
+/*
+ * WebGL2 isn't available under Node, so these tests run the real renderer against a
+ * stand-in context: it keeps textures and uniforms like WebGL does, and draws each pass
+ * with a line-by-line CPU port of its fragment shader. The GLSL itself never runs here.
+ * What they check is the renderer's side: which settings it takes on, the order of its
+ * passes, and the textures and uniforms it hands each one. The ports are only as good
+ * as their review, so each is pinned to a fingerprint of the shader it was ported from.
+ */
+
+type Vec4 = [number, number, number, number];
+
+interface FakeTexture {
+  width: number;
+  height: number;
+  format: number;
+  data: Float32Array; // RGBA per texel, as the shader reads it
+}
+
+interface FakeProgram {
+  fragment: string;
+  uniforms: { name: string; type: number; size: number }[];
+  values: Map<string, number[]>;
+  port: ShaderPort;
+}
+
+// The GL enums the renderer uses; only their identity matters
+const GL = {
+  VERTEX_SHADER: 1, FRAGMENT_SHADER: 2, COMPILE_STATUS: 3, LINK_STATUS: 4, ACTIVE_UNIFORMS: 5,
+  MAX_TEXTURE_SIZE: 6, UNPACK_ALIGNMENT: 7, PACK_ALIGNMENT: 8, TEXTURE_2D: 9, TEXTURE0: 100,
+  TEXTURE_MIN_FILTER: 10, TEXTURE_MAG_FILTER: 11, TEXTURE_WRAP_S: 12, TEXTURE_WRAP_T: 13,
+  NEAREST: 14, CLAMP_TO_EDGE: 15, FRAMEBUFFER: 16, COLOR_ATTACHMENT0: 17, FRAMEBUFFER_COMPLETE: 18,
+  TRIANGLES: 19, R32F: 20, RG32F: 21, R8: 22, RGBA8: 23, RED: 24, RG: 25, RGBA: 26,
+  FLOAT: 27, UNSIGNED_BYTE: 28, INT: 29, INT_VEC2: 30, UNSIGNED_INT: 31,
+  FLOAT_VEC2: 32, FLOAT_VEC3: 33, FLOAT_VEC4: 34, SAMPLER_2D: 35,
+};
+
+const UNIFORM_TYPES: Record<string, number> = {
+  int: GL.INT, ivec2: GL.INT_VEC2, uint: GL.UNSIGNED_INT, float: GL.FLOAT,
+  vec2: GL.FLOAT_VEC2, vec3: GL.FLOAT_VEC3, vec4: GL.FLOAT_VEC4, sampler2D: GL.SAMPLER_2D,
+};
+
+const CHANNELS: Record<number, number> = { [GL.R32F]: 1, [GL.RG32F]: 2, [GL.R8]: 1, [GL.RGBA8]: 4 };
+
+// Stores a shader output the way the texture format keeps it
+const quantize = (format: number, v: number) =>
+  format === GL.R8 || format === GL.RGBA8 ? Math.round(Math.min(1, Math.max(0, v)) * 255) / 255 : Math.fround(v);
+
+/**
+ * A fragment shader ported to the CPU: the output color at pixel (x, y)
+ */
+type ShaderPort = (x: number, y: number, u: Uniforms) => Vec4;
+
+interface Uniforms {
+  int: (name: string, i?: number) => number;
+  float: (name: string, i?: number) => number;
+  list: (name: string) => number[];
+  texture: (name: string) => FakeTexture;
+}
+
+const texelFetch = (tex: FakeTexture, x: number, y: number): Vec4 => {
+  const i = (y * tex.width + x) * 4;
+  return [tex.data[i], tex.data[i + 1], tex.data[i + 2], tex.data[i + 3]];
+};
+
+const clampInt = (v: number, max: number) => Math.min(max, Math.max(0, v));
+
+const luma = (t: Vec4) => Math.round(t[0] * 255) * 0.299 + Math.round(t[1] * 255) * 0.587 + Math.round(t[2] * 255) * 0.114;
+
+const lumaPort: ShaderPort = (x, y, u) => [luma(texelFetch(u.texture('u_source'), x, y)), 0, 0, 1];
+
+const blurPort: ShaderPort = (x, y, u) => {
+  const values = u.texture('u_values');
+  const [sx, sy] = u.list('u_step');
+  const radius = u.int('u_radius');
+  let acc = 0;
+  for (let k = -radius; k <= radius; k++) {
+    const px = clampInt(x + sx * k, values.width - 1);
+    const py = clampInt(y + sy * k, values.height - 1);
+    acc += texelFetch(values, px, py)[0] * u.float('u_kernel', k + radius);
+  }
+  return [acc, 0, 0, 1];
+};
+
+const boxPort: ShaderPort = (x, y, u) => {
+  const values = u.texture('u_values');
+  const [sx, sy] = u.list('u_step');
+  const radius = u.int('u_radius');
+  const along = sx * x + sy * y;
+  const lo = Math.max(0, along - radius);
+  const hi = Math.min(sx * values.width + sy * values.height, along + radius + 1);
+  let sum = 0;
+  for (let i = lo; i < hi; i++) sum += texelFetch(values, x + sx * (i - along), y + sy * (i - along))[0];
+  return [sum, hi - lo, 0, 1];
+};
+
+const maskPort: ShaderPort = (x, y, u) => {
+  const source = u.texture('u_source');
+  const mode = u.int('u_mode');
+  const threshold = u.float('u_threshold');
+  const valueAt = (px: number, py: number) => {
+    const values = u.texture('u_values');
+    return texelFetch(values, clampInt(px, values.width - 1), clampInt(py, values.height - 1))[0];
+  };
+  const rgb = (px: number, py: number) => texelFetch(source, px, py).slice(0, 3).map(c => Math.round(c * 255));
+
+  let line: boolean;
+  if (mode === 0) {
+    line = luma(texelFetch(source, x, y)) < threshold;
+  } else if (mode === 1) {
+    if (x >= source.width - 1 || y >= source.height - 1) {
+      line = false;
+    } else {
+      const c = rgb(x, y), right = rgb(x + 1, y), below = rgb(x, y + 1);
+      const diff = c.reduce((sum, v, i) => sum + Math.abs(v - right[i]) + Math.abs(v - below[i]), 0);
+      line = diff > Math.max(0, 500 - threshold);
+    }
+  } else if (mode === 2) {
+    const tl = valueAt(x - 1, y - 1), tc = valueAt(x, y - 1), tr = valueAt(x + 1, y - 1);
+    const ml = valueAt(x - 1, y), mr = valueAt(x + 1, y);
+    const bl = valueAt(x - 1, y + 1), bc = valueAt(x, y + 1), br = valueAt(x + 1, y + 1);
+    const sx = (tr + 2 * mr + br) - (tl + 2 * ml + bl);
+    const sy = (bl + 2 * bc + br) - (tl + 2 * tc + tr);
+    line = Math.sqrt(sx * sx + sy * sy) > Math.max(0, 500 - threshold);
+  } else if (mode === 3) {
+    const sharpness = u.float('u_sharpness');
+    const d = (1 + sharpness) * texelFetch(u.texture('u_values'), x, y)[0] - sharpness * texelFetch(u.texture('u_wide'), x, y)[0];
+    line = d < threshold / 500 * 255;
+  } else {
+    const values = u.texture('u_values');
+    const radius = u.int('u_radius');
+    const lo = Math.max(0, y - radius);
+    const hi = Math.min(source.height, y + radius + 1);
+    let sum = 0;
+    for (let row = lo; row < hi; row++) sum += texelFetch(values, x, row)[0];
+    const area = texelFetch(values, x, y)[1] * (hi - lo);
+    line = texelFetch(u.texture('u_luma'), x, y)[0] < sum / area - u.float('u_offset');
+  }
+  return [line ? 1 : 0, 0, 0, 1];
+};
+
+const S = Math.SQRT1_2;
+const GRADIENTS = [[1, 0], [-1, 0], [0, 1], [0, -1], [S, S], [-S, S], [S, -S], [-S, -S]];
+const F2 = 0.36602540378443865;
+const G2 = 0.21132486540518713;
+
+const fieldPort: ShaderPort = (x, y, u) => {
+  const lattice = u.texture('u_lattice');
+  const layerCount = u.int('u_layerCount');
+  const noiseType = u.int('u_noiseType');
+
+  const table = (layer: number, i: number) => {
+    const index = u.int('u_tableStart', layer) + i;
+    return texelFetch(lattice, index % lattice.width, Math.floor(index / lattice.width))[0];
+  };
+  const perm = (layer: number, i: number) => Math.trunc(table(layer, i));
+  const dot = (g: number[], dx: number, dy: number) => g[0] * dx + g[1] * dy;
+
+  const valueNoise = (layer: number, px: number, py: number) => {
+    const cols = u.int('u_cols', layer);
+    const xi = Math.min(cols - 2, Math.floor(px));
+    const yi = Math.min(u.int('u_rows', layer) - 2, Math.floor(py));
+    const tx = px - xi, ty = py - yi;
+    const i = yi * cols + xi;
+    const c00 = table(layer, i), c10 = table(layer, i + 1);
+    const c01 = table(layer, i + cols), c11 = table(layer, i + cols + 1);
+    const top = c00 + (c10 - c00) * tx;
+    const bottom = c01 + (c11 - c01) * tx;
+    return top + (bottom - top) * ty;
+  };
+
+  const fade = (t: number) => t * t * t * (t * (t * 6 - 15) + 10);
+
+  const perlinNoise = (layer: number, px: number, py: number) => {
+    const fx = Math.floor(px), fy = Math.floor(py);
+    const ix = fx & 255, iy = fy & 255;
+    const tx = px - fx, ty = py - fy;
+    const row0 = perm(layer, iy), row1 = perm(layer, iy + 1);
+    const n00 = dot(GRADIENTS[perm(layer, ix + row0) & 7], tx, ty);
+    const n10 = dot(GRADIENTS[perm(layer, ix + 1 + row0) & 7], tx - 1, ty);
+    const n01 = dot(GRADIENTS[perm(layer, ix + row1) & 7], tx, ty - 1);
+    const n11 = dot(GRADIENTS[perm(layer, ix + 1 + row1) & 7], tx - 1, ty - 1);
+    const fu = fade(tx), fv = fade(ty);
+    const top = n00 + (n10 - n00) * fu;
+    const bottom = n01 + (n11 - n01) * fu;
+    return (top + (bottom - top) * fv) * Math.SQRT2;
+  };
+
+  const corner = (hash: number, dx: number, dy: number) => {
+    const t = 0.5 - dx * dx - dy * dy;
+    return t < 0 ? 0 : t * t * t * t * dot(GRADIENTS[hash & 7], dx, dy);
+  };
+
+  const simplexNoise = (layer: number, px: number, py: number) => {
+    const s = (px + py) * F2;
+    const i = Math.floor(px + s), j = Math.floor(py + s);
+    const t = (i + j) * G2;
+    const x0 = px - (i - t), y0 = py - (j - t);
+    const [ox, oy] = x0 > y0 ? [1, 0] : [0, 1];
+    const x1 = x0 - ox + G2, y1 = y0 - oy + G2;
+    const x2 = x0 - 1 + 2 * G2, y2 = y0 - 1 + 2 * G2;
+    const ii = i & 255, jj = j & 255;
+    const n0 = corner(perm(layer, ii + perm(layer, jj)), x0, y0);
+    const n1 = corner(perm(layer, ii + ox + perm(layer, jj + oy)), x1, y1);
+    const n2 = corner(perm(layer, ii + 1 + perm(layer, jj + 1)), x2, y2);
+    return 70 * (n0 + n1 + n2);
+  };
+
+  const fractal = (axis: number) => {
+    let value = 0, total = 0;
+    for (let o = 0; o < layerCount; o++) {
+      const layer = axis * layerCount + o;
+      const scale = u.float('u_scale', layer);
+      const qx = x * scale, qy = y * scale;
+      const n = noiseType === 0 ? valueNoise(layer, qx, qy) : noiseType === 1 ? perlinNoise(layer, qx, qy) : simplexNoise(layer, qx, qy);
+      value += n * u.float('u_amplitude', layer);
+      total += u.float('u_amplitude', layer);
+    }
+    return value / total;
+  };
+
+  const grain = u.int('u_grain');
+  const cell = Math.floor(y / grain) * u.int('u_grainCols') + Math.floor(x / grain);
+  const [microX, microY] = u.list('u_micro');
+  const [gainX, gainY] = u.list('u_gain');
+  return [
+    (fractal(0) + (hashToUnit(microX, cell) - 0.5) * 0.3) * gainX,
+    (fractal(1) + (hashToUnit(microY, cell) - 0.5) * 0.3) * gainY,
+    0,
+    1,
+  ];
+};
+
+const framePort: ShaderPort = (x, y, u) => {
+  const mask = u.texture('u_mask');
+  const weights = u.list('u_weights');
+  let dx = 0, dy = 0;
+  weights.forEach((w, b) => {
+    const [fx, fy] = texelFetch(u.texture(`u_field${b}`), x, y);
+    dx += fx * w;
+    dy += fy * w;
+  });
+  const jitter = u.float('u_jitter');
+  const sx = Math.floor(x - dx * jitter + 0.5);
+  const sy = Math.floor(y - dy * jitter + 0.5);
+
+  if (sx < 0 || sy < 0 || sx >= mask.width || sy >= mask.height || texelFetch(mask, sx, sy)[0] === 0) {
+    return u.list('u_bgColor') as Vec4;
+  }
+
+  const rgb = texelFetch(u.texture('u_source'), sx, sy).slice(0, 3).map(c => Math.round(c * 255));
+  const colorMode = u.int('u_colorMode');
+  if (colorMode === 0) return [...u.list('u_lineColor'), 1] as Vec4;
+  if (colorMode === 1) return [rgb[0] / 255, rgb[1] / 255, rgb[2] / 255, 1];
+
+  const paper = u.list('u_paper');
+  const coverage = (v: number, p: number) => {
+    const range = v > p ? 255 - p : p;
+    return Math.abs(v - p) / (range === 0 ? 1 : range);
+  };
+  const alpha = Math.min(1, Math.max(...rgb.map((v, c) => coverage(v, paper[c]))));
+  if (alpha === 0) return [0, 0, 0, 0];
+  const unmixed = rgb.map((v, c) => Math.min(1, Math.max(0, (paper[c] + (v - paper[c]) / alpha) / 255)));
+  return [unmixed[0], unmixed[1], unmixed[2], alpha];
+};
+
+const PORTS = { luma: lumaPort, blur: blurPort, box: boxPort, mask: maskPort, field: fieldPort, frame: framePort };
+
+type PassName = keyof typeof PORTS;
+
+/**
+ * Start of the SHA-256 of each fragment shader as its port was written against. When a
+ * shader changes, bring its port in line, then update the fingerprint here.
+ */
+const PORTED_SHADERS: Record<PassName, string> = {
+  luma: 'bbd53494469f9e92',
+  blur: 'f52f4ada41cc882f',
+  box: 'e21266ee7d693986',
+  mask: '1672b430725399e3',
+  field: 'd616352b4b405b18',
+  frame: '1648b289e79cade1',
+};
+
+const fingerprint = (source: string) => createHash('sha256').update(source).digest('hex').slice(0, 16);
+
+const uniformsOf = (source: string) =>
+  [...source.matchAll(/uniform\s+(\w+)\s+(\w+)(?:\[(\d+)\])?;/g)].map(m => ({
+    name: m[3] ? `${m[2]}[0]` : m[2],
+    type: UNIFORM_TYPES[m[1]],
+    size: m[3] ? Number(m[3]) : 1,
+  }));
+
+// Tells the passes apart by a uniform only that shader declares
+const passOf = (source: string): PassName => {
+  const uniforms = new Set(uniformsOf(source).map(u => u.name.replace(/\[0\]$/, '')));
+  return uniforms.has('u_lattice') ? 'field'
+    : uniforms.has('u_mode') ? 'mask'
+    : uniforms.has('u_mask') ? 'frame'
+    : uniforms.has('u_kernel') ? 'blur'
+    : uniforms.has('u_step') ? 'box'
+    : 'luma';
+};
+
+/**
+ * A WebGL2 context for the calls createGpuRenderer makes, drawing with the shader ports.
+ * `onLink` sees each fragment shader as its program is linked.
+ */
+const createFakeWebGl = (onLink?: (fragment: string) => void) => {
+  const shaders = new Map<object, { type: number; source: string }>();
+  const programs = new Map<object, FakeProgram & { shaders: object[] }>();
+  const textures = new Map<object, FakeTexture>();
+  const framebuffers = new Map<object, object | null>();
+  const units = new Map<number, object | null>();
+  let boundTexture: object | null = null;
+  let boundFramebuffer: object | null = null;
+  let activeUnit = 0;
+  let current: (FakeProgram & { shaders: object[] }) | null = null;
+
+  const setUniform = (location: { name: string }, values: ArrayLike<number>) => current!.values.set(location.name, Array.from(values));
+
+  const gl = {
+    ...GL,
+    getExtension: () => ({}),
+    getParameter: (p: number) => (p === GL.MAX_TEXTURE_SIZE ? 4096 : 0),
+    pixelStorei: () => {},
+    createVertexArray: () => ({}),
+    bindVertexArray: () => {},
+    isContextLost: () => false,
+
+    createShader: (type: number) => {
+      const shader = {};
+      shaders.set(shader, { type, source: '' });
+      return shader;
+    },
+    shaderSource: (shader: object, source: string) => { shaders.get(shader)!.source = source; },
+    compileShader: () => {},
+    getShaderParameter: () => true,
+    getShaderInfoLog: () => null,
+
+    createProgram: () => {
+      const program = {};
+      programs.set(program, { fragment: '', uniforms: [], values: new Map(), port: lumaPort, shaders: [] });
+      return program;
+    },
+    attachShader: (program: object, shader: object) => { programs.get(program)!.shaders.push(shader); },
+    linkProgram: (program: object) => {
+      const p = programs.get(program)!;
+      p.fragment = p.shaders.map(s => shaders.get(s)!).find(s => s.type === GL.FRAGMENT_SHADER)!.source;
+      p.uniforms = uniformsOf(p.fragment);
+      p.port = PORTS[passOf(p.fragment)];
+      onLink?.(p.fragment);
+    },
+    getProgramParameter: (program: object, p: number) => (p === GL.ACTIVE_UNIFORMS ? programs.get(program)!.uniforms.length : true),
+    getProgramInfoLog: () => null,
+    getActiveUniform: (program: object, i: number) => programs.get(program)!.uniforms[i],
+    getUniformLocation: (_program: object, name: string) => ({ name: name.replace(/\[0\]$/, '') }),
+    useProgram: (program: object) => { current = programs.get(program)!; },
+    uniform1i: (location: { name: string }, v: number) => setUniform(location, [v]),
+    uniform1iv: setUniform,
+    uniform2iv: setUniform,
+    uniform1uiv: setUniform,
+    uniform1fv: setUniform,
+    uniform2fv: setUniform,
+    uniform3fv: setUniform,
+    uniform4fv: setUniform,
+
+    createTexture: () => {
+      const texture = {};
+      textures.set(texture, { width: 0, height: 0, format: GL.RGBA8, data: new Float32Array(0) });
+      return texture;
+    },
+    deleteTexture: (texture: object) => { textures.delete(texture); },
+    activeTexture: (unit: number) => { activeUnit = unit - GL.TEXTURE0; },
+    bindTexture: (_target: number, texture: object | null) => {
+      boundTexture = texture;
+      units.set(activeUnit, texture);
+    },
+    texParameteri: () => {},
+    texImage2D: (_target: number, _level: number, format: number, width: number, height: number, _border: number,
+      _format: number, _type: number, pixels: ArrayBufferView | null) => {
+      const channels = CHANNELS[format];
+      const data = new Float32Array(width * height * 4);
+      const src = pixels as (Float32Array | Uint8Array) | null;
+      const normalize = format === GL.R8 || format === GL.RGBA8 ? 1 / 255 : 1;
+      for (let i = 0; i < width * height; i++) {
+        data.set([0, 0, 0, 1], i * 4);
+        for (let c = 0; c < channels && src; c++) data[i * 4 + c] = src[i * channels + c] * normalize;
+      }
+      Object.assign(textures.get(boundTexture!)!, { width, height, format, data });
+    },
+
+    createFramebuffer: () => {
+      const framebuffer = {};
+      framebuffers.set(framebuffer, null);
+      return framebuffer;
+    },
+    deleteFramebuffer: (framebuffer: object) => { framebuffers.delete(framebuffer); },
+    bindFramebuffer: (_target: number, framebuffer: object | null) => { boundFramebuffer = framebuffer; },
+    framebufferTexture2D: (_target: number, _attachment: number, _texTarget: number, texture: object) => {
+      framebuffers.set(boundFramebuffer!, texture);
+    },
+    checkFramebufferStatus: () => GL.FRAMEBUFFER_COMPLETE,
+    viewport: () => {},
+
+    drawArrays: () => {
+      const program = current!;
+      const target = textures.get(framebuffers.get(boundFramebuffer!)!)!;
+      const list = (name: string) => program.values.get(name) ?? [];
+      const uniforms: Uniforms = {
+        int: (name, i = 0) => list(name)[i],
+        float: (name, i = 0) => list(name)[i],
+        list,
+        texture: (name) => {
+          const texture = units.get(list(name)[0]);
+          if (!texture || texture === framebuffers.get(boundFramebuffer!)) throw new Error(`${name} has no texture to read`);
+          return textures.get(texture)!;
+        },
+      };
+
+      const port = program.port;
+      const channels = CHANNELS[target.format];
+      const out = new Float32Array(target.width * target.height * 4);
+      for (let y = 0; y < target.height; y++) {
+        for (let x = 0; x < target.width; x++) {
+          const color = port(x, y, uniforms);
+          const i = (y * target.width + x) * 4;
+          for (let c = 0; c < 4; c++) out[i + c] = c < channels ? quantize(target.format, color[c]) : c === 3 ? 1 : 0;
+        }
+      }
+      target.data = out;
+    },
+
+    readPixels: (_x: number, _y: number, width: number, height: number, _format: number, _type: number, pixels: Uint8Array) => {
+      const texture = textures.get(framebuffers.get(boundFramebuffer!)!)!;
+      for (let i = 0; i < width * height * 4; i++) pixels[i] = Math.round(texture.data[i] * 255);
+    },
+  };
+
+  return { getContext: () => gl } as unknown as OffscreenCanvas;
+};
+
+/**
+ * A sketch-like test image: dark and colored rings on off-white paper, with a soft
+ * shadow gradient and a little grain
+ */
+const createTestImage = (width: number, height: number): RgbaImage => {
+  const image = createRgbaImage(width, height);
+  const rings = [
+    { cx: 0.3, cy: 0.4, r: 0.22, color: [40, 40, 48] },
+    { cx: 0.65, cy: 0.55, r: 0.25, color: [180, 50, 40] },
+    { cx: 0.5, cy: 0.3, r: 0.12, color: [30, 90, 170] },
+  ];
+  const side = Math.max(width, height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const shade = 240 - 40 * (x / width) + ((x * 7 + y * 13) % 5);
+      let rgb = [shade, shade - 4, shade - 10];
+      for (const ring of rings) {
+        const d = Math.abs(Math.hypot(x - ring.cx * width, y - ring.cy * height) - ring.r * side);
+        const a = Math.max(0, Math.min(1, 2.5 - d));
+        rgb = rgb.map((v, c) => v + (ring.color[c] - v) * a);
+      }
+      image.data.set([...rgb, 255], i);
+    }
+  }
+  return image;
+};
+
+const WIDTH = 160;
+const HEIGHT = 120;
+
+const settingsFor = (overrides: Partial<ProcessingSettings>): ProcessingSettings => ({
+  ...DEFAULT_SETTINGS,
+  autoThreshold: false,
+  jitterAmount: 8,
+  frameCount: 3,
+  ...overrides,
+});
+
+/**
+ * Renders `frames` frames with the CPU pipeline and with the GPU renderer over the
+ * shader ports, and returns how many pixels differ by more than
+ * a rounding step, relative to the number of line pixels
+ */
+const mismatch = (settings: ProcessingSettings, frames = 2) => {
+  const pipeline = createRenderPipeline();
+  const image = createTestImage(WIDTH, HEIGHT);
+  pipeline.setSourceFrames('test', 1, () => image);
+  const gpu = createGpuRenderer(createFakeWebGl())!;
+  expect(gpu.supports(settings)).toBe(true);
+
+  let differing = 0;
+  let lines = 0;
+  for (let f = 0; f < frames; f++) {
+    lines += pipeline.lineMask(settings, f).reduce((sum, v) => sum + (v ? 1 : 0), 0);
+    const expected = pipeline.frame(settings, f).data;
+    const actual = gpu.frame(pipeline, settings, f).data;
+    for (let i = 0; i < expected.length; i += 4) {
+      if ([0, 1, 2, 3].some(c => Math.abs(expected[i + c] - actual[i + c]) > 1)) differing++;
+    }
+  }
+  expect(lines).toBeGreaterThan(0);
+  return differing / lines;
+};
+
+// Float32 shader math may land on the other side of a rounding boundary now and then
+const TOLERANCE = 0.01;
+
+describe('GPU renderer plumbing, drawn with the shader ports', () => {
+  it('has a port for each shader as it stands', () => {
+    const linked: Partial<Record<PassName, string>> = {};
+    createGpuRenderer(createFakeWebGl(fragment => { linked[passOf(fragment)] = fingerprint(fragment); }));
+
+    // A mismatch means a shader changed since its port was written: see PORTED_SHADERS
+    expect(linked).toEqual(PORTED_SHADERS);
+  });
+
+  it.each([
+    ['brightness', { threshold: 150 }],
+    ['edge', { threshold: 350 }],
+    ['sobel', { threshold: 400, edgeBlur: 1 }],
+    ['canny', { cannyLow: 40, cannyHigh: 120 }],
+    ['xdog', { threshold: 200, xdogSigma: 1, xdogSharpness: 20 }],
+    ['adaptive', { adaptiveRadius: 6, adaptiveOffset: 8 }],
+  ] as const)('feeds %s detection through its passes', (detectionMode, overrides) => {
+    expect(mismatch(settingsFor({ detectionMode, ...overrides }))).toBeLessThan(TOLERANCE);
+  });
+
+  it.each(['value', 'perlin', 'simplex'] as const)('feeds boil frames with %s noise through the field pass', (noiseType) => {
+    expect(mismatch(settingsFor({ detectionMode: 'brightness', threshold: 150, noiseType, noiseOctaves: 3 }))).toBeLessThan(TOLERANCE);
+  });
+
+  it('feeds flow frames along the loop', () => {
+    const settings = settingsFor({ detectionMode: 'brightness', threshold: 150, animationMode: 'flow', frameCount: 4 });
+    expect(mismatch(settings, 4)).toBeLessThan(TOLERANCE);
+  });
+
+  it('feeds original colors on a transparent background', () => {
+    const settings = settingsFor({ detectionMode: 'brightness', threshold: 150, useOriginalColors: true, transparentBg: true, antiHalo: false });
+    expect(mismatch(settings)).toBeLessThan(TOLERANCE);
+  });
+
+  it('feeds anti-halo unmixing on a transparent background', () => {
+    const settings = settingsFor({ detectionMode: 'brightness', threshold: 200, useOriginalColors: true, transparentBg: true, antiHalo: true });
+    expect(mismatch(settings)).toBeLessThan(TOLERANCE);
+  });
+
+  it('leaves stroke jitter, styling, palettes and backgrounds to the pipeline', () => {
+    const gpu = createGpuRenderer(createFakeWebGl())!;
+    expect(gpu.supports(settingsFor({ jitterMode: 'stroke' }))).toBe(false);
+    expect(gpu.supports(settingsFor({ strokeTexture: 'pencil' }))).toBe(false);
+    expect(gpu.supports(settingsFor({ paletteMode: 'duotone' }))).toBe(false);
+    expect(gpu.supports(settingsFor({ backgroundStyle: 'paper' }))).toBe(false);
+  });
+});
@@ -0,0 +1,709 @@
+import { ProcessingSettings, RgbaImage } from '../types';
+import {
+  createDisplacementNoise,
+  createRgbaImage,
+  DisplacementNoise,
+  estimatePaperColor,
+  hexToRgb,
+  maskDilation,
+  RenderPipeline,
+} from './imageProcessing';
+import { gaussianKernel, XDOG_SIGMA_RATIO } from './edgeDetection';
+import { flowWeights, FLOW_BASIS_COUNT, FLOW_BASIS_FRAME } from './flow';
+import { hasStrokeStyle } from './strokeStyle';
+import { hasBackground } from './background';
+
+// Widest blur the shaders take; wider ones (huge sigmas) fall back to the CPU mask
+const MAX_BLUR_RADIUS = 48;
+
+// Noise octaves per axis the field shader takes (the octave slider stops at 5)
+const MAX_NOISE_LAYERS = 8;
+
+const NOISE_TYPES = { value: 0, perlin: 1, simplex: 2 };
+
+// A triangle covering the viewport, positioned from gl_VertexID so no buffers are needed
+const VERTEX_SHADER = `#version 300 es
+void main() {
+  vec2 corner = vec2(gl_VertexID & 1, gl_VertexID >> 1);
+  gl_Position = vec4(corner * 4.0 - 1.0, 0.0, 1.0);
+}`;
+
+// Every pass writes one output pixel per image pixel; row 0 of a texture is the top row
+const FRAGMENT_HEADER = `#version 300 es
+precision highp float;
+precision highp int;
+precision highp sampler2D;
+out vec4 outColor;
+ivec2 pixel() { return ivec2(gl_FragCoord.xy); }
+float luma(vec3 rgb) { return dot(round(rgb * 255.0), vec3(0.299, 0.587, 0.114)); }
+`;
+
+const LUMA_SHADER = `${FRAGMENT_HEADER}
+uniform sampler2D u_source;
+void main() {
+  outColor = vec4(luma(texelFetch(u_source, pixel(), 0).rgb), 0.0, 0.0, 1.0);
+}`;
+
+// One direction of a separable Gaussian blur, clamped at the borders
+const BLUR_SHADER = `${FRAGMENT_HEADER}
+uniform sampler2D u_values;
+uniform ivec2 u_step;
+uniform int u_radius;
+uniform float u_kernel[${MAX_BLUR_RADIUS * 2 + 1}];
+void main() {
+  ivec2 p = pixel();
+  ivec2 last = textureSize(u_values, 0) - 1;
+  float acc = 0.0;
+  for (int k = -u_radius; k <= u_radius; k++) {
+    acc += texelFetch(u_values, clamp(p + u_step * k, ivec2(0), last), 0).r * u_kernel[k + u_radius];
+  }
+  outColor = vec4(acc, 0.0, 0.0, 1.0);
+}`;
+
+// One direction of a box sum over the neighborhood, with how many pixels it covered
+const BOX_SHADER = `${FRAGMENT_HEADER}
+uniform sampler2D u_values;
+uniform ivec2 u_step;
+uniform int u_radius;
+void main() {
+  ivec2 p = pixel();
+  ivec2 size = textureSize(u_values, 0);
+  int along = u_step.x * p.x + u_step.y * p.y;
+  int lo = max(0, along - u_radius);
+  int hi = min(u_step.x * size.x + u_step.y * size.y, along + u_radius + 1);
+  float sum = 0.0;
+  for (int i = lo; i < hi; i++) sum += texelFetch(u_values, p + u_step * (i - along), 0).r;
+  outColor = vec4(sum, float(hi - lo), 0.0, 1.0);
+}`;
+
+// Line masks for every detection mode the GPU handles (see buildLineMask and friends)
+const MASK_SHADER = `${FRAGMENT_HEADER}
+uniform int u_mode;
+uniform sampler2D u_source;
+uniform sampler2D u_values; // Blurred luma (sobel, xdog), or the row box sums (adaptive)
+uniform sampler2D u_wide;   // The wider blur (xdog)
+uniform sampler2D u_luma;
+uniform float u_threshold;
+uniform float u_sharpness;
+uniform float u_offset;
+uniform int u_radius;
+
+float valueAt(ivec2 p) {
+  return texelFetch(u_values, clamp(p, ivec2(0), textureSize(u_values, 0) - 1), 0).r;
+}
+
+bool isLine(ivec2 p) {
+  ivec2 size = textureSize(u_source, 0);
+
+  if (u_mode == 0) return luma(texelFetch(u_source, p, 0).rgb) < u_threshold;
+
+  if (u_mode == 1) {
+    if (p.x >= size.x - 1 || p.y >= size.y - 1) return false;
+    vec3 c = round(texelFetch(u_source, p, 0).rgb * 255.0);
+    vec3 right = round(texelFetch(u_source, p + ivec2(1, 0), 0).rgb * 255.0);
+    vec3 below = round(texelFetch(u_source, p + ivec2(0, 1), 0).rgb * 255.0);
+    vec3 diff = abs(c - right) + abs(c - below);
+    return diff.r + diff.g + diff.b > max(0.0, 500.0 - u_threshold);
+  }
+
+  if (u_mode == 2) {
+    float tl = valueAt(p + ivec2(-1, -1)), tc = valueAt(p + ivec2(0, -1)), tr = valueAt(p + ivec2(1, -1));
+    float ml = valueAt(p + ivec2(-1, 0)), mr = valueAt(p + ivec2(1, 0));
+    float bl = valueAt(p + ivec2(-1, 1)), bc = valueAt(p + ivec2(0, 1)), br = valueAt(p + ivec2(1, 1));
+    float sx = (tr + 2.0 * mr + br) - (tl + 2.0 * ml + bl);
+    float sy = (bl + 2.0 * bc + br) - (tl + 2.0 * tc + tr);
+    return sqrt(sx * sx + sy * sy) > max(0.0, 500.0 - u_threshold);
+  }
+
+  if (u_mode == 3) {
+    float d = (1.0 + u_sharpness) * texelFetch(u_values, p, 0).r - u_sharpness * texelFetch(u_wide, p, 0).r;
+    return d < u_threshold / 500.0 * 255.0;
+  }
+
+  // Adaptive: u_values holds the row sums; add them up down the column
+  int lo = max(0, p.y - u_radius);
+  int hi = min(size.y, p.y + u_radius + 1);
+  float sum = 0.0;
+  for (int y = lo; y < hi; y++) sum += texelFetch(u_values, ivec2(p.x, y), 0).r;
+  float area = texelFetch(u_values, p, 0).g * float(hi - lo);
+  return texelFetch(u_luma, p, 0).r < sum / area - u_offset;
+}
+
+void main() {
+  outColor = vec4(isLine(pixel()) ? 1.0 : 0.0, 0.0, 0.0, 1.0);
+}`;
+
+// Fractal noise plus micro-jitter for both axes (see createDisplacementField). Each
+// layer's table sits in u_lattice flattened row by row from texel u_tableStart.
+const FIELD_SHADER = `${FRAGMENT_HEADER}
+uniform sampler2D u_lattice;
+uniform int u_noiseType;
+uniform int u_layerCount;
+uniform int u_tableStart[${MAX_NOISE_LAYERS * 2}];
+uniform int u_cols[${MAX_NOISE_LAYERS * 2}];
+uniform int u_rows[${MAX_NOISE_LAYERS * 2}];
+uniform float u_scale[${MAX_NOISE_LAYERS * 2}];
+uniform float u_amplitude[${MAX_NOISE_LAYERS * 2}];
+uniform uint u_micro[2];
+uniform vec2 u_gain;
+uniform int u_grain;
+uniform int u_grainCols;
+
+const float S = 0.7071067811865476;
+const vec2 GRADIENTS[8] = vec2[8](
+  vec2(1.0, 0.0), vec2(-1.0, 0.0), vec2(0.0, 1.0), vec2(0.0, -1.0),
+  vec2(S, S), vec2(-S, S), vec2(S, -S), vec2(-S, -S)
+);
+const float F2 = 0.36602540378443865;
+const float G2 = 0.21132486540518713;
+
+float table(int layer, int i) {
+  int index = u_tableStart[layer] + i;
+  int width = textureSize(u_lattice, 0).x;
+  return texelFetch(u_lattice, ivec2(index % width, index / width), 0).r;
+}
+
+int perm(int layer, int i) { return int(table(layer, i)); }
+
+float valueNoise(int layer, vec2 p) {
+  int cols = u_cols[layer];
+  float xi = min(float(cols - 2), floor(p.x));
+  float yi = min(float(u_rows[layer] - 2), floor(p.y));
+  vec2 t = p - vec2(xi, yi);
+  int i = int(yi) * cols + int(xi);
+  float c00 = table(layer, i), c10 = table(layer, i + 1);
+  float c01 = table(layer, i + cols), c11 = table(layer, i + cols + 1);
+  float top = c00 + (c10 - c00) * t.x;
+  float bottom = c01 + (c11 - c01) * t.x;
+  return top + (bottom - top) * t.y;
+}
+
+float fade(float t) { return t * t * t * (t * (t * 6.0 - 15.0) + 10.0); }
+
+float perlinNoise(int layer, vec2 p) {
+  vec2 f = floor(p);
+  ivec2 i = ivec2(f) & 255;
+  vec2 t = p - f;
+  int row0 = perm(layer, i.y), row1 = perm(layer, i.y + 1);
+  float n00 = dot(GRADIENTS[perm(layer, i.x + row0) & 7], t);
+  float n10 = dot(GRADIENTS[perm(layer, i.x + 1 + row0) & 7], t - vec2(1.0, 0.0));
+  float n01 = dot(GRADIENTS[perm(layer, i.x + row1) & 7], t - vec2(0.0, 1.0));
+  float n11 = dot(GRADIENTS[perm(layer, i.x + 1 + row1) & 7], t - vec2(1.0, 1.0));
+  float u = fade(t.x), v = fade(t.y);
+  float top = n00 + (n10 - n00) * u;
+  float bottom = n01 + (n11 - n01) * u;
+  return (top + (bottom - top) * v) * 1.4142135623730951;
+}
+
+float corner(int hash, vec2 d) {
+  float t = 0.5 - d.x * d.x - d.y * d.y;
+  return t < 0.0 ? 0.0 : t * t * t * t * dot(GRADIENTS[hash & 7], d);
+}
+
+float simplexNoise(int layer, vec2 p) {
+  float s = (p.x + p.y) * F2;
+  vec2 ij = floor(p + s);
+  float t = (ij.x + ij.y) * G2;
+  vec2 d0 = p - (ij - t);
+  ivec2 o = d0.x > d0.y ? ivec2(1, 0) : ivec2(0, 1);
+  vec2 d1 = d0 - vec2(o) + G2;
+  vec2 d2 = d0 - 1.0 + 2.0 * G2;
+  ivec2 i = ivec2(ij) & 255;
+  float n0 = corner(perm(layer, i.x + perm(layer, i.y)), d0);
+  float n1 = corner(perm(layer, i.x + o.x + perm(layer, i.y + o.y)), d1);
+  float n2 = corner(perm(layer, i.x + 1 + perm(layer, i.y + 1)), d2);
+  return 70.0 * (n0 + n1 + n2);
+}
+
+float fractal(int axis, vec2 p) {
+  float value = 0.0, total = 0.0;
+  for (int o = 0; o < u_layerCount; o++) {
+    int layer = axis * u_layerCount + o;
+    vec2 q = p * u_scale[layer];
+    float n = u_noiseType == 0 ? valueNoise(layer, q) : u_noiseType == 1 ? perlinNoise(layer, q) : simplexNoise(layer, q);
+    value += n * u_amplitude[layer];
+    total += u_amplitude[layer];
+  }
+  return value / total;
+}
+
+// hashToUnit from random.ts; uint arithmetic wraps like Math.imul
+float hashToUnit(uint seed, uint index) {
+  uint h = (seed ^ index) * 0x9E3779B1u;
+  h ^= h >> 15u;
+  h = (h ^ seed) * 0x85EBCA6Bu;
+  h ^= h >> 13u;
+  h *= 0xC2B2AE35u;
+  h ^= h >> 16u;
+  return float(h) / 4294967296.0;
+}
+
+void main() {
+  ivec2 p = pixel();
+  uint cell = uint((p.y / u_grain) * u_grainCols + p.x / u_grain);
+  vec2 noise = vec2(fractal(0, vec2(p)), fractal(1, vec2(p)));
+  vec2 micro = vec2(hashToUnit(u_micro[0], cell), hashToUnit(u_micro[1], cell)) - 0.5;
+  outColor = vec4((noise + micro * 0.3) * u_gain, 0.0, 1.0);
+}`;
+
+// Backward mapping and coloring in one pass (see mapSourcePixels and colorizeFrame).
+// The frame's field is a weighted sum of up to FLOW_BASIS_COUNT field textures.
+const FRAME_SHADER = `${FRAGMENT_HEADER}
+uniform sampler2D u_source;
+uniform sampler2D u_mask;
+${Array.from({ length: FLOW_BASIS_COUNT }, (_, b) => `uniform sampler2D u_field${b};`).join('\n')}
+uniform float u_weights[${FLOW_BASIS_COUNT}];
+uniform float u_jitter;
+uniform int u_colorMode; // 0 line color, 1 original colors, 2 original colors unmixed from the paper
+uniform vec3 u_lineColor;
+uniform vec4 u_bgColor;
+uniform vec3 u_paper;
+
+float coverage(float v, float p) {
+  float range = v > p ? 255.0 - p : p;
+  return abs(v - p) / (range == 0.0 ? 1.0 : range);
+}
+
+void main() {
+  ivec2 p = pixel();
+  ivec2 size = textureSize(u_mask, 0);
+  vec2 d = ${Array.from({ length: FLOW_BASIS_COUNT }, (_, b) => `texelFetch(u_field${b}, p, 0).rg * u_weights[${b}]`).join('\n    + ')};
+  ivec2 src = ivec2(floor(vec2(p) - d * u_jitter + 0.5));
+
+  if (any(lessThan(src, ivec2(0))) || any(greaterThanEqual(src, size)) || texelFetch(u_mask, src, 0).r == 0.0) {
+    outColor = u_bgColor;
+    return;
+  }
+
+  vec3 rgb = round(texelFetch(u_source, src, 0).rgb * 255.0);
+  if (u_colorMode == 0) {
+    outColor = vec4(u_lineColor, 1.0);
+  } else if (u_colorMode == 1) {
+    outColor = vec4(rgb / 255.0, 1.0);
+  } else {
+    float alpha = min(1.0, max(coverage(rgb.r, u_paper.r), max(coverage(rgb.g, u_paper.g), coverage(rgb.b, u_paper.b))));
+    outColor = alpha == 0.0 ? vec4(0.0) : vec4(clamp((u_paper + (rgb - u_paper) / alpha) / 255.0, 0.0, 1.0), alpha);
+  }
+}`;
+
+type UniformValue = number | boolean | ArrayLike<number> | WebGLTexture;
+
+interface Target {
+  texture: WebGLTexture;
+  framebuffer: WebGLFramebuffer;
+  width: number;
+  height: number;
+}
+
+interface CacheEntry<T> {
+  key: string;
+  value: T;
+}
+
+/**
+ * Renders preview frames with WebGL2: line extraction, the displacement noise and the
+ * backward mapping all run in shaders, so dragging a slider re-renders in milliseconds.
+ * It follows the CPU pipeline step by step and draws the same random values from the
+ * seed; frames match it up to float rounding on the odd pixel boundary.
+ *
+ * Returns null where WebGL2 or float render targets are unavailable, or only emulated
+ * in software. Masks the shaders can't build (Canny's hysteresis, widened outlines,
+ * very wide blurs) and oversized noise lattices come from `pipeline` instead; stroke
+ * jitter, stroke styling, palette mapping and painted backgrounds are left to the pipeline
+ * altogether (see `supports`).
+ */
+export const createGpuRenderer = (canvas: OffscreenCanvas | HTMLCanvasElement = new OffscreenCanvas(1, 1)) => {
+  const context = canvas.getContext('webgl2', {
+    antialias: false,
+    depth: false,
+    premultipliedAlpha: false,
+    // Software rasterizers run these shaders slower than the CPU pipeline
+    failIfMajorPerformanceCaveat: true,
+  });
+  if (!context || !context.getExtension('EXT_color_buffer_float')) return null;
+  const gl: WebGL2RenderingContext = context;
+
+  const maxTextureSize: number = gl.getParameter(gl.MAX_TEXTURE_SIZE);
+  gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+  gl.pixelStorei(gl.PACK_ALIGNMENT, 1);
+  gl.bindVertexArray(gl.createVertexArray());
+
+  const compile = (type: number, source: string) => {
+    const shader = gl.createShader(type)!;
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) throw new Error(gl.getShaderInfoLog(shader) ?? 'Shader failed to compile');
+    return shader;
+  };
+
+  let vertexShader: WebGLShader;
+
+  /**
+   * Links a fragment shader into a full-viewport pass and returns a function that draws
+   * it into `target` with the given uniforms (textures bind to consecutive units)
+   */
+  const createPass = (source: string) => {
+    const program = gl.createProgram()!;
+    gl.attachShader(program, vertexShader);
+    gl.attachShader(program, compile(gl.FRAGMENT_SHADER, source));
+    gl.linkProgram(program);
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) throw new Error(gl.getProgramInfoLog(program) ?? 'Shader failed to link');
+
+    const uniforms = new Map<string, { location: WebGLUniformLocation; type: number }>();
+    for (let i = 0; i < gl.getProgramParameter(program, gl.ACTIVE_UNIFORMS); i++) {
+      const info = gl.getActiveUniform(program, i)!;
+      uniforms.set(info.name.replace(/\[0\]$/, ''), { location: gl.getUniformLocation(program, info.name)!, type: info.type });
+    }
+
+    return (target: Target, values: Record<string, UniformValue>) => {
+      gl.useProgram(program);
+      let unit = 0;
+      for (const [name, { location, type }] of uniforms) {
+        const value = values[name];
+        if (type === gl.SAMPLER_2D) {
+          // Unused samplers get an empty unit, so none can read the target being drawn
+          gl.activeTexture(gl.TEXTURE0 + unit);
+          gl.bindTexture(gl.TEXTURE_2D, (value as WebGLTexture | undefined) ?? null);
+          gl.uniform1i(location, unit++);
+          continue;
+        }
+        if (value === undefined) continue;
+        const list = typeof value === 'number' || typeof value === 'boolean' ? [Number(value)] : value as ArrayLike<number>;
+        switch (type) {
+          case gl.INT: gl.uniform1iv(location, Array.from(list)); break;
+          case gl.INT_VEC2: gl.uniform2iv(location, Array.from(list)); break;
+          case gl.UNSIGNED_INT: gl.uniform1uiv(location, Array.from(list)); break;
+          case gl.FLOAT: gl.uniform1fv(location, Array.from(list)); break;
+          case gl.FLOAT_VEC2: gl.uniform2fv(location, Array.from(list)); break;
+          case gl.FLOAT_VEC3: gl.uniform3fv(location, Array.from(list)); break;
+          case gl.FLOAT_VEC4: gl.uniform4fv(location, Array.from(list)); break;
+        }
+      }
+      gl.bindFramebuffer(gl.FRAMEBUFFER, target.framebuffer);
+      gl.viewport(0, 0, target.width, target.height);
+      gl.drawArrays(gl.TRIANGLES, 0, 3);
+    };
+  };
+
+  const createTexture = () => {
+    const texture = gl.createTexture()!;
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    return texture;
+  };
+
+  // Texture formats as [internal format, format, type]
+  const R32F = [gl.R32F, gl.RED, gl.FLOAT] as const;
+  const RG32F = [gl.RG32F, gl.RG, gl.FLOAT] as const;
+  const R8 = [gl.R8, gl.RED, gl.UNSIGNED_BYTE] as const;
+  const RGBA8 = [gl.RGBA8, gl.RGBA, gl.UNSIGNED_BYTE] as const;
+  type Format = typeof R32F | typeof RG32F | typeof R8 | typeof RGBA8;
+
+  const upload = (texture: WebGLTexture, format: Format, width: number, height: number, data: ArrayBufferView | null) => {
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, format[0], width, height, 0, format[1], format[2], data);
+  };
+
+  const createTarget = (format: Format, width: number, height: number): Target => {
+    const texture = createTexture();
+    upload(texture, format, width, height, null);
+    const framebuffer = gl.createFramebuffer()!;
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+    gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
+    if (gl.checkFramebufferStatus(gl.FRAMEBUFFER) !== gl.FRAMEBUFFER_COMPLETE) throw new Error('Render target unsupported');
+    return { texture, framebuffer, width, height };
+  };
+
+  const releaseTarget = (target: Target) => {
+    gl.deleteFramebuffer(target.framebuffer);
+    gl.deleteTexture(target.texture);
+  };
+
+  let passes: {
+    luma: ReturnType<typeof createPass>;
+    blur: ReturnType<typeof createPass>;
+    box: ReturnType<typeof createPass>;
+    mask: ReturnType<typeof createPass>;
+    field: ReturnType<typeof createPass>;
+    frame: ReturnType<typeof createPass>;
+  };
+  try {
+    vertexShader = compile(gl.VERTEX_SHADER, VERTEX_SHADER);
+    releaseTarget(createTarget(R32F, 1, 1));
+    releaseTarget(createTarget(RG32F, 1, 1));
+    passes = {
+      luma: createPass(LUMA_SHADER),
+      blur: createPass(BLUR_SHADER),
+      box: createPass(BOX_SHADER),
+      mask: createPass(MASK_SHADER),
+      field: createPass(FIELD_SHADER),
+      frame: createPass(FRAME_SHADER),
+    };
+  } catch (err) {
+    console.error(err);
+    return null;
+  }
+
+  // Image-sized targets by role, reallocated when the source size changes
+  const targets = new Map<string, Target>();
+  const target = (role: string, format: Format, width: number, height: number) => {
+    const existing = targets.get(role);
+    if (existing && existing.width === width && existing.height === height) return existing;
+    if (existing) releaseTarget(existing);
+    const created = createTarget(format, width, height);
+    targets.set(role, created);
+    return created;
+  };
+
+  const sourceTexture = createTexture();
+  const latticeTexture = createTexture();
+  let source: RgbaImage | null = null;
+  let sourceVersion = 0;
+  let mask: CacheEntry<Target> | null = null;
+  let paper: CacheEntry<{ r: number; g: number; b: number }> | null = null;
+  // Flow basis fields by basis; boil fields are cheap to redo, so they aren't kept
+  const flowBases = new Map<number, CacheEntry<Target>>();
+  // Noise whose lattice is too big for one texture; the CPU fields take over for it
+  let oversizedNoise: string | null = null;
+
+  const setSource = (image: RgbaImage) => {
+    if (image === source) return;
+    source = image;
+    sourceVersion++;
+    upload(sourceTexture, RGBA8, image.width, image.height, new Uint8Array(image.data.buffer, image.data.byteOffset, image.data.length));
+  };
+
+  const blur = (input: Target, output: Target, sigma: number) => {
+    const kernel = gaussianKernel(sigma);
+    const radius = (kernel.length - 1) / 2;
+    const tmp = target('blurTmp', R32F, input.width, input.height);
+    passes.blur(tmp, { u_values: input.texture, u_step: [1, 0], u_radius: radius, u_kernel: kernel });
+    passes.blur(output, { u_values: tmp.texture, u_step: [0, 1], u_radius: radius, u_kernel: kernel });
+    return output;
+  };
+
+  // Whether the mask shader builds this mask exactly as buildScaledLineMask does
+  const gpuMask = (px: ProcessingSettings, width: number, height: number) => {
+    if (px.detectionMode === 'canny' || maskDilation(px, width, height) > 0) return false;
+    const widestBlur = px.detectionMode === 'xdog' ? px.xdogSigma * XDOG_SIGMA_RATIO
+      : px.detectionMode === 'sobel' ? px.edgeBlur : 0;
+    return Math.ceil(widestBlur * 3) <= MAX_BLUR_RADIUS;
+  };
+
+  const buildMask = (pipeline: RenderPipeline, settings: ProcessingSettings, px: ProcessingSettings, frameIndex: number): Target => {
+    const { width, height } = source!;
+    const output = target('mask', R8, width, height);
+
+    if (!gpuMask(px, width, height)) {
+      upload(output.texture, R8, width, height, pipeline.lineMask(settings, frameIndex));
+      return output;
+    }
+
+    const values: Record<string, UniformValue> = {
+      u_source: sourceTexture,
+      u_threshold: px.threshold,
+      u_sharpness: px.xdogSharpness,
+      u_offset: px.adaptiveOffset,
+    };
+
+    if (px.detectionMode === 'sobel' || px.detectionMode === 'xdog' || px.detectionMode === 'adaptive') {
+      const luma = target('luma', R32F, width, height);
+      passes.luma(luma, { u_source: sourceTexture });
+      values.u_luma = luma.texture;
+
+      if (px.detectionMode === 'sobel') {
+        values.u_values = px.edgeBlur > 0 ? blur(luma, target('blur', R32F, width, height), px.edgeBlur).texture : luma.texture;
+      } else if (px.detectionMode === 'xdog') {
+        values.u_values = blur(luma, target('blur', R32F, width, height), px.xdogSigma).texture;
+        values.u_wide = blur(luma, target('blurWide', R32F, width, height), px.xdogSigma * XDOG_SIGMA_RATIO).texture;
+      } else {
+        const radius = Math.max(1, Math.round(px.adaptiveRadius));
+        const rows = target('box', RG32F, width, height);
+        passes.box(rows, { u_values: luma.texture, u_step: [1, 0], u_radius: radius });
+        // The mask shader adds up the row sums itself
+        values.u_values = rows.texture;
+        values.u_radius = radius;
+      }
+    }
+
+    const modes = ['brightness', 'edge', 'sobel', 'xdog', 'adaptive'];
+    passes.mask(output, { ...values, u_mode: modes.indexOf(px.detectionMode) });
+    return output;
+  };
+
+  const maskKey = (px: ProcessingSettings) => [
+    sourceVersion,
+    px.detectionMode,
+    px.threshold,
+    px.edgeBlur,
+    px.cannyLow,
+    px.cannyHigh,
+    px.xdogSigma,
+    px.xdogSharpness,
+    px.adaptiveRadius,
+    px.adaptiveOffset,
+  ].join('|');
+
+  const maskStage = (pipeline: RenderPipeline, settings: ProcessingSettings, px: ProcessingSettings, frameIndex: number) => {
+    const key = maskKey(px);
+    if (mask?.key !== key) mask = { key, value: buildMask(pipeline, settings, px, frameIndex) };
+    return mask.value;
+  };
+
+  // The paper color behind anti-halo, estimated from the mask read back from the GPU
+  const paperStage = (px: ProcessingSettings, maskTarget: Target) => {
+    const key = maskKey(px);
+    if (paper?.key === key) return paper.value;
+
+    const { width, height } = maskTarget;
+    const pixels = new Uint8Array(width * height * 4);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, maskTarget.framebuffer);
+    gl.readPixels(0, 0, width, height, gl.RGBA, gl.UNSIGNED_BYTE, pixels);
+    const lineMask = new Uint8Array(width * height);
+    for (let i = 0; i < lineMask.length; i++) lineMask[i] = pixels[i * 4] > 0 ? 1 : 0;
+
+    paper = { key, value: estimatePaperColor(source!, lineMask) };
+    return paper.value;
+  };
+
+  /**
+   * Evaluates one displacement field into `output`. False when its lattice tables don't
+   * fit in a texture (tiny noise cells with many octaves).
+   */
+  const renderField = (output: Target, noise: DisplacementNoise, px: ProcessingSettings): boolean => {
+    const layers = [...noise.layersX, ...noise.layersY];
+    if (noise.layersX.length > MAX_NOISE_LAYERS) return false;
+
+    const total = layers.reduce((sum, layer) => sum + layer.table.length, 0);
+    const latticeWidth = Math.min(maxTextureSize, total);
+    const latticeHeight = Math.ceil(total / latticeWidth);
+    if (latticeHeight > maxTextureSize) return false;
+
+    const lattice = new Float32Array(latticeWidth * latticeHeight);
+    const tableStart: number[] = [];
+    let offset = 0;
+    for (const layer of layers) {
+      tableStart.push(offset);
+      lattice.set(layer.table, offset);
+      offset += layer.table.length;
+    }
+    upload(latticeTexture, R32F, latticeWidth, latticeHeight, lattice);
+
+    passes.field(output, {
+      u_lattice: latticeTexture,
+      u_noiseType: NOISE_TYPES[px.noiseType],
+      u_layerCount: noise.layersX.length,
+      u_tableStart: tableStart,
+      u_cols: layers.map(layer => layer.cols),
+      u_rows: layers.map(layer => layer.rows),
+      u_scale: layers.map(layer => layer.scale),
+      u_amplitude: layers.map(layer => layer.amplitude),
+      u_micro: [noise.microX, noise.microY],
+      u_gain: [noise.gainX, noise.gainY],
+      u_grain: noise.grain,
+      u_grainCols: Math.ceil(output.width / noise.grain),
+    });
+    return true;
+  };
+
+  /**
+   * The field textures of a frame and their blend weights: a fresh field per boil frame,
+   * or the cached flow basis fields blended along the loop
+   */
+  const fieldStage = (pipeline: RenderPipeline, settings: ProcessingSettings, px: ProcessingSettings, frameIndex: number) => {
+    const { width, height } = source!;
+    const noiseKey = [
+      `${width}x${height}`,
+      px.seed,
+      px.noiseType,
+      px.noiseOctaves,
+      px.noiseScale,
+      px.noiseAnisotropy,
+    ].join('|');
+
+    const fits = (output: Target, fieldFrame: number) => {
+      if (renderField(output, createDisplacementNoise(width, height, px, fieldFrame), px)) return true;
+      oversizedNoise = noiseKey;
+      return false;
+    };
+
+    if (noiseKey !== oversizedNoise && px.animationMode === 'flow') {
+      const textures: WebGLTexture[] = [];
+      for (let b = 0; b < FLOW_BASIS_COUNT && noiseKey !== oversizedNoise; b++) {
+        const cached = flowBases.get(b);
+        if (cached?.key === noiseKey) {
+          textures.push(cached.value.texture);
+          continue;
+        }
+        const output = target(`flowBasis${b}`, RG32F, width, height);
+        if (fits(output, FLOW_BASIS_FRAME + b)) flowBases.set(b, { key: noiseKey, value: output });
+        textures.push(output.texture);
+      }
+      if (noiseKey !== oversizedNoise) return { textures, weights: flowWeights(px, frameIndex) };
+    } else if (noiseKey !== oversizedNoise) {
+      const output = target('field', RG32F, width, height);
+      if (fits(output, frameIndex)) return { textures: [output.texture], weights: [1] };
+    }
+
+    // Too big for the GPU: upload the CPU pipeline's field for this frame
+    const cpuField = pipeline.displacementField(settings, frameIndex);
+    const output = target('field', RG32F, width, height);
+    const interleaved = new Float32Array(width * height * 2);
+    for (let i = 0; i < cpuField.x.length; i++) {
+      interleaved[i * 2] = cpuField.x[i];
+      interleaved[i * 2 + 1] = cpuField.y[i];
+    }
+    upload(output.texture, RG32F, width, height, interleaved);
+    return { textures: [output.texture], weights: [1] };
+  };
+
+  /**
+   * Whether `frame` can render these settings on the GPU
+   */
+  const supports = (settings: ProcessingSettings) =>
+    settings.jitterMode !== 'stroke' && !hasStrokeStyle(settings) && settings.paletteMode === 'off' &&
+    !hasBackground(settings) && !gl.isContextLost();
+
+  /**
+   * Renders output frame `frameIndex` of the pipeline's source, like `pipeline.frame`
+   */
+  const frame = (pipeline: RenderPipeline, settings: ProcessingSettings, frameIndex: number): RgbaImage => {
+    const px = pipeline.pixelSettings(settings);
+    setSource(pipeline.sourcePixels(frameIndex));
+    const { width, height } = source!;
+
+    const maskTarget = maskStage(pipeline, settings, px, frameIndex);
+    const { textures, weights } = fieldStage(pipeline, settings, px, frameIndex);
+
+    const line = hexToRgb(px.lineColor);
+    const bg = hexToRgb(px.bgColor);
+    const unmix = px.transparentBg && px.antiHalo && px.useOriginalColors;
+    const paperColor = unmix ? paperStage(px, maskTarget) : { r: 0, g: 0, b: 0 };
+
+    const values: Record<string, UniformValue> = {
+      u_source: sourceTexture,
+      u_mask: maskTarget.texture,
+      u_weights: Array.from({ length: FLOW_BASIS_COUNT }, (_, b) => weights[b] ?? 0),
+      u_jitter: px.jitterAmount,
+      u_colorMode: unmix ? 2 : px.useOriginalColors ? 1 : 0,
+      u_lineColor: [line.r / 255, line.g / 255, line.b / 255],
+      u_bgColor: [bg.r / 255, bg.g / 255, bg.b / 255, px.transparentBg ? 0 : 1],
+      u_paper: [paperColor.r, paperColor.g, paperColor.b],
+    };
+    for (let b = 0; b < FLOW_BASIS_COUNT; b++) values[`u_field${b}`] = textures[b] ?? textures[0];
+
+    const output = target('frame', RGBA8, width, height);
+    passes.frame(output, values);
+
+    const image = createRgbaImage(width, height);
+    gl.readPixels(0, 0, width, height, gl.RGBA, gl.UNSIGNED_BYTE, new Uint8Array(image.data.buffer));
+    return image;
+  };
+
+  return { supports, frame };
+};
+
+export type GpuRenderer = NonNullable<ReturnType<typeof createGpuRenderer>>;
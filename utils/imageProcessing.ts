@@ -1,108 +1,194 @@
-import { ProcessingSettings } from '../types';
+import { ProcessingSettings, RgbaImage } from '../types';
+import { createRng, deriveSeed, hashToUnit } from './random';
+import { createNoiseLayers, NoiseLayer, sampleNoiseLayers } from './noise';
+import { flowWeights, FLOW_BASIS_COUNT, FLOW_BASIS_FRAME } from './flow';
+import { sobelMask, cannyMask, xdogMask } from './edgeDetection';
+import { adaptiveMask, suggestThreshold } from './thresholding';
+import { analyzeStrokes, mapStrokes, StrokeAnalysis } from './strokeJitter';
+import { styleLineMask, StyledMask } from './strokeStyle';
+import { createPaletteMapper, extractPalette, hexToRgbTuple, RGB } from './palette';
+import { hasBackground, paintSheet, paintUnderlay } from './background';
+
+// Pixel-valued settings (jitter, XDoG blur, adaptive radius, line weight) are tuned for an image whose
+// longest side is this long, and scale proportionally at every other size
+export const REFERENCE_SIZE = 800;
+
+// Longest side of the live preview; exports render separately at their own size
+export const PREVIEW_SIZE = 800;
+
+// Pixels per band when rendering export frames tile by tile
+const TILE_PIXELS = 1 << 20;
 
 /**
- * Loads an image from a source string (URL or Base64)
+ * Fits an image so its longest side is at most `maxSize` (never upscaling), then applies `scale`
  */
-export const loadImage = (src: string): Promise<HTMLImageElement> => {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.crossOrigin = "anonymous";
-    img.onload = () => resolve(img);
-    img.onerror = (e) => reject(e);
-    img.src = src;
-  });
+export const fitSize = (
+  sourceWidth: number,
+  sourceHeight: number,
+  maxSize = Infinity,
+  scale = 1
+): { width: number, height: number } => {
+  const fit = Math.min(1, maxSize / Math.max(sourceWidth, sourceHeight));
+  return {
+    width: Math.max(1, Math.floor(sourceWidth * fit * scale)),
+    height: Math.max(1, Math.floor(sourceHeight * fit * scale)),
+  };
 };
 
 /**
- * Resizes the canvas to match the image, respecting max constraints
+ * How many times larger than REFERENCE_SIZE a width × height render is
  */
-export const setupCanvas = (
-  canvas: HTMLCanvasElement, 
-  img: HTMLImageElement, 
-  scale: number
-): { width: number, height: number } => {
-  const maxWidth = 800;
-  let width = img.width;
-  let height = img.height;
-
-  if (width > maxWidth) {
-    const ratio = maxWidth / width;
-    width = maxWidth;
-    height = height * ratio;
-  }
+export const resolutionScale = (width: number, height: number) => Math.max(width, height) / REFERENCE_SIZE;
+
+/**
+ * Converts the size-relative settings into pixels for a width × height render, so the
+ * same settings look the same in the preview and in an export of any size. Edge
+ * pre-blur stays in pixels: it only cleans up gradients, and widening it would make
+ * every edge weaker at large sizes.
+ */
+export const toPixelSettings = (settings: ProcessingSettings, width: number, height: number): ProcessingSettings => {
+  const scale = resolutionScale(width, height);
+  return {
+    ...settings,
+    jitterAmount: settings.jitterAmount * scale,
+    xdogSigma: settings.xdogSigma * scale,
+    adaptiveRadius: settings.adaptiveRadius * scale,
+    lineWeight: settings.lineWeight * scale,
+    taperLength: settings.taperLength * scale,
+  };
+};
 
-  // Apply output scale
-  width = Math.floor(width * scale);
-  height = Math.floor(height * scale);
+/**
+ * A blank (transparent black) width × height image
+ */
+export const createRgbaImage = (width: number, height: number): RgbaImage => ({
+  width,
+  height,
+  data: new Uint8ClampedArray(width * height * 4),
+});
 
-  canvas.width = width;
-  canvas.height = height;
+/**
+ * Tent-filter taps for resampling one axis: bilinear when enlarging, widened to average
+ * every covered source pixel when shrinking
+ */
+const resampleTaps = (sourceSize: number, targetSize: number) => {
+  const ratio = sourceSize / targetSize;
+  const support = Math.max(1, ratio);
 
-  return { width, height };
+  return Array.from({ length: targetSize }, (_, d) => {
+    const center = (d + 0.5) * ratio - 0.5;
+    const start = Math.max(0, Math.ceil(center - support));
+    const end = Math.min(sourceSize - 1, Math.floor(center + support));
+    const weights = new Float32Array(end - start + 1);
+    let total = 0;
+    for (let i = start; i <= end; i++) {
+      weights[i - start] = Math.max(0, 1 - Math.abs(i - center) / support);
+      total += weights[i - start];
+    }
+    for (let k = 0; k < weights.length; k++) weights[k] /= total;
+    return { start, weights };
+  });
 };
 
 /**
- * Generates a smooth noise map for coherent distortion
+ * Resamples pixels to width × height without a canvas (the browser draws them scaled
+ * instead). Colors are averaged weighted by alpha, so transparent pixels don't bleed.
  */
-const createNoiseMap = (width: number, height: number): Float32Array => {
-  const gridSize = 20; 
-  const cols = Math.ceil(width / gridSize) + 1;
-  const rows = Math.ceil(height / gridSize) + 1;
-  
-  const grid = new Float32Array(cols * rows);
-  for (let i = 0; i < grid.length; i++) {
-    grid[i] = (Math.random() - 0.5) * 2; // -1 to 1
+export const resizePixels = (source: RgbaImage, width: number, height: number): RgbaImage => {
+  if (source.width === width && source.height === height) return source;
+  const src = source.data;
+  const xTaps = resampleTaps(source.width, width);
+  const yTaps = resampleTaps(source.height, height);
+
+  // Horizontal pass into premultiplied floats, then vertical pass back to bytes
+  const rows = new Float32Array(width * source.height * 4);
+  for (let y = 0; y < source.height; y++) {
+    for (let x = 0; x < width; x++) {
+      const { start, weights } = xTaps[x];
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let k = 0; k < weights.length; k++) {
+        const i = (y * source.width + start + k) * 4;
+        const w = weights[k] * src[i + 3];
+        r += src[i] * w;
+        g += src[i + 1] * w;
+        b += src[i + 2] * w;
+        a += w;
+      }
+      const o = (y * width + x) * 4;
+      rows[o] = r;
+      rows[o + 1] = g;
+      rows[o + 2] = b;
+      rows[o + 3] = a;
+    }
   }
 
-  const map = new Float32Array(width * height);
-  
+  const output = createRgbaImage(width, height);
+  const dst = output.data;
   for (let y = 0; y < height; y++) {
+    const { start, weights } = yTaps[y];
     for (let x = 0; x < width; x++) {
-      const gx = x / gridSize;
-      const gy = y / gridSize;
-      
-      const gxi = Math.floor(gx);
-      const gyi = Math.floor(gy);
-      
-      const tx = gx - gxi;
-      const ty = gy - gyi;
-      
-      const c00 = grid[gyi * cols + gxi];
-      const c10 = grid[gyi * cols + (gxi + 1)];
-      const c01 = grid[(gyi + 1) * cols + gxi];
-      const c11 = grid[(gyi + 1) * cols + (gxi + 1)];
-      
-      // Interpolate
-      const top = c00 + (c10 - c00) * tx;
-      const bottom = c01 + (c11 - c01) * tx;
-      const val = top + (bottom - top) * ty;
-      
-      map[y * width + x] = val;
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let k = 0; k < weights.length; k++) {
+        const i = ((start + k) * width + x) * 4;
+        r += rows[i] * weights[k];
+        g += rows[i + 1] * weights[k];
+        b += rows[i + 2] * weights[k];
+        a += rows[i + 3] * weights[k];
+      }
+      const o = (y * width + x) * 4;
+      // Fully transparent pixels read back as black, as they do from a canvas
+      if (a > 0) {
+        dst[o] = r / a;
+        dst[o + 1] = g / a;
+        dst[o + 2] = b / a;
+      }
+      dst[o + 3] = a;
     }
   }
-  
-  return map;
+
+  return output;
 };
 
 /**
- * Generates N frames of jittered line art using Backward Mapping to prevent holes
+ * Auto threshold: analyzes the pixels at preview size and suggests thresholds for `settings`
  */
-export const generateJitterFrames = (
-  ctx: CanvasRenderingContext2D,
-  img: HTMLImageElement,
-  width: number,
-  height: number,
-  settings: ProcessingSettings
-): ImageData[] => {
-  // 1. Draw original image to get source pixel data
-  ctx.clearRect(0, 0, width, height);
-  ctx.drawImage(img, 0, 0, width, height);
-  const sourceData = ctx.getImageData(0, 0, width, height);
-  const srcPixels = sourceData.data;
+export const suggestThresholdForPixels = (sourceData: RgbaImage, settings: ProcessingSettings): Partial<ProcessingSettings> => {
+  const { width, height } = fitSize(sourceData.width, sourceData.height, PREVIEW_SIZE);
+  return suggestThreshold(resizePixels(sourceData, width, height), toPixelSettings(settings, width, height));
+};
+
+/**
+ * Palette extraction: the `count` main line colors, found on the pixels at preview size
+ */
+export const extractPaletteForPixels = (sourceData: RgbaImage, settings: ProcessingSettings, count: number): RGB[] => {
+  const { width, height } = fitSize(sourceData.width, sourceData.height, PREVIEW_SIZE);
+  const pixels = resizePixels(sourceData, width, height);
+  const mask = buildScaledLineMask(pixels, toPixelSettings(settings, width, height));
+  const { r, g, b } = estimatePaperColor(pixels, mask);
+  return extractPalette(pixels, mask, count, [r, g, b]);
+};
+
+export const hexToRgb = (hex: string) => {
+  const r = parseInt(hex.slice(1, 3), 16);
+  const g = parseInt(hex.slice(3, 5), 16);
+  const b = parseInt(hex.slice(5, 7), 16);
+  return { r, g, b };
+};
 
-  // 2. Pre-calculate "Line Mask"
-  // We determine which pixels in the SOURCE image are lines/shapes we want to keep.
-  // This avoids re-calculating edge detection for every frame.
+/**
+ * Pre-calculates the "Line Mask": which pixels in the SOURCE image are lines/shapes we want to keep.
+ * This avoids re-calculating edge detection for every frame.
+ */
+export const buildLineMask = (sourceData: RgbaImage, settings: ProcessingSettings): Uint8Array => {
+  switch (settings.detectionMode) {
+    case 'sobel': return sobelMask(sourceData, settings);
+    case 'canny': return cannyMask(sourceData, settings);
+    case 'xdog': return xdogMask(sourceData, settings);
+    case 'adaptive': return adaptiveMask(sourceData, settings);
+  }
+
+  const { width, height } = sourceData;
+  const srcPixels = sourceData.data;
   const lineMask = new Uint8Array(width * height);
   
   const getIdx = (x: number, y: number) => (y * width + x) * 4;
@@ -149,86 +235,670 @@ export const generateJitterFrames = (
     }
   }
 
-  // 3. Generate Frames using Backward Mapping
-  const frames: ImageData[] = [];
+  return lineMask;
+};
+
+// Modes that find outlines one or two pixels wide, whatever the image size
+const OUTLINE_MODES = new Set(['edge', 'sobel', 'canny']);
+
+/**
+ * How far buildScaledLineMask widens the mask of a width × height render
+ */
+export const maskDilation = (settings: ProcessingSettings, width: number, height: number) =>
+  OUTLINE_MODES.has(settings.detectionMode) ? Math.round((resolutionScale(width, height) - 1) / 2) : 0;
 
-  const hexToRgb = (hex: string) => {
-    const r = parseInt(hex.slice(1, 3), 16);
-    const g = parseInt(hex.slice(3, 5), 16);
-    const b = parseInt(hex.slice(5, 7), 16);
-    return { r, g, b };
+/**
+ * Grows the mask by `radius` pixels (square dilation, done as two separable passes)
+ */
+const dilateMask = (mask: Uint8Array, width: number, height: number, radius: number): Uint8Array => {
+  if (radius <= 0) return mask;
+  const rows = new Uint8Array(mask.length);
+  const out = new Uint8Array(mask.length);
+
+  // Each pass marks pixels within `radius` of the nearest set pixel on either side
+  for (let y = 0; y < height; y++) {
+    let last = -Infinity;
+    for (let x = 0; x < width; x++) {
+      if (mask[y * width + x] === 1) last = x;
+      if (x - last <= radius) rows[y * width + x] = 1;
+    }
+    for (let x = width - 1, next = Infinity; x >= 0; x--) {
+      if (mask[y * width + x] === 1) next = x;
+      if (next - x <= radius) rows[y * width + x] = 1;
+    }
+  }
+
+  for (let x = 0; x < width; x++) {
+    let last = -Infinity;
+    for (let y = 0; y < height; y++) {
+      if (rows[y * width + x] === 1) last = y;
+      if (y - last <= radius) out[y * width + x] = 1;
+    }
+    for (let y = height - 1, next = Infinity; y >= 0; y--) {
+      if (rows[y * width + x] === 1) next = y;
+      if (next - y <= radius) out[y * width + x] = 1;
+    }
+  }
+
+  return out;
+};
+
+/**
+ * Builds the line mask for `settings` already converted with toPixelSettings. Outline
+ * modes get their thin outlines widened on large renders, so lines keep the weight
+ * they have in the preview.
+ */
+export const buildScaledLineMask = (sourceData: RgbaImage, settings: ProcessingSettings): Uint8Array => {
+  const { width, height } = sourceData;
+  return dilateMask(buildLineMask(sourceData, settings), width, height, maskDilation(settings, width, height));
+};
+
+/**
+ * Per-pixel displacement direction for one frame, in units of `jitterAmount`
+ */
+export interface DisplacementField {
+  x: Float32Array;
+  y: Float32Array;
+}
+
+/**
+ * The random ingredients of one frame's displacement field, per axis: the noise octaves
+ * and the seed of the micro-jitter hash, plus the anisotropy gains. The GPU renderer
+ * evaluates the same ingredients, so both renderers shake identically.
+ */
+export interface DisplacementNoise {
+  layersX: NoiseLayer[];
+  layersY: NoiseLayer[];
+  microX: number;
+  microY: number;
+  gainX: number;
+  gainY: number;
+  grain: number; // Micro-jitter cell size in pixels
+}
+
+/**
+ * Each frame/axis gets its own stream derived from the seed, so identical settings
+ * always give identical frames. The noise cell size and the micro-jitter grain are
+ * relative to the longest image side, so the wobble looks the same at any resolution.
+ */
+export const createDisplacementNoise = (
+  width: number,
+  height: number,
+  settings: ProcessingSettings,
+  frameIndex: number
+): DisplacementNoise => {
+  const { seed } = settings;
+  const noise = {
+    type: settings.noiseType,
+    octaves: settings.noiseOctaves,
+    cellSize: (settings.noiseScale / 100) * Math.max(width, height),
   };
 
+  return {
+    layersX: createNoiseLayers(width, height, createRng(deriveSeed(seed, frameIndex, 0)), noise),
+    layersY: createNoiseLayers(width, height, createRng(deriveSeed(seed, frameIndex, 1)), noise),
+    microX: deriveSeed(seed, frameIndex, 2, 0),
+    microY: deriveSeed(seed, frameIndex, 2, 1),
+    // Anisotropy trades shake between the axes: > 0 favors horizontal, < 0 vertical
+    gainX: Math.min(1, 1 + settings.noiseAnisotropy),
+    gainY: Math.min(1, 1 - settings.noiseAnisotropy),
+    grain: Math.max(1, Math.round(resolutionScale(width, height))),
+  };
+};
+
+/**
+ * Builds the displacement field for a frame: coarse noise plus micro-jitter.
+ * `rowStart`/`rowEnd` build just a band of rows, which tiles seamlessly with the others.
+ */
+export const createDisplacementField = (
+  width: number,
+  height: number,
+  settings: ProcessingSettings,
+  frameIndex: number,
+  rowStart = 0,
+  rowEnd = height
+): DisplacementField => {
+  const { layersX, layersY, microX, microY, gainX, gainY, grain } = createDisplacementNoise(width, height, settings, frameIndex);
+  const x = sampleNoiseLayers(layersX, width, rowStart, rowEnd);
+  const y = sampleNoiseLayers(layersY, width, rowStart, rowEnd);
+
+  // Micro-jitter is hashed per grain cell rather than drawn in sequence, so any band gets the same values
+  const grainCols = Math.ceil(width / grain);
+
+  for (let row = rowStart; row < rowEnd; row++) {
+    for (let col = 0; col < width; col++) {
+      const i = (row - rowStart) * width + col;
+      const cell = Math.floor(row / grain) * grainCols + Math.floor(col / grain);
+      x[i] = (x[i] + (hashToUnit(microX, cell) - 0.5) * 0.3) * gainX; // Small micro-jitter
+      y[i] = (y[i] + (hashToUnit(microY, cell) - 0.5) * 0.3) * gainY;
+    }
+  }
+
+  return { x, y };
+};
+
+/**
+ * Blends the flow basis fields into the field for one frame of the loop
+ */
+export const blendDisplacementFields = (bases: DisplacementField[], weights: number[]): DisplacementField => {
+  const length = bases[0].x.length;
+  const x = new Float32Array(length);
+  const y = new Float32Array(length);
+
+  bases.forEach((basis, b) => {
+    const w = weights[b];
+    for (let i = 0; i < length; i++) {
+      x[i] += basis.x[i] * w;
+      y[i] += basis.y[i] * w;
+    }
+  });
+
+  return { x, y };
+};
+
+/**
+ * The displacement field of one frame (or a band of its rows) in either motion mode.
+ * `basisField` supplies the flow basis fields, so callers can cache them.
+ */
+export const createFrameField = (
+  width: number,
+  height: number,
+  settings: ProcessingSettings,
+  frameIndex: number,
+  rowStart = 0,
+  rowEnd = height,
+  basisField = (b: number) => createDisplacementField(width, height, settings, FLOW_BASIS_FRAME + b, rowStart, rowEnd)
+): DisplacementField => {
+  if (settings.animationMode !== 'flow') {
+    return createDisplacementField(width, height, settings, frameIndex, rowStart, rowEnd);
+  }
+  // Flow frames are blends of a fixed set of basis fields, so only the weights change per frame
+  const bases = Array.from({ length: FLOW_BASIS_COUNT }, (_, b) => basisField(b));
+  return blendDisplacementFields(bases, flowWeights(settings, frameIndex));
+};
+
+/**
+ * Resolves, for every destination pixel, which source line pixel lands there
+ * (Backward Mapping, which prevents holes). -1 marks background.
+ * A field covering only a band of rows starting at `rowStart` maps just that band.
+ */
+export const mapSourcePixels = (
+  lineMask: Uint8Array,
+  field: DisplacementField,
+  width: number,
+  height: number,
+  jitterAmount: number,
+  rowStart = 0
+): Int32Array => {
+  const mapping = new Int32Array(field.x.length).fill(-1);
+  const rowEnd = rowStart + field.x.length / width;
+
+  for (let y = rowStart; y < rowEnd; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y - rowStart) * width + x;
+
+      // src = dst - distortion
+      const srcX = Math.round(x - field.x[i] * jitterAmount);
+      const srcY = Math.round(y - field.y[i] * jitterAmount);
+
+      if (srcX >= 0 && srcX < width && srcY >= 0 && srcY < height) {
+        const srcIdx = srcY * width + srcX;
+        if (lineMask[srcIdx] === 1) mapping[i] = srcIdx;
+      }
+    }
+  }
+
+  return mapping;
+};
+
+/**
+ * Estimates the paper color as the average of all non-line source pixels
+ */
+export const estimatePaperColor = (sourceData: RgbaImage, lineMask: Uint8Array) => {
+  const src = sourceData.data;
+  let r = 0, g = 0, b = 0, n = 0;
+  for (let i = 0; i < lineMask.length; i++) {
+    if (lineMask[i] === 1) continue;
+    r += src[i * 4];
+    g += src[i * 4 + 1];
+    b += src[i * 4 + 2];
+    n++;
+  }
+  return n === 0 ? { r: 255, g: 255, b: 255 } : { r: r / n, g: g / n, b: b / n };
+};
+
+/**
+ * Color decontamination: treats a pixel as ink blended over paper and recovers the ink
+ * color and its coverage, so anti-aliased fringes don't leave a paper-colored halo
+ */
+const unmixFromPaper = (
+  pixels: Uint8ClampedArray,
+  idx: number,
+  paper: { r: number; g: number; b: number }
+) => {
+  const coverage = (v: number, p: number) => (v > p ? (v - p) / (255 - p || 1) : (p - v) / (p || 1));
+  const alpha = Math.min(1, Math.max(
+    coverage(pixels[idx], paper.r),
+    coverage(pixels[idx + 1], paper.g),
+    coverage(pixels[idx + 2], paper.b)
+  ));
+  if (alpha === 0) return { r: 0, g: 0, b: 0, a: 0 };
+  return {
+    r: paper.r + (pixels[idx] - paper.r) / alpha,
+    g: paper.g + (pixels[idx + 1] - paper.g) / alpha,
+    b: paper.b + (pixels[idx + 2] - paper.b) / alpha,
+    a: alpha * 255,
+  };
+};
+
+/**
+ * Paints a mapped frame with line/background colors. With `transparentBg`, background
+ * pixels get alpha 0 and `paper` (when given) is used to strip halos from original colors.
+ * `style` (stroke styling) says where grown line pixels take their original color from
+ * and how much ink each holds: blended over the background color, or as alpha when transparent.
+ * `palette` is what the palette mode (if any) maps line colors onto, and `background`
+ * (covering the same rows as `mapping`) replaces the flat background color.
+ * A mapping for a band of rows yields an image of just that band.
+ */
+export const colorizeFrame = (
+  sourceData: RgbaImage,
+  mapping: Int32Array,
+  settings: ProcessingSettings,
+  paper?: { r: number; g: number; b: number },
+  style?: StyledMask,
+  palette: RGB[] = [],
+  background?: RgbaImage
+): RgbaImage => {
+  const { width, height } = sourceData;
+  const srcPixels = sourceData.data;
   const lineRGB = hexToRgb(settings.lineColor);
   const bgRGB = hexToRgb(settings.bgColor);
+  const bgAlpha = settings.transparentBg ? 0 : 255;
+  const unmix = settings.transparentBg && settings.antiHalo && settings.useOriginalColors && paper;
+  const colorSource = style?.colorSource;
+  const coverage = style?.coverage;
+  const recolor = createPaletteMapper(settings, palette, width, height);
 
-  for (let f = 0; f < settings.frameCount; f++) {
-    const newImageData = new ImageData(width, height);
-    const dstPixels = newImageData.data;
+  const bgPixels = background?.data;
 
-    // Generate noise maps for this frame
-    const mapX = createNoiseMap(width, height);
-    const mapY = createNoiseMap(width, height);
+  const output = createRgbaImage(width, mapping.length / width);
+  const dstPixels = output.data;
 
-    // Iterate over DESTINATION pixels
-    for (let y = 0; y < height; y++) {
-      for (let x = 0; x < width; x++) {
-        const dstIdx = getIdx(x, y);
-
-        // Find which source pixel lands here (Inverse Mapping)
-        // src = dst - distortion
-        // We add some per-pixel high-frequency noise here too
-        const noiseValX = mapX[y * width + x];
-        const noiseValY = mapY[y * width + x];
-        
-        const hfJitterX = (Math.random() - 0.5) * 0.3; // Small micro-jitter
-        const hfJitterY = (Math.random() - 0.5) * 0.3;
-
-        // The displacement vector
-        const dx = (noiseValX * settings.jitterAmount) + (hfJitterX * settings.jitterAmount);
-        const dy = (noiseValY * settings.jitterAmount) + (hfJitterY * settings.jitterAmount);
-
-        // Look backwards
-        const srcX = Math.round(x - dx);
-        const srcY = Math.round(y - dy);
-
-        let pixelFound = false;
-
-        // Check bounds
-        if (srcX >= 0 && srcX < width && srcY >= 0 && srcY < height) {
-           const srcMaskIdx = srcY * width + srcX;
-           
-           if (lineMask[srcMaskIdx] === 1) {
-             pixelFound = true;
-             
-             // Get color from Source
-             const srcPixelIdx = (srcY * width + srcX) * 4;
-             
-             if (settings.useOriginalColors) {
-               dstPixels[dstIdx] = srcPixels[srcPixelIdx];
-               dstPixels[dstIdx+1] = srcPixels[srcPixelIdx+1];
-               dstPixels[dstIdx+2] = srcPixels[srcPixelIdx+2];
-               dstPixels[dstIdx+3] = 255;
-             } else {
-               dstPixels[dstIdx] = lineRGB.r;
-               dstPixels[dstIdx+1] = lineRGB.g;
-               dstPixels[dstIdx+2] = lineRGB.b;
-               dstPixels[dstIdx+3] = 255;
-             }
-           }
-        }
+  for (let i = 0; i < mapping.length; i++) {
+    const dstIdx = i * 4;
+    const srcIdx = mapping[i];
 
-        // Background fallback
-        if (!pixelFound) {
-          dstPixels[dstIdx] = bgRGB.r;
-          dstPixels[dstIdx+1] = bgRGB.g;
-          dstPixels[dstIdx+2] = bgRGB.b;
-          dstPixels[dstIdx+3] = 255;
-        }
+    if (srcIdx < 0 && bgPixels) {
+      dstPixels[dstIdx] = bgPixels[dstIdx];
+      dstPixels[dstIdx+1] = bgPixels[dstIdx+1];
+      dstPixels[dstIdx+2] = bgPixels[dstIdx+2];
+      dstPixels[dstIdx+3] = 255;
+    } else if (srcIdx < 0) {
+      dstPixels[dstIdx] = bgRGB.r;
+      dstPixels[dstIdx+1] = bgRGB.g;
+      dstPixels[dstIdx+2] = bgRGB.b;
+      dstPixels[dstIdx+3] = bgAlpha;
+    } else if (unmix) {
+      const ink = unmixFromPaper(srcPixels, (colorSource ? colorSource[srcIdx] : srcIdx) * 4, paper);
+      dstPixels[dstIdx] = ink.r;
+      dstPixels[dstIdx+1] = ink.g;
+      dstPixels[dstIdx+2] = ink.b;
+      dstPixels[dstIdx+3] = ink.a;
+    } else if (settings.useOriginalColors) {
+      const srcPixelIdx = (colorSource ? colorSource[srcIdx] : srcIdx) * 4;
+      dstPixels[dstIdx] = srcPixels[srcPixelIdx];
+      dstPixels[dstIdx+1] = srcPixels[srcPixelIdx+1];
+      dstPixels[dstIdx+2] = srcPixels[srcPixelIdx+2];
+      dstPixels[dstIdx+3] = 255;
+    } else {
+      dstPixels[dstIdx] = lineRGB.r;
+      dstPixels[dstIdx+1] = lineRGB.g;
+      dstPixels[dstIdx+2] = lineRGB.b;
+      dstPixels[dstIdx+3] = 255;
+    }
+
+    if (recolor && srcIdx >= 0) {
+      const [r, g, b] = recolor(dstPixels[dstIdx], dstPixels[dstIdx+1], dstPixels[dstIdx+2], srcIdx);
+      dstPixels[dstIdx] = r;
+      dstPixels[dstIdx+1] = g;
+      dstPixels[dstIdx+2] = b;
+    }
+
+    if (coverage && srcIdx >= 0 && coverage[srcIdx] < 255) {
+      const c = coverage[srcIdx] / 255;
+      if (settings.transparentBg) {
+        dstPixels[dstIdx+3] *= c;
+      } else if (bgPixels) {
+        dstPixels[dstIdx] = bgPixels[dstIdx] + (dstPixels[dstIdx] - bgPixels[dstIdx]) * c;
+        dstPixels[dstIdx+1] = bgPixels[dstIdx+1] + (dstPixels[dstIdx+1] - bgPixels[dstIdx+1]) * c;
+        dstPixels[dstIdx+2] = bgPixels[dstIdx+2] + (dstPixels[dstIdx+2] - bgPixels[dstIdx+2]) * c;
+      } else {
+        dstPixels[dstIdx] = bgRGB.r + (dstPixels[dstIdx] - bgRGB.r) * c;
+        dstPixels[dstIdx+1] = bgRGB.g + (dstPixels[dstIdx+1] - bgRGB.g) * c;
+        dstPixels[dstIdx+2] = bgRGB.b + (dstPixels[dstIdx+2] - bgRGB.b) * c;
       }
     }
-    frames.push(newImageData);
   }
 
-  return frames;
+  return output;
+};
+
+interface CacheEntry<T> {
+  key: string;
+  value: T;
+}
+
+/**
+ * Returns the cached value if its key still matches, otherwise recomputes and stores it
+ */
+const memo = <T>(entries: Map<number, CacheEntry<T>>, slot: number, key: string, compute: () => T): T => {
+  const hit = entries.get(slot);
+  if (hit && hit.key === key) return hit.value;
+  const value = compute();
+  entries.set(slot, { key, value });
+  return value;
+};
+
+/**
+ * Caches each pipeline stage keyed by the settings it depends on:
+ * source pixels → line mask → styled mask → displacement fields (or strokes) → source mapping → colorized frames.
+ * Flow mode adds a layer of loop basis fields under the displacement fields, and a
+ * background style a painted sheet under the colorized frames.
+ * A change only recomputes the stages downstream of it, e.g. recoloring reuses every
+ * mapping and a threshold change reuses the noise fields.
+ * An animated source draws output frame N from source frame N, each with its own line
+ * mask; its frames are loaded on demand and only one is held at a time.
+ * Settings are taken relative to image size and converted to pixels for the source.
+ */
+export const createRenderPipeline = () => {
+  let source: { key: string; count: number; width: number; height: number; load: (index: number) => RgbaImage } | null = null;
+  const sourceFrames = new Map<number, CacheEntry<RgbaImage>>();
+  const masks = new Map<number, CacheEntry<Uint8Array>>();
+  const styledMasks = new Map<number, CacheEntry<StyledMask>>();
+  const fields = new Map<number, CacheEntry<DisplacementField>>();
+  const flowBases = new Map<number, CacheEntry<DisplacementField>>();
+  const mappings = new Map<number, CacheEntry<Int32Array>>();
+  const frames = new Map<number, CacheEntry<RgbaImage>>();
+  const papers = new Map<number, CacheEntry<{ r: number; g: number; b: number }>>();
+  const strokeAnalyses = new Map<number, CacheEntry<StrokeAnalysis>>();
+  const palettes = new Map<number, CacheEntry<RGB[]>>();
+  const sheets = new Map<number, CacheEntry<RgbaImage>>();
+  // Imported background texture, used by the 'texture' background style
+  let texture: { key: string; image: RgbaImage } | null = null;
+
+  const currentSource = () => {
+    if (!source) throw new Error('Render pipeline has no source image');
+    return source;
+  };
+
+  // Source frame that output frame `frameIndex` is drawn from
+  const sourceKey = (frameIndex: number) => {
+    const { key, count } = currentSource();
+    return `${key}#${frameIndex % count}`;
+  };
+
+  /**
+   * The source pixels behind output frame `frameIndex` (for exporters that work from
+   * the mask rather than frames)
+   */
+  const sourcePixels = (frameIndex = 0): RgbaImage => {
+    const { count, load } = currentSource();
+    return memo(sourceFrames, 0, sourceKey(frameIndex), () => load(frameIndex % count));
+  };
+
+  /**
+   * `settings` converted to pixels for the current source size
+   */
+  const pixelSettings = (settings: ProcessingSettings): ProcessingSettings => {
+    const { width, height } = currentSource();
+    return toPixelSettings(settings, width, height);
+  };
+
+  // Stages below take settings already converted with pixelSettings
+  const keys = (px: ProcessingSettings, frameIndex: number) => {
+    const { width, height } = currentSource();
+    const mask = [
+      sourceKey(frameIndex),
+      px.detectionMode,
+      px.threshold,
+      px.edgeBlur,
+      px.cannyLow,
+      px.cannyHigh,
+      px.xdogSigma,
+      px.xdogSharpness,
+      px.adaptiveRadius,
+      px.adaptiveOffset,
+    ].join('|');
+    // The seed only moves the texture, so it's left out when there is none
+    const style = [
+      mask,
+      px.lineWeight,
+      px.taperLength,
+      px.strokeTexture,
+      px.strokeTexture === 'none' ? '' : `${px.textureStrength}|${px.seed}`,
+    ].join('|');
+    const noise = [
+      `${width}x${height}`,
+      px.seed,
+      px.noiseType,
+      px.noiseOctaves,
+      px.noiseScale,
+      px.noiseAnisotropy,
+    ].join('|');
+    const motion = px.animationMode === 'flow'
+      ? `flow|${px.frameCount}|${px.flowSmoothness}`
+      : 'boil';
+    const field = `${noise}|${motion}|${frameIndex}`;
+    const mapping = `${style}|${field}|${px.jitterAmount}|${px.jitterMode}`;
+    const palette = px.paletteMode === 'off' ? 'off' : [
+      px.paletteMode,
+      px.paletteMode === 'extracted' ? px.paletteSize : px.paletteColors.join(','),
+      px.paletteMode === 'gradient' ? px.gradientDirection : '',
+    ].join('|');
+    const sheet = [
+      `${width}x${height}`,
+      px.bgColor,
+      px.backgroundStyle,
+      px.backgroundStrength,
+      px.backgroundStyle === 'texture' ? texture?.key ?? '' : '',
+    ].join('|');
+    const background = hasBackground(px)
+      ? `${sheet}|${px.underlayOpacity}|${px.underlayDesaturation}|${px.underlayJitter}`
+      : 'none';
+    const frame = [
+      mapping,
+      px.useOriginalColors,
+      px.lineColor,
+      px.bgColor,
+      px.transparentBg,
+      px.antiHalo,
+      palette,
+      background,
+    ].join('|');
+    return { mask, style, noise, field, mapping, sheet, frame };
+  };
+
+  /**
+   * Sets an animated source of `count` frames for `key`, replacing the current one only
+   * if the key changed. All frames must share the first frame's size.
+   */
+  const setSourceFrames = (key: string, count: number, load: (index: number) => RgbaImage) => {
+    if (source?.key === key) return;
+    const first = load(0);
+    source = { key, count, width: first.width, height: first.height, load };
+    sourceFrames.set(0, { key: sourceKey(0), value: first });
+  };
+
+  /**
+   * Sets the source pixels for `key`, loading them only if the key changed
+   */
+  const setSource = (key: string, load: () => RgbaImage) => setSourceFrames(key, 1, load);
+
+  const hasSource = (key: string) => source?.key === key;
+
+  /**
+   * Sets the imported background texture for `key`, loading it only if the key changed;
+   * a null key clears it
+   */
+  const setBackgroundTexture = (key: string | null, load?: () => RgbaImage) => {
+    if ((texture?.key ?? null) === key) return;
+    texture = key !== null && load ? { key, image: load() } : null;
+  };
+
+  const maskStage = (px: ProcessingSettings, frameIndex: number): Uint8Array =>
+    memo(masks, 0, keys(px, frameIndex).mask, () => buildScaledLineMask(sourcePixels(frameIndex), px));
+
+  const styleStage = (px: ProcessingSettings, frameIndex: number): StyledMask => {
+    const { width, height } = currentSource();
+    return memo(styledMasks, 0, keys(px, frameIndex).style, () =>
+      styleLineMask(maskStage(px, frameIndex), width, height, px, resolutionScale(width, height))
+    );
+  };
+
+  // Paper is judged on the detected mask, before styling grows or textures the lines
+  const paperStage = (px: ProcessingSettings, frameIndex: number) =>
+    memo(papers, 0, keys(px, frameIndex).mask, () =>
+      estimatePaperColor(sourcePixels(frameIndex), maskStage(px, frameIndex))
+    );
+
+  const strokeStage = (px: ProcessingSettings, frameIndex: number): StrokeAnalysis => {
+    const { width, height } = currentSource();
+    return memo(strokeAnalyses, 0, keys(px, frameIndex).style, () =>
+      analyzeStrokes(styleStage(px, frameIndex).mask, width, height)
+    );
+  };
+
+  const fieldStage = (px: ProcessingSettings, frameIndex: number): DisplacementField => {
+    const { width, height } = currentSource();
+    const k = keys(px, frameIndex);
+    return memo(fields, frameIndex, k.field, () =>
+      createFrameField(width, height, px, frameIndex, 0, height, (b) =>
+        memo(flowBases, b, k.noise, () => createDisplacementField(width, height, px, FLOW_BASIS_FRAME + b))
+      )
+    );
+  };
+
+  // Extracted colors come from the first frame at preview size, so the preview, exports
+  // and every frame of an animated source share one palette
+  const paletteStage = (settings: ProcessingSettings): RGB[] => {
+    if (settings.paletteMode !== 'extracted') return settings.paletteColors.map(hexToRgbTuple);
+    return memo(palettes, 0, `${keys(pixelSettings(settings), 0).mask}|${settings.paletteSize}`, () =>
+      extractPaletteForPixels(sourcePixels(0), settings, settings.paletteSize)
+    );
+  };
+
+  const sheetStage = (px: ProcessingSettings): RgbaImage => {
+    const { width, height } = currentSource();
+    return memo(sheets, 0, keys(px, 0).sheet, () =>
+      paintSheet(width, height, px, texture?.image ?? null, resolutionScale(width, height))
+    );
+  };
+
+  // The painted sheet with the ghost underlay on top, when there's anything besides the flat color
+  const backgroundStage = (px: ProcessingSettings, frameIndex: number): RgbaImage | undefined => {
+    if (!hasBackground(px)) return undefined;
+    const sheet = sheetStage(px);
+    if (px.underlayOpacity === 0) return sheet;
+    return paintUnderlay(sheet, sourcePixels(frameIndex), px, 0, px.underlayJitter > 0 ? fieldStage(px, frameIndex) : undefined);
+  };
+
+  /**
+   * Rows `rowStart`..`rowEnd` of the background, painted without caching. `field` is the
+   * frame's displacement field for those rows, if already at hand.
+   */
+  const backgroundBand = (
+    px: ProcessingSettings,
+    frameIndex: number,
+    rowStart: number,
+    rowEnd: number,
+    field?: DisplacementField
+  ): RgbaImage | undefined => {
+    if (!hasBackground(px)) return undefined;
+    const { width, height } = currentSource();
+    const sheet = paintSheet(width, height, px, texture?.image ?? null, resolutionScale(width, height), rowStart, rowEnd);
+    if (px.underlayOpacity === 0) return sheet;
+    const underlayField = px.underlayJitter > 0
+      ? field ?? createFrameField(width, height, px, frameIndex, rowStart, rowEnd)
+      : undefined;
+    return paintUnderlay(sheet, sourcePixels(frameIndex), px, rowStart, underlayField);
+  };
+
+  const paperFor = (px: ProcessingSettings, frameIndex: number) =>
+    px.transparentBg && px.antiHalo ? paperStage(px, frameIndex) : undefined;
+
+  const frameStage = (px: ProcessingSettings, frameIndex: number, palette: RGB[]): RgbaImage => {
+    const { width, height } = currentSource();
+    const k = keys(px, frameIndex);
+
+    return memo(frames, frameIndex, k.frame, () => {
+      const mapping = memo(mappings, frameIndex, k.mapping, () =>
+        px.jitterMode === 'stroke'
+          ? mapStrokes(strokeStage(px, frameIndex), width, height, px, frameIndex)
+          : mapSourcePixels(styleStage(px, frameIndex).mask, fieldStage(px, frameIndex), width, height, px.jitterAmount)
+      );
+      return colorizeFrame(
+        sourcePixels(frameIndex), mapping, px, paperFor(px, frameIndex), styleStage(px, frameIndex), palette,
+        backgroundStage(px, frameIndex)
+      );
+    });
+  };
+
+  /**
+   * Renders a frame band by band, bypassing the field, mapping and frame caches, so
+   * memory stays near one output frame even for very large exports
+   */
+  const tiledFrameStage = (px: ProcessingSettings, frameIndex: number, palette: RGB[]): RgbaImage => {
+    const { width, height } = currentSource();
+    const paper = paperFor(px, frameIndex);
+    const style = styleStage(px, frameIndex);
+
+    if (px.jitterMode === 'stroke') {
+      const mapping = mapStrokes(strokeStage(px, frameIndex), width, height, px, frameIndex);
+      return colorizeFrame(sourcePixels(frameIndex), mapping, px, paper, style, palette, backgroundBand(px, frameIndex, 0, height));
+    }
+
+    const sourceData = sourcePixels(frameIndex);
+    const output = createRgbaImage(width, height);
+    const bandRows = Math.max(1, Math.floor(TILE_PIXELS / width));
+
+    for (let rowStart = 0; rowStart < height; rowStart += bandRows) {
+      const rowEnd = Math.min(height, rowStart + bandRows);
+      const field = createFrameField(width, height, px, frameIndex, rowStart, rowEnd);
+      const mapping = mapSourcePixels(style.mask, field, width, height, px.jitterAmount, rowStart);
+      const background = backgroundBand(px, frameIndex, rowStart, rowEnd, field);
+      output.data.set(colorizeFrame(sourceData, mapping, px, paper, style, palette, background).data, rowStart * width * 4);
+    }
+
+    return output;
+  };
+
+  // The lines as drawn, after stroke styling
+  const lineMask = (settings: ProcessingSettings, frameIndex = 0) => styleStage(pixelSettings(settings), frameIndex).mask;
+  const strokes = (settings: ProcessingSettings, frameIndex = 0) => strokeStage(pixelSettings(settings), frameIndex);
+  const displacementField = (settings: ProcessingSettings, frameIndex: number) =>
+    fieldStage(pixelSettings(settings), frameIndex);
+  // The colors the palette mode maps lines onto
+  const linePalette = (settings: ProcessingSettings) => paletteStage(settings);
+  const frame = (settings: ProcessingSettings, frameIndex: number) =>
+    frameStage(pixelSettings(settings), frameIndex, paletteStage(settings));
+  const tiledFrame = (settings: ProcessingSettings, frameIndex: number) =>
+    tiledFrameStage(pixelSettings(settings), frameIndex, paletteStage(settings));
+
+  return {
+    setSource,
+    setSourceFrames,
+    hasSource,
+    setBackgroundTexture,
+    sourcePixels,
+    pixelSettings,
+    lineMask,
+    strokes,
+    linePalette,
+    displacementField,
+    frame,
+    tiledFrame,
+  };
 };
+
+export type RenderPipeline = ReturnType<typeof createRenderPipeline>;
+
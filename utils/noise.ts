@@ -0,0 +1,225 @@
+import { NoiseType } from '../types';
+import { Rng } from './random';
+
+/**
+ * 2D noise sampled in lattice units, returning roughly -1..1
+ */
+export type Noise2D = (x: number, y: number) => number;
+
+export interface NoiseFieldOptions {
+  type: NoiseType;
+  octaves: number;
+  cellSize: number; // Pixels per lattice cell of the first octave
+}
+
+/**
+ * One octave of a noise map, with the random table behind it so the GPU renderer can
+ * sample the very same noise
+ */
+export interface NoiseLayer {
+  noise: Noise2D;
+  // Value noise: the cols × rows lattice of -1..1. Perlin/simplex: the doubled permutation.
+  table: Float32Array | Uint8Array;
+  cols: number;
+  rows: number;
+  scale: number; // Lattice units per pixel
+  amplitude: number;
+}
+
+/**
+ * A random grid of cols × rows lattice values in -1..1
+ */
+const createValueGrid = (cols: number, rows: number, rng: Rng): Float32Array => {
+  const grid = new Float32Array(cols * rows);
+  for (let i = 0; i < grid.length; i++) {
+    grid[i] = (rng() - 0.5) * 2; // -1 to 1
+  }
+  return grid;
+};
+
+/**
+ * Bilinear value noise over an explicit random grid of cols × rows lattice points
+ */
+const createValueNoise = (grid: Float32Array, cols: number, rows: number): Noise2D => {
+  return (x, y) => {
+    const xi = Math.min(cols - 2, Math.floor(x));
+    const yi = Math.min(rows - 2, Math.floor(y));
+    const tx = x - xi;
+    const ty = y - yi;
+
+    const c00 = grid[yi * cols + xi];
+    const c10 = grid[yi * cols + (xi + 1)];
+    const c01 = grid[(yi + 1) * cols + xi];
+    const c11 = grid[(yi + 1) * cols + (xi + 1)];
+
+    const top = c00 + (c10 - c00) * tx;
+    const bottom = c01 + (c11 - c01) * tx;
+    return top + (bottom - top) * ty;
+  };
+};
+
+/**
+ * A seeded permutation table, doubled to avoid wrapping indices
+ */
+const createPermutation = (rng: Rng): Uint8Array => {
+  const p = new Uint8Array(256);
+  for (let i = 0; i < 256; i++) p[i] = i;
+  for (let i = 255; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    const tmp = p[i];
+    p[i] = p[j];
+    p[j] = tmp;
+  }
+  const perm = new Uint8Array(512);
+  for (let i = 0; i < 512; i++) perm[i] = p[i & 255];
+  return perm;
+};
+
+const GRADIENTS_2D = [
+  [1, 0], [-1, 0], [0, 1], [0, -1],
+  [Math.SQRT1_2, Math.SQRT1_2], [-Math.SQRT1_2, Math.SQRT1_2],
+  [Math.SQRT1_2, -Math.SQRT1_2], [-Math.SQRT1_2, -Math.SQRT1_2],
+];
+
+const fade = (t: number) => t * t * t * (t * (t * 6 - 15) + 10);
+
+/**
+ * Classic Perlin gradient noise
+ */
+const createPerlinNoise = (perm: Uint8Array): Noise2D => {
+  const dot = (hash: number, x: number, y: number) => {
+    const g = GRADIENTS_2D[hash & 7];
+    return g[0] * x + g[1] * y;
+  };
+
+  return (x, y) => {
+    const xf = Math.floor(x);
+    const yf = Math.floor(y);
+    const xi = xf & 255;
+    const yi = yf & 255;
+    const tx = x - xf;
+    const ty = y - yf;
+
+    const n00 = dot(perm[xi + perm[yi]], tx, ty);
+    const n10 = dot(perm[xi + 1 + perm[yi]], tx - 1, ty);
+    const n01 = dot(perm[xi + perm[yi + 1]], tx, ty - 1);
+    const n11 = dot(perm[xi + 1 + perm[yi + 1]], tx - 1, ty - 1);
+
+    const u = fade(tx);
+    const v = fade(ty);
+    const top = n00 + (n10 - n00) * u;
+    const bottom = n01 + (n11 - n01) * u;
+    // 2D Perlin peaks at ±√½; rescale to roughly ±1
+    return (top + (bottom - top) * v) * Math.SQRT2;
+  };
+};
+
+const F2 = 0.5 * (Math.sqrt(3) - 1);
+const G2 = (3 - Math.sqrt(3)) / 6;
+
+/**
+ * 2D simplex noise: fewer directional artifacts than Perlin
+ */
+const createSimplexNoise = (perm: Uint8Array): Noise2D => {
+  const corner = (hash: number, x: number, y: number) => {
+    const t = 0.5 - x * x - y * y;
+    if (t < 0) return 0;
+    const g = GRADIENTS_2D[hash & 7];
+    return t * t * t * t * (g[0] * x + g[1] * y);
+  };
+
+  return (x, y) => {
+    const s = (x + y) * F2;
+    const i = Math.floor(x + s);
+    const j = Math.floor(y + s);
+    const t = (i + j) * G2;
+    const x0 = x - (i - t);
+    const y0 = y - (j - t);
+
+    const i1 = x0 > y0 ? 1 : 0;
+    const j1 = x0 > y0 ? 0 : 1;
+    const x1 = x0 - i1 + G2;
+    const y1 = y0 - j1 + G2;
+    const x2 = x0 - 1 + 2 * G2;
+    const y2 = y0 - 1 + 2 * G2;
+
+    const ii = i & 255;
+    const jj = j & 255;
+    const n0 = corner(perm[ii + perm[jj]], x0, y0);
+    const n1 = corner(perm[ii + i1 + perm[jj + j1]], x1, y1);
+    const n2 = corner(perm[ii + 1 + perm[jj + 1]], x2, y2);
+
+    return 70 * (n0 + n1 + n2);
+  };
+};
+
+/**
+ * The octaves of fractal noise over a width × height image: each octave doubles the
+ * frequency and halves the amplitude
+ */
+export const createNoiseLayers = (
+  width: number,
+  height: number,
+  rng: Rng,
+  options: NoiseFieldOptions
+): NoiseLayer[] => {
+  const octaves = Math.max(1, Math.round(options.octaves));
+  const cellSize = Math.max(1, options.cellSize);
+
+  const layers: NoiseLayer[] = [];
+
+  for (let o = 0; o < octaves; o++) {
+    const frequency = 2 ** o;
+    const amplitude = 0.5 ** o;
+    const cols = Math.ceil((width / cellSize) * frequency) + 1;
+    const rows = Math.ceil((height / cellSize) * frequency) + 1;
+
+    let layer: Pick<NoiseLayer, 'noise' | 'table'>;
+    if (options.type === 'value') {
+      const grid = createValueGrid(cols, rows, rng);
+      layer = { noise: createValueNoise(grid, cols, rows), table: grid };
+    } else {
+      const perm = createPermutation(rng);
+      layer = { noise: options.type === 'perlin' ? createPerlinNoise(perm) : createSimplexNoise(perm), table: perm };
+    }
+
+    layers.push({ ...layer, cols, rows, scale: frequency / cellSize, amplitude });
+  }
+
+  return layers;
+};
+
+/**
+ * Sums the layers over rows `rowStart`..`rowEnd` of a `width`-wide image, normalized
+ * back to roughly -1..1
+ */
+export const sampleNoiseLayers = (layers: NoiseLayer[], width: number, rowStart: number, rowEnd: number): Float32Array => {
+  const map = new Float32Array(width * (rowEnd - rowStart));
+  const totalAmplitude = layers.reduce((sum, layer) => sum + layer.amplitude, 0);
+
+  for (let y = rowStart; y < rowEnd; y++) {
+    for (let x = 0; x < width; x++) {
+      let value = 0;
+      for (const layer of layers) {
+        value += layer.noise(x * layer.scale, y * layer.scale) * layer.amplitude;
+      }
+      map[(y - rowStart) * width + x] = value / totalAmplitude;
+    }
+  }
+
+  return map;
+};
+
+/**
+ * Fills a width × height map with fractal noise (see createNoiseLayers).
+ * `rowStart`/`rowEnd` limit the result to a band of rows; the lattice still spans the
+ * whole image, so bands tile seamlessly.
+ */
+export const createNoiseMap = (
+  width: number,
+  height: number,
+  rng: Rng,
+  options: NoiseFieldOptions,
+  rowStart = 0,
+  rowEnd = height
+): Float32Array => sampleNoiseLayers(createNoiseLayers(width, height, rng, options), width, rowStart, rowEnd);
@@ -0,0 +1,337 @@
+import { GradientDirection, ProcessingSettings, RgbaImage } from '../types';
+
+export type RGB = [number, number, number];
+
+export const hexToRgbTuple = (hex: string): RGB => [
+  parseInt(hex.slice(1, 3), 16),
+  parseInt(hex.slice(3, 5), 16),
+  parseInt(hex.slice(5, 7), 16),
+];
+
+export const rgbTupleToHex = ([r, g, b]: RGB) =>
+  '#' + [r, g, b].map(v => Math.round(v).toString(16).padStart(2, '0')).join('');
+
+const packRgb = (r: number, g: number, b: number) => (r << 16) | (g << 8) | b;
+
+// Indexed formats only have on/off transparency; pixels below this alpha are dropped
+export const ALPHA_CUTOFF = 128;
+
+interface ColorBox {
+  colors: number[]; // packed RGB
+  counts: number[];
+}
+
+const channel = (packed: number, c: number) => (packed >> (16 - c * 8)) & 0xFF;
+
+const unpackRgb = (packed: number): RGB => [channel(packed, 0), channel(packed, 1), channel(packed, 2)];
+
+// Most swatches a line palette holds, extracted or user-defined
+export const MAX_PALETTE_COLORS = 16;
+
+// Lloyd iterations that refine a median cut into k-means clusters
+const KMEANS_ITERATIONS = 4;
+
+/**
+ * Splits the most spread box along its widest channel until `target` boxes exist
+ */
+const medianCut = (colors: number[], counts: number[], target: number): RGB[] => {
+  const boxes: ColorBox[] = [{ colors, counts }];
+
+  while (boxes.length < target) {
+    let bestBox = -1;
+    let bestChannel = 0;
+    let bestRange = 0;
+
+    boxes.forEach((box, i) => {
+      if (box.colors.length < 2) return;
+      for (let c = 0; c < 3; c++) {
+        let min = 255, max = 0;
+        for (const color of box.colors) {
+          const v = channel(color, c);
+          if (v < min) min = v;
+          if (v > max) max = v;
+        }
+        if (max - min > bestRange) {
+          bestRange = max - min;
+          bestBox = i;
+          bestChannel = c;
+        }
+      }
+    });
+
+    if (bestBox === -1) break;
+
+    const box = boxes[bestBox];
+    const order = box.colors.map((_, i) => i).sort((a, b) =>
+      channel(box.colors[a], bestChannel) - channel(box.colors[b], bestChannel) || box.colors[a] - box.colors[b]
+    );
+
+    // Split at the weighted median so busy colors get their own boxes
+    const total = box.counts.reduce((a, b) => a + b, 0);
+    let acc = 0;
+    let split = 1;
+    for (let i = 0; i < order.length - 1; i++) {
+      acc += box.counts[order[i]];
+      if (acc >= total / 2) {
+        split = i + 1;
+        break;
+      }
+    }
+
+    const left = order.slice(0, split);
+    const right = order.slice(split);
+    boxes.splice(bestBox, 1,
+      { colors: left.map(i => box.colors[i]), counts: left.map(i => box.counts[i]) },
+      { colors: right.map(i => box.colors[i]), counts: right.map(i => box.counts[i]) }
+    );
+  }
+
+  return boxes.map((box) => {
+    let r = 0, g = 0, b = 0, n = 0;
+    box.colors.forEach((color, i) => {
+      const w = box.counts[i];
+      r += channel(color, 0) * w;
+      g += channel(color, 1) * w;
+      b += channel(color, 2) * w;
+      n += w;
+    });
+    return [Math.round(r / n), Math.round(g / n), Math.round(b / n)] as RGB;
+  });
+};
+
+/**
+ * Builds one palette shared by all frames. `fixedColors` (e.g. line and background
+ * color) always get exact entries; the remaining slots come from a median cut over
+ * the other colors, so flat line art usually keeps every color exactly.
+ */
+export const buildPalette = (frames: RgbaImage[], fixedColors: RGB[], maxColors: number): RGB[] => {
+  const fixed = new Set(fixedColors.map(([r, g, b]) => packRgb(r, g, b)));
+  const histogram = new Map<number, number>();
+
+  for (const frame of frames) {
+    const data = frame.data;
+    for (let i = 0; i < data.length; i += 4) {
+      if (data[i + 3] < ALPHA_CUTOFF) continue; // Becomes the transparent index
+      const packed = packRgb(data[i], data[i + 1], data[i + 2]);
+      if (fixed.has(packed)) continue;
+      histogram.set(packed, (histogram.get(packed) ?? 0) + 1);
+    }
+  }
+
+  const palette: RGB[] = Array.from(fixed, unpackRgb);
+  const free = Math.max(0, maxColors - palette.length);
+  if (free === 0 || histogram.size === 0) return palette;
+
+  // Sorted keys keep the result independent of Map insertion order
+  const colors = Array.from(histogram.keys()).sort((a, b) => a - b);
+  if (colors.length <= free) {
+    return palette.concat(colors.map(unpackRgb));
+  }
+
+  return palette.concat(medianCut(colors, colors.map(c => histogram.get(c)!), free));
+};
+
+/**
+ * Returns a nearest-color lookup for `palette`, memoized per input color.
+ * `excludeIndex` (e.g. a transparent slot) is never matched.
+ */
+export const createColorMatcher = (palette: RGB[], excludeIndex?: number) => {
+  const cache = new Map<number, number>();
+
+  return (r: number, g: number, b: number): number => {
+    const packed = packRgb(r, g, b);
+    const hit = cache.get(packed);
+    if (hit !== undefined) return hit;
+
+    let best = 0;
+    let bestDist = Infinity;
+    for (let i = 0; i < palette.length; i++) {
+      if (i === excludeIndex) continue;
+      const [pr, pg, pb] = palette[i];
+      const d = (pr - r) ** 2 + (pg - g) ** 2 + (pb - b) ** 2;
+      if (d < bestDist) {
+        bestDist = d;
+        best = i;
+        if (d === 0) break;
+      }
+    }
+    cache.set(packed, best);
+    return best;
+  };
+};
+
+/**
+ * Maps a frame onto palette indices, optionally with Floyd–Steinberg dithering.
+ * With `transparentIndex`, pixels below ALPHA_CUTOFF map to it.
+ */
+export const indexFrame = (
+  frame: RgbaImage,
+  palette: RGB[],
+  dither: boolean,
+  transparentIndex?: number
+): Uint8Array => {
+  const { width, height, data } = frame;
+  const match = createColorMatcher(palette, transparentIndex);
+  const indices = new Uint8Array(width * height);
+  const isTransparent = (i: number) => transparentIndex !== undefined && data[i * 4 + 3] < ALPHA_CUTOFF;
+
+  if (!dither) {
+    for (let i = 0; i < indices.length; i++) {
+      indices[i] = isTransparent(i) ? transparentIndex! : match(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]);
+    }
+    return indices;
+  }
+
+  const work = new Float32Array(width * height * 3);
+  for (let i = 0; i < indices.length; i++) {
+    work[i * 3] = data[i * 4];
+    work[i * 3 + 1] = data[i * 4 + 1];
+    work[i * 3 + 2] = data[i * 4 + 2];
+  }
+
+  const spread = (x: number, y: number, er: number, eg: number, eb: number, weight: number) => {
+    if (x < 0 || x >= width || y >= height) return;
+    const j = (y * width + x) * 3;
+    work[j] += er * weight;
+    work[j + 1] += eg * weight;
+    work[j + 2] += eb * weight;
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (isTransparent(i)) {
+        indices[i] = transparentIndex!;
+        continue;
+      }
+      const r = Math.min(255, Math.max(0, Math.round(work[i * 3])));
+      const g = Math.min(255, Math.max(0, Math.round(work[i * 3 + 1])));
+      const b = Math.min(255, Math.max(0, Math.round(work[i * 3 + 2])));
+      const index = match(r, g, b);
+      indices[i] = index;
+
+      const [pr, pg, pb] = palette[index];
+      const er = r - pr, eg = g - pg, eb = b - pb;
+      spread(x + 1, y, er, eg, eb, 7 / 16);
+      spread(x - 1, y + 1, er, eg, eb, 3 / 16);
+      spread(x, y + 1, er, eg, eb, 5 / 16);
+      spread(x + 1, y + 1, er, eg, eb, 1 / 16);
+    }
+  }
+
+  return indices;
+};
+
+const luma = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b;
+
+/**
+ * Moves each center to the weighted mean of the histogram colors nearest to it
+ */
+const refineKMeans = (colors: number[], counts: number[], centers: RGB[]): RGB[] => {
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    const match = createColorMatcher(centers);
+    const sums = new Float64Array(centers.length * 4);
+    colors.forEach((color, i) => {
+      const r = channel(color, 0), g = channel(color, 1), b = channel(color, 2);
+      const k = match(r, g, b) * 4;
+      sums[k] += r * counts[i];
+      sums[k + 1] += g * counts[i];
+      sums[k + 2] += b * counts[i];
+      sums[k + 3] += counts[i];
+    });
+    centers = centers.map((center, k) => {
+      const n = sums[k * 4 + 3];
+      return n === 0 ? center : [Math.round(sums[k * 4] / n), Math.round(sums[k * 4 + 1] / n), Math.round(sums[k * 4 + 2] / n)];
+    });
+  }
+  return centers;
+};
+
+/**
+ * The `count` main colors of the pixels under `mask`: a median cut refined by k-means,
+ * ordered dark to light so it reads as a ramp too. Pixels count more the further they
+ * are from `paper`, so anti-aliased fringes and paper caught by the mask don't take slots.
+ */
+export const extractPalette = (source: RgbaImage, mask: Uint8Array, count: number, paper: RGB): RGB[] => {
+  const data = source.data;
+  const [pr, pg, pb] = paper;
+  const histogram = new Map<number, number>();
+  for (let i = 0; i < mask.length; i++) {
+    if (mask[i] !== 1) continue;
+    const r = data[i * 4], g = data[i * 4 + 1], b = data[i * 4 + 2];
+    const distance = ((r - pr) ** 2 + (g - pg) ** 2 + (b - pb) ** 2) / (3 * 255 * 255);
+    if (distance === 0) continue;
+    const packed = packRgb(r, g, b);
+    histogram.set(packed, (histogram.get(packed) ?? 0) + distance * distance);
+  }
+
+  const colors = Array.from(histogram.keys()).sort((a, b) => a - b);
+  const counts = colors.map(c => histogram.get(c)!);
+  const palette = colors.length <= count
+    ? colors.map(unpackRgb)
+    : refineKMeans(colors, counts, medianCut(colors, counts, count));
+  return palette.sort((a, b) => luma(...a) - luma(...b));
+};
+
+/**
+ * 256 colors spread evenly through `stops`, for looking up a 0-1 position on a ramp
+ */
+const buildRamp = (stops: RGB[]): RGB[] =>
+  Array.from({ length: 256 }, (_, i) => {
+    const t = (i / 255) * (stops.length - 1);
+    const k = Math.min(stops.length - 2, Math.floor(t));
+    if (k < 0) return stops[0];
+    const f = t - k;
+    const [r0, g0, b0] = stops[k];
+    const [r1, g1, b1] = stops[k + 1];
+    return [r0 + (r1 - r0) * f, g0 + (g1 - g0) * f, b0 + (b1 - b0) * f] as RGB;
+  });
+
+/**
+ * Position (0-1) of pixel x, y along a gradient across a width × height image
+ */
+const gradientPosition = (direction: GradientDirection, width: number, height: number) => {
+  const w = Math.max(1, width - 1);
+  const h = Math.max(1, height - 1);
+  switch (direction) {
+    case 'horizontal': return (x: number) => x / w;
+    case 'vertical': return (_x: number, y: number) => y / h;
+    case 'diagonal': return (x: number, y: number) => (x / w + y / h) / 2;
+    case 'radial': {
+      const corner = Math.hypot(w / 2, h / 2);
+      return (x: number, y: number) => Math.hypot(x - w / 2, y - h / 2) / corner;
+    }
+  }
+};
+
+// A line color (and the source pixel it was drawn from) to its palette color
+export type PaletteMapper = (r: number, g: number, b: number, pixel: number) => RGB;
+
+/**
+ * How `settings.paletteMode` remaps line colors onto `palette` for a width × height
+ * source, or null when lines keep their colors
+ */
+export const createPaletteMapper = (
+  settings: ProcessingSettings,
+  palette: RGB[],
+  width: number,
+  height: number
+): PaletteMapper | null => {
+  if (settings.paletteMode === 'off' || palette.length === 0) return null;
+
+  if (settings.paletteMode === 'extracted' || settings.paletteMode === 'swatches') {
+    const match = createColorMatcher(palette);
+    return (r, g, b) => palette[match(r, g, b)];
+  }
+
+  const ramp = buildRamp(palette);
+  if (settings.paletteMode === 'duotone') {
+    return (r, g, b) => ramp[Math.round(luma(r, g, b))];
+  }
+
+  const position = gradientPosition(settings.gradientDirection, width, height);
+  return (_r, _g, _b, pixel) => {
+    const x = pixel % width;
+    return ramp[Math.round(Math.min(1, position(x, (pixel - x) / width)) * 255)];
+  };
+};
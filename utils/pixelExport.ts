@@ -0,0 +1,64 @@
+import { ProcessingSettings, RgbaImage } from '../types';
+import { createRenderPipeline, fitSize, resizePixels, suggestThresholdForPixels } from './imageProcessing';
+import { TEXTURE_SIZE } from './background';
+import { exportSize, Exporter, ExportOptions } from './exporters';
+import { frameDelays, sourceSettings } from './sourceTiming';
+
+/**
+ * Decoded source pixels, for rendering without a browser (CLI, Worker)
+ */
+export interface PixelSource {
+  frames: RgbaImage[];
+  delays: number[] | null; // ms per frame of an animated source; null for a still image
+}
+
+export interface PixelExportPlan {
+  settings: ProcessingSettings; // With the source timing and auto threshold applied
+  width: number;
+  height: number;
+}
+
+/**
+ * What exporting `source` will render: its settings and frame size. Like the app,
+ * auto threshold judges the first frame.
+ */
+export const planPixelExport = (
+  source: PixelSource,
+  baseSettings: ProcessingSettings,
+  options: ExportOptions
+): PixelExportPlan => {
+  let settings = sourceSettings(baseSettings, source.delays);
+  const [first] = source.frames;
+  if (settings.autoThreshold) settings = { ...settings, ...suggestThresholdForPixels(first, settings) };
+
+  const { width, height } = exportSize(first.width, first.height, options.resolution, settings.scale);
+  return { settings, width, height };
+};
+
+/**
+ * Renders every frame of `plan` and encodes them with `exporter`. `texture` is the image
+ * for the 'texture' background style.
+ */
+export const renderPixelExport = (
+  source: PixelSource,
+  plan: PixelExportPlan,
+  exporter: Exporter,
+  options: ExportOptions,
+  sourceKey: string,
+  texture: RgbaImage | null = null
+): Promise<Blob> => {
+  const { settings, width, height } = plan;
+  const pipeline = createRenderPipeline();
+  pipeline.setSourceFrames(`${sourceKey}|${width}x${height}`, source.frames.length, i =>
+    resizePixels(source.frames[i], width, height)
+  );
+  if (texture) {
+    const size = fitSize(texture.width, texture.height, TEXTURE_SIZE);
+    pipeline.setBackgroundTexture('texture', () => resizePixels(texture, size.width, size.height));
+  }
+
+  const frames = [];
+  for (let f = 0; f < settings.frameCount; f++) frames.push(pipeline.tiledFrame(settings, f));
+
+  return exporter.encode({ frames, delays: frameDelays(settings, source.delays), settings, pipeline }, options);
+};
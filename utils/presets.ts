@@ -0,0 +1,165 @@
+import { ProcessingSettings } from '../types';
+import { parseSettings } from './settings';
+
+/**
+ * A named look. Presets never carry a seed: applying one changes the style, not
+ * which wiggle you get.
+ */
+export interface Preset {
+  name: string;
+  settings: Partial<ProcessingSettings>;
+  builtIn?: boolean;
+}
+
+export const PRESET_FILE_FORMAT = 'wiggle-presets';
+export const PRESET_FILE_VERSION = 1;
+
+const STORAGE_KEY = 'wiggle.presets';
+
+export interface PresetFile {
+  format: typeof PRESET_FILE_FORMAT;
+  version: number;
+  presets: { name: string; settings: Partial<ProcessingSettings> }[];
+}
+
+export const BUILT_IN_PRESETS: Preset[] = [
+  {
+    name: 'Chalkboard',
+    builtIn: true,
+    settings: {
+      detectionMode: 'brightness',
+      threshold: 140,
+      autoThreshold: true,
+      useOriginalColors: false,
+      lineColor: '#f4f1e8',
+      bgColor: '#2f3e36',
+      backgroundStyle: 'chalkboard',
+      transparentBg: false,
+      strokeTexture: 'chalk',
+      textureStrength: 0.5,
+      jitterMode: 'pixel',
+      jitterAmount: 2.5,
+      jitterSpeed: 140,
+      animationMode: 'boil',
+      noiseType: 'value',
+      noiseOctaves: 3,
+      noiseScale: 1.5,
+      noiseAnisotropy: 0,
+    },
+  },
+  {
+    name: 'Marker on Paper',
+    builtIn: true,
+    settings: {
+      detectionMode: 'brightness',
+      threshold: 150,
+      autoThreshold: true,
+      useOriginalColors: true,
+      bgColor: '#fbf8f1',
+      backgroundStyle: 'paper',
+      transparentBg: false,
+      jitterMode: 'stroke',
+      jitterAmount: 3,
+      jitterSpeed: 160,
+      animationMode: 'boil',
+    },
+  },
+  {
+    name: 'Ink Scan',
+    builtIn: true,
+    settings: {
+      detectionMode: 'adaptive',
+      adaptiveRadius: 15,
+      adaptiveOffset: 12,
+      autoThreshold: false,
+      useOriginalColors: false,
+      lineColor: '#111111',
+      bgColor: '#ffffff',
+      backgroundStyle: 'flat',
+      transparentBg: false,
+      jitterMode: 'pixel',
+      jitterAmount: 1.5,
+      jitterSpeed: 100,
+      animationMode: 'flow',
+      flowSmoothness: 0.8,
+      frameCount: 12,
+      noiseType: 'simplex',
+      noiseOctaves: 2,
+      noiseScale: 3,
+      noiseAnisotropy: 0,
+    },
+  },
+];
+
+/**
+ * The settings worth saving in a preset: everything but the seed
+ */
+export const presetSettings = (settings: ProcessingSettings): Partial<ProcessingSettings> => {
+  const { seed: _seed, ...look } = settings;
+  return look;
+};
+
+/**
+ * Serializes presets as a versioned preset file
+ */
+export const serializePresets = (presets: Preset[]): string => {
+  const file: PresetFile = {
+    format: PRESET_FILE_FORMAT,
+    version: PRESET_FILE_VERSION,
+    presets: presets.map(({ name, settings }) => ({ name, settings })),
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+/**
+ * Reads a preset file, dropping any setting it doesn't recognize. Throws if the text
+ * isn't a preset file or comes from a newer, incompatible version.
+ */
+export const parsePresets = (text: string): Preset[] => {
+  const file = JSON.parse(text);
+  if (!file || file.format !== PRESET_FILE_FORMAT || !Array.isArray(file.presets)) {
+    throw new Error('Not a preset file');
+  }
+  if (typeof file.version !== 'number' || file.version > PRESET_FILE_VERSION) {
+    throw new Error(`Unsupported preset file version ${file.version}`);
+  }
+
+  return file.presets
+    .filter((p: unknown): p is { name: string; settings: unknown } =>
+      !!p && typeof (p as { name?: unknown }).name === 'string' && (p as { name: string }).name.trim() !== ''
+    )
+    .map(p => {
+      const { seed: _seed, ...settings } = parseSettings(p.settings);
+      return { name: p.name.trim(), settings };
+    });
+};
+
+/**
+ * Saved presets from localStorage; a missing or corrupt entry reads as none
+ */
+export const loadStoredPresets = (): Preset[] => {
+  try {
+    const text = localStorage.getItem(STORAGE_KEY);
+    return text ? parsePresets(text) : [];
+  } catch (err) {
+    console.error(err);
+    return [];
+  }
+};
+
+export const storePresets = (presets: Preset[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, serializePresets(presets));
+  } catch (err) {
+    // Storage can be full or disabled (private mode); presets then last for the session
+    console.error(err);
+  }
+};
+
+/**
+ * Adds presets, replacing existing ones with the same name
+ */
+export const mergePresets = (existing: Preset[], added: Preset[]): Preset[] => {
+  const names = new Set(added.map(p => p.name));
+  return existing.filter(p => !names.has(p.name)).concat(added);
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS } from '../constants';
+import { parseProject, PROJECT_FILE_FORMAT, PROJECT_SCHEMA_VERSION } from './project';
+
+const IMAGE_URL = 'data:image/png;base64,iVBORw0KGgo=';
+const TEXTURE_URL = 'data:image/jpeg;base64,/9j/4AAQ';
+
+const projectText = (fields: Record<string, unknown>) => JSON.stringify({
+  format: PROJECT_FILE_FORMAT,
+  schemaVersion: PROJECT_SCHEMA_VERSION,
+  appVersion: '1.0.0',
+  savedAt: '2026-01-01T00:00:00.000Z',
+  image: { name: 'cat.png', dataUrl: IMAGE_URL },
+  settings: DEFAULT_SETTINGS,
+  ...fields,
+});
+
+describe('parseProject', () => {
+  it('restores the embedded texture', async () => {
+    const project = await parseProject(projectText({
+      settings: { ...DEFAULT_SETTINGS, backgroundStyle: 'texture' },
+      texture: { dataUrl: TEXTURE_URL },
+    }));
+
+    expect(project.settings.backgroundStyle).toBe('texture');
+    expect(project.texture?.type).toBe('image/jpeg');
+    expect(new Uint8Array(await project.texture!.arrayBuffer())).toEqual(new Uint8Array([0xFF, 0xD8, 0xFF, 0xE0, 0x00, 0x10]));
+  });
+
+  it('has no texture when none was saved', async () => {
+    const project = await parseProject(projectText({}));
+
+    expect(project.texture).toBeNull();
+    expect(project.imageName).toBe('cat.png');
+  });
+
+  it('rejects a texture that is not an image', async () => {
+    await expect(parseProject(projectText({ texture: { dataUrl: 'data:text/html,<p>' } }))).rejects.toThrow('texture');
+  });
+
+  it('opens a version 1 project with the texture style on the flat background it showed', async () => {
+    const project = await parseProject(projectText({
+      schemaVersion: 1,
+      settings: { ...DEFAULT_SETTINGS, backgroundStyle: 'texture', bgColor: '#223344' },
+    }));
+
+    expect(project.settings.backgroundStyle).toBe('flat');
+    expect(project.settings.bgColor).toBe('#223344');
+    expect(project.texture).toBeNull();
+  });
+
+  it('keeps the other background styles of a version 1 project', async () => {
+    const project = await parseProject(projectText({
+      schemaVersion: 1,
+      settings: { ...DEFAULT_SETTINGS, backgroundStyle: 'grid' },
+    }));
+
+    expect(project.settings.backgroundStyle).toBe('grid');
+  });
+
+  it('refuses projects from a newer schema', async () => {
+    await expect(parseProject(projectText({ schemaVersion: PROJECT_SCHEMA_VERSION + 1 }))).rejects.toThrow('newer');
+  });
+
+  it.each([0, -1e9, 1.5])('refuses schema version %s', async schemaVersion => {
+    await expect(parseProject(projectText({ schemaVersion }))).rejects.toThrow('Invalid project schema');
+  });
+});
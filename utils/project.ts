@@ -0,0 +1,133 @@
+import { ProcessingSettings } from '../types';
+import { DEFAULT_SETTINGS } from '../constants';
+import { parseSettings } from './settings';
+
+export const PROJECT_FILE_FORMAT = 'wiggle-project';
+export const PROJECT_SCHEMA_VERSION = 2;
+export const PROJECT_FILE_EXTENSION = 'wiggle';
+
+// Injected by Vite from package.json
+export const APP_VERSION = process.env.APP_VERSION ?? 'dev';
+
+/**
+ * On-disk project: everything needed to reproduce the animation, in one JSON file
+ */
+export interface ProjectFile {
+  format: typeof PROJECT_FILE_FORMAT;
+  schemaVersion: number;
+  appVersion: string;
+  savedAt: string;
+  image: {
+    name: string;
+    dataUrl: string; // The original upload's bytes, base64 encoded
+  };
+  settings: ProcessingSettings; // Includes the seed
+  texture?: {
+    dataUrl: string; // The imported background texture, when the 'texture' style uses it
+  };
+}
+
+export interface Project {
+  image: Blob;
+  imageName: string;
+  settings: ProcessingSettings;
+  texture: Blob | null;
+  appVersion: string;
+}
+
+type RawProject = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// `value[key]` when value is an object, else undefined
+const field = (value: unknown, key: string): unknown => (isRecord(value) ? value[key] : undefined);
+
+/**
+ * Upgrades a raw project from schema version N (the key) to N + 1. Add a step whenever
+ * a change would make existing projects open differently, e.g. a new setting whose
+ * default would alter their look: the step writes the value that keeps the old look.
+ * Plain additions need no step, since missing settings fall back to the defaults.
+ */
+const MIGRATIONS: Record<number, (raw: RawProject) => RawProject> = {
+  // Version 1 didn't embed the imported texture, so the 'texture' style had nothing to
+  // show and rendered as the flat background
+  1: raw => isRecord(raw.settings) && raw.settings.backgroundStyle === 'texture'
+    ? { ...raw, settings: { ...raw.settings, backgroundStyle: 'flat' } }
+    : raw,
+};
+
+/**
+ * Runs every step from `schemaVersion`, a whole number from 1 to PROJECT_SCHEMA_VERSION
+ */
+const migrate = (raw: RawProject, schemaVersion: number): RawProject => {
+  let project = raw;
+  for (let version = schemaVersion; version < PROJECT_SCHEMA_VERSION; version++) {
+    const step = MIGRATIONS[version];
+    project = { ...(step ? step(project) : project), schemaVersion: version + 1 };
+  }
+  return project;
+};
+
+const readAsDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+export const serializeProject = async (
+  image: Blob,
+  imageName: string,
+  settings: ProcessingSettings,
+  texture: Blob | null = null
+): Promise<string> => {
+  const file: ProjectFile = {
+    format: PROJECT_FILE_FORMAT,
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    appVersion: APP_VERSION,
+    savedAt: new Date().toISOString(),
+    image: { name: imageName, dataUrl: await readAsDataUrl(image) },
+    settings,
+    ...(texture ? { texture: { dataUrl: await readAsDataUrl(texture) } } : {}),
+  };
+  return JSON.stringify(file);
+};
+
+/**
+ * Reads a project file, migrating it to the current schema. Throws if the text isn't a
+ * project or was saved by a newer, incompatible version.
+ */
+export const parseProject = async (text: string): Promise<Project> => {
+  const raw: unknown = JSON.parse(text);
+  if (!isRecord(raw) || raw.format !== PROJECT_FILE_FORMAT || typeof raw.schemaVersion !== 'number') {
+    throw new Error('Not a project file');
+  }
+  const { schemaVersion } = raw;
+  if (!Number.isInteger(schemaVersion) || schemaVersion < 1) {
+    throw new Error(`Invalid project schema ${schemaVersion}`);
+  }
+  if (schemaVersion > PROJECT_SCHEMA_VERSION) {
+    throw new Error(`Project schema ${schemaVersion} is newer than this app supports`);
+  }
+
+  const project = migrate(raw, schemaVersion);
+  const dataUrl = field(project.image, 'dataUrl');
+  if (typeof dataUrl !== 'string' || !/^data:(image|video)\//.test(dataUrl)) {
+    throw new Error('Project has no source image');
+  }
+  const imageName = field(project.image, 'name');
+  const textureUrl = field(project.texture, 'dataUrl');
+  if (textureUrl !== undefined && (typeof textureUrl !== 'string' || !/^data:image\//.test(textureUrl))) {
+    throw new Error('Project has an invalid texture');
+  }
+
+  return {
+    image: await (await fetch(dataUrl)).blob(),
+    imageName: typeof imageName === 'string' ? imageName : 'image',
+    settings: { ...DEFAULT_SETTINGS, ...parseSettings(project.settings) },
+    texture: typeof textureUrl === 'string' ? await (await fetch(textureUrl)).blob() : null,
+    appVersion: typeof project.appVersion === 'string' ? project.appVersion : 'unknown',
+  };
+};
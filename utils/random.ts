@@ -0,0 +1,52 @@
+/**
+ * A pseudo-random generator returning floats in [0, 1)
+ */
+export type Rng = () => number;
+
+/**
+ * Creates a deterministic PRNG (mulberry32) from a 32-bit seed
+ */
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Mixes a base seed with extra values (frame index, axis, ...) into a new seed,
+ * so each stream stays stable when unrelated streams are added or removed
+ */
+export const deriveSeed = (seed: number, ...salts: number[]): number => {
+  let h = (seed ^ 0x9E3779B9) >>> 0;
+  for (const salt of salts) {
+    h = Math.imul(h ^ (salt >>> 0), 0x85EBCA6B);
+    h ^= h >>> 13;
+    h = Math.imul(h, 0xC2B2AE35);
+    h ^= h >>> 16;
+  }
+  return h >>> 0;
+};
+
+/**
+ * Stateless hash of (seed, index) to [0, 1), for per-pixel randomness that has to be
+ * identical no matter which order or which tiles the pixels are visited in
+ */
+export const hashToUnit = (seed: number, index: number): number => {
+  let h = Math.imul((seed ^ index) >>> 0, 0x9E3779B1);
+  h ^= h >>> 15;
+  h = Math.imul(h ^ seed, 0x85EBCA6B);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xC2B2AE35);
+  h ^= h >>> 16;
+  return (h >>> 0) / 4294967296;
+};
+
+/**
+ * Picks a new short, human-shareable seed
+ */
+export const randomSeed = (): number => Math.floor(Math.random() * 1000000);
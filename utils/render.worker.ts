@@ -0,0 +1,140 @@
+import { ProcessingSettings } from '../types';
+import { createRenderPipeline, RenderPipeline } from './imageProcessing';
+import { getSourcePixels } from './canvas';
+import { createGpuRenderer, GpuRenderer } from './gpuRenderer';
+
+export type RenderRequest =
+  | {
+      type: 'render';
+      jobId: number;
+      sourceKey: string;
+      bitmaps?: ImageBitmap[]; // Source frames, only sent when the worker doesn't hold `sourceKey` yet
+      width: number;
+      height: number;
+      settings: ProcessingSettings;
+      // Background texture: omitted while the worker holds the current one, null to drop it
+      texture?: { key: string; bitmap: ImageBitmap } | null;
+    }
+  | {
+      // Full-size frames for an export: always sent its own bitmaps, rendered tile by tile
+      type: 'export';
+      jobId: number;
+      bitmaps: ImageBitmap[];
+      width: number;
+      height: number;
+      settings: ProcessingSettings;
+      texture?: ImageBitmap;
+    }
+  | { type: 'cancel'; jobId: number };
+
+export type RenderResponse =
+  | { type: 'progress'; jobId: number; done: number; total: number }
+  | { type: 'done'; jobId: number; width: number; height: number; buffers: ArrayBuffer[] }
+  | { type: 'error'; jobId: number; message: string };
+
+// Minimal view of the dedicated worker scope (the "webworker" lib clashes with "DOM")
+const scope = self as unknown as {
+  postMessage: (message: RenderResponse, transfer?: Transferable[]) => void;
+  onmessage: ((e: MessageEvent<RenderRequest>) => void) | null;
+};
+
+// Stage caches live as long as the worker, so unchanged stages are reused across jobs
+const pipeline = createRenderPipeline();
+
+// Preview frames render on the GPU where WebGL2 allows; the pipeline is the fallback
+let gpu: GpuRenderer | null | undefined;
+const gpuRenderer = () => {
+  if (gpu === undefined) gpu = createGpuRenderer();
+  return gpu;
+};
+
+// Frames of the preview source, read into the pipeline as it needs them
+let sourceBitmaps: ImageBitmap[] = [];
+
+// Only the most recent job is ever worth finishing
+let activeJobId = 0;
+
+// Gives queued messages (cancel / newer render) a chance to run between frames
+const yieldToEvents = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+const readBitmap = (bitmap: ImageBitmap, width: number, height: number) => {
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('OffscreenCanvas 2D context unavailable');
+  return getSourcePixels(ctx, bitmap, width, height);
+};
+
+// Hands a background texture to `target` and frees its bitmap
+const setTexture = (target: RenderPipeline, key: string, bitmap: ImageBitmap) => {
+  try {
+    target.setBackgroundTexture(key, () => readBitmap(bitmap, bitmap.width, bitmap.height));
+  } finally {
+    bitmap.close();
+  }
+};
+
+const renderFrames = async (
+  jobId: number,
+  settings: ProcessingSettings,
+  renderFrame: (f: number) => ArrayBuffer
+): Promise<ArrayBuffer[] | null> => {
+  const buffers: ArrayBuffer[] = [];
+
+  for (let f = 0; f < settings.frameCount; f++) {
+    await yieldToEvents();
+    if (jobId !== activeJobId) return null;
+
+    buffers.push(renderFrame(f));
+    scope.postMessage({ type: 'progress', jobId, done: f + 1, total: settings.frameCount });
+  }
+
+  return buffers;
+};
+
+const runJob = async (req: Exclude<RenderRequest, { type: 'cancel' }>) => {
+  const { jobId, bitmaps, width, height, settings } = req;
+  let buffers: ArrayBuffer[] | null;
+
+  if (req.type === 'export') {
+    // A throwaway pipeline keeps the preview caches (and their memory budget) untouched
+    const exportPipeline = createRenderPipeline();
+    try {
+      if (req.texture) setTexture(exportPipeline, 'export', req.texture);
+      exportPipeline.setSourceFrames('export', req.bitmaps.length, i => readBitmap(req.bitmaps[i], width, height));
+      buffers = await renderFrames(jobId, settings, f => exportPipeline.tiledFrame(settings, f).data.buffer);
+    } finally {
+      req.bitmaps.forEach(b => b.close());
+    }
+  } else {
+    if (bitmaps) {
+      sourceBitmaps.forEach(b => b.close());
+      sourceBitmaps = bitmaps;
+      pipeline.setSourceFrames(req.sourceKey, bitmaps.length, i => readBitmap(bitmaps[i], width, height));
+    } else if (!pipeline.hasSource(req.sourceKey)) {
+      throw new Error(`Render worker has no pixels for source ${req.sourceKey}`);
+    }
+    if (req.texture) setTexture(pipeline, req.texture.key, req.texture.bitmap);
+    else if (req.texture === null) pipeline.setBackgroundTexture(null);
+    const renderer = gpuRenderer();
+    buffers = renderer?.supports(settings)
+      ? await renderFrames(jobId, settings, f => renderer.frame(pipeline, settings, f).data.buffer)
+      // Copy so transferring doesn't detach the cached frame
+      : await renderFrames(jobId, settings, f => pipeline.frame(settings, f).data.slice().buffer);
+  }
+
+  if (buffers) scope.postMessage({ type: 'done', jobId, width, height, buffers }, buffers);
+};
+
+scope.onmessage = (e) => {
+  const req = e.data;
+
+  if (req.type === 'cancel') {
+    if (req.jobId === activeJobId) activeJobId = 0;
+    return;
+  }
+
+  activeJobId = req.jobId;
+  runJob(req).catch((err) => {
+    scope.postMessage({ type: 'error', jobId: req.jobId, message: String(err?.message ?? err) });
+  });
+};
@@ -0,0 +1,175 @@
+import { ProcessingSettings } from '../types';
+import type { RenderRequest, RenderResponse } from './render.worker';
+
+export interface RenderProgress {
+  done: number;
+  total: number;
+}
+
+// Background texture to render with, its bitmap only made when the worker needs it
+export interface TextureSource {
+  key: string;
+  getBitmap: () => Promise<ImageBitmap>;
+}
+
+interface PendingJob {
+  jobId: number;
+  resolve: (frames: ImageData[] | null) => void;
+  reject: (err: Error) => void;
+  onProgress?: (p: RenderProgress) => void;
+}
+
+/**
+ * Whether this browser can run the frame pipeline off the main thread
+ */
+export const supportsWorkerRendering = (): boolean =>
+  typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined';
+
+/**
+ * Owns a dedicated render worker. Starting a new render cancels the previous one,
+ * whose promise then resolves to `null`. If the worker fails to load or crashes, the
+ * pending job and every later one reject, and `isAvailable` turns false so callers
+ * can render on the main thread instead.
+ */
+export const createRenderClient = () => {
+  const worker = new Worker(new URL('./render.worker.ts', import.meta.url), { type: 'module' });
+  let nextJobId = 1;
+  let pending: PendingJob | null = null;
+  // Source currently held by the worker, so its pixels are only sent once
+  let workerSourceKey: string | null = null;
+  let workerTextureKey: string | null = null;
+  // Set once the worker has failed; it can't run any job after that
+  let failure: Error | null = null;
+
+  const post = (req: RenderRequest, transfer: Transferable[] = []) => worker.postMessage(req, transfer);
+
+  worker.onmessage = (e: MessageEvent<RenderResponse>) => {
+    const msg = e.data;
+    if (!pending || msg.jobId !== pending.jobId) return;
+
+    if (msg.type === 'progress') {
+      pending.onProgress?.({ done: msg.done, total: msg.total });
+    } else if (msg.type === 'done') {
+      const frames = msg.buffers.map(buf => new ImageData(new Uint8ClampedArray(buf), msg.width, msg.height));
+      pending.resolve(frames);
+      pending = null;
+    } else {
+      workerSourceKey = null;
+      workerTextureKey = null;
+      pending.reject(new Error(msg.message));
+      pending = null;
+    }
+  };
+
+  const fail = (message: string) => {
+    failure = new Error(message);
+    workerSourceKey = null;
+    workerTextureKey = null;
+    pending?.reject(failure);
+    pending = null;
+  };
+
+  worker.onerror = (e) => {
+    e.preventDefault();
+    fail(`Render worker failed: ${e.message || 'it could not be loaded'}`);
+  };
+  worker.onmessageerror = () => fail('Render worker sent a message that could not be read');
+
+  const isAvailable = () => failure === null;
+
+  const cancel = () => {
+    if (!pending) return;
+    post({ type: 'cancel', jobId: pending.jobId });
+    pending.resolve(null);
+    pending = null;
+  };
+
+  /**
+   * Claims the pending slot for a new job, cancelling the previous one. Claiming happens
+   * before any awaiting so a newer render can cancel this one.
+   */
+  const startJob = (onProgress?: (p: RenderProgress) => void) => {
+    cancel();
+    const jobId = nextJobId++;
+    const job = new Promise<ImageData[] | null>((resolve, reject) => {
+      pending = { jobId, resolve, reject, onProgress };
+    });
+    if (failure) {
+      pending!.reject(failure);
+      pending = null;
+    }
+    return { jobId, job, isCurrent: () => pending?.jobId === jobId };
+  };
+
+  /**
+   * Renders all frames for `settings`. `getBitmaps` (one bitmap per source frame) is
+   * only called when the worker doesn't already hold the pixels for `sourceKey`, and
+   * likewise the bitmap of `texture`.
+   */
+  const render = async (
+    sourceKey: string,
+    getBitmaps: () => Promise<ImageBitmap[]>,
+    width: number,
+    height: number,
+    settings: ProcessingSettings,
+    onProgress?: (p: RenderProgress) => void,
+    texture: TextureSource | null = null
+  ): Promise<ImageData[] | null> => {
+    const { jobId, job, isCurrent } = startJob(onProgress);
+    const needsSource = workerSourceKey !== sourceKey;
+    const textureKey = texture?.key ?? null;
+
+    const bitmaps = needsSource ? await getBitmaps() : undefined;
+    const textureBitmap = texture && workerTextureKey !== textureKey ? await texture.getBitmap() : undefined;
+    if (!isCurrent()) {
+      bitmaps?.forEach(b => b.close());
+      textureBitmap?.close();
+      return job;
+    }
+
+    const transfer: Transferable[] = [...(bitmaps ?? []), ...(textureBitmap ? [textureBitmap] : [])];
+    const textureUpdate = workerTextureKey === textureKey ? undefined
+      : texture && textureBitmap ? { key: texture.key, bitmap: textureBitmap }
+      : null;
+    workerSourceKey = sourceKey;
+    workerTextureKey = textureKey;
+    post({ type: 'render', jobId, sourceKey, bitmaps, width, height, settings, texture: textureUpdate }, transfer);
+    return job;
+  };
+
+  /**
+   * Renders export frames at width × height, tile by tile and without disturbing the
+   * preview caches. Like `render`, a newer job cancels it.
+   */
+  const renderExport = async (
+    getBitmaps: () => Promise<ImageBitmap[]>,
+    width: number,
+    height: number,
+    settings: ProcessingSettings,
+    onProgress?: (p: RenderProgress) => void,
+    texture: TextureSource | null = null
+  ): Promise<ImageData[] | null> => {
+    const { jobId, job, isCurrent } = startJob(onProgress);
+
+    const bitmaps = await getBitmaps();
+    const textureBitmap = texture ? await texture.getBitmap() : undefined;
+    if (!isCurrent()) {
+      bitmaps.forEach(b => b.close());
+      textureBitmap?.close();
+      return job;
+    }
+
+    const transfer: Transferable[] = textureBitmap ? [...bitmaps, textureBitmap] : bitmaps;
+    post({ type: 'export', jobId, bitmaps, width, height, settings, texture: textureBitmap }, transfer);
+    return job;
+  };
+
+  const dispose = () => {
+    cancel();
+    worker.terminate();
+  };
+
+  return { render, renderExport, cancel, dispose, isAvailable };
+};
+
+export type RenderClient = ReturnType<typeof createRenderClient>;
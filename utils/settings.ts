@@ -0,0 +1,96 @@
+import { ProcessingSettings } from '../types';
+import { DEFAULT_SETTINGS } from '../constants';
+import { MAX_PALETTE_COLORS } from './palette';
+
+// Allowed values for the string-union settings; anything else is dropped on import
+const CHOICES: Partial<Record<keyof ProcessingSettings, readonly string[]>> = {
+  detectionMode: ['brightness', 'edge', 'sobel', 'canny', 'xdog', 'adaptive'],
+  jitterMode: ['pixel', 'stroke'],
+  animationMode: ['boil', 'flow'],
+  noiseType: ['value', 'perlin', 'simplex'],
+  sourceTiming: ['source', 'uniform'],
+  strokeTexture: ['none', 'pencil', 'ink', 'chalk'],
+  paletteMode: ['off', 'extracted', 'swatches', 'duotone', 'gradient'],
+  gradientDirection: ['horizontal', 'vertical', 'diagonal', 'radial'],
+  backgroundStyle: ['flat', 'paper', 'notebook', 'grid', 'chalkboard', 'texture'],
+};
+
+type NumericSetting = {
+  [K in keyof ProcessingSettings]: ProcessingSettings[K] extends number ? K : never;
+}[keyof ProcessingSettings];
+
+export interface SettingRange {
+  min: number;
+  max: number;
+  integer?: boolean;
+}
+
+// Allowed range of every numeric setting (as documented on ProcessingSettings); values
+// outside it are dropped on import, since some (noise octaves, frame count) grow the
+// render time without bound
+export const SETTING_RANGES: Record<NumericSetting, SettingRange> = {
+  threshold: { min: 0, max: 500 },
+  jitterAmount: { min: 0, max: 10 },
+  jitterSpeed: { min: 10, max: 10000 },
+  noiseOctaves: { min: 1, max: 5, integer: true },
+  noiseScale: { min: 0.5, max: 10 },
+  noiseAnisotropy: { min: -1, max: 1 },
+  flowSmoothness: { min: 0, max: 1 },
+  frameCount: { min: 1, max: 48, integer: true },
+  backgroundStrength: { min: 0, max: 1 },
+  underlayOpacity: { min: 0, max: 1 },
+  underlayDesaturation: { min: 0, max: 1 },
+  underlayJitter: { min: 0, max: 1 },
+  paletteSize: { min: 2, max: MAX_PALETTE_COLORS, integer: true },
+  lineWeight: { min: -3, max: 6 },
+  taperLength: { min: 0, max: 80 },
+  textureStrength: { min: 0, max: 1 },
+  scale: { min: 0.1, max: 4 },
+  edgeBlur: { min: 0, max: 4 },
+  cannyLow: { min: 0, max: 500 },
+  cannyHigh: { min: 0, max: 500 },
+  xdogSigma: { min: 0.5, max: 5 },
+  xdogSharpness: { min: 1, max: 100 },
+  adaptiveRadius: { min: 2, max: 60 },
+  adaptiveOffset: { min: 0, max: 60 },
+  seed: { min: 0, max: 0xffffffff, integer: true },
+};
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+const isValidValue = (key: keyof ProcessingSettings, value: unknown): boolean => {
+  const expected = DEFAULT_SETTINGS[key];
+  // The only list setting is the swatch list
+  if (Array.isArray(expected)) {
+    return Array.isArray(value) && value.length >= 1 && value.length <= MAX_PALETTE_COLORS &&
+      value.every(v => typeof v === 'string' && HEX_COLOR.test(v));
+  }
+  if (typeof value !== typeof expected) return false;
+  if (typeof value === 'number') {
+    const { min, max, integer } = SETTING_RANGES[key as NumericSetting];
+    return value >= min && value <= max && (!integer || Number.isInteger(value));
+  }
+  if (typeof value === 'string') {
+    const choices = CHOICES[key];
+    if (choices) return choices.includes(value);
+    return key.endsWith('Color') ? HEX_COLOR.test(value) : true;
+  }
+  return true;
+};
+
+/**
+ * Picks the valid ProcessingSettings fields out of untrusted JSON. Unknown keys and
+ * values of the wrong type or out of range are dropped, so files written by older or newer versions
+ * still load and missing fields fall back to whatever they're merged over.
+ */
+export const parseSettings = (raw: unknown): Partial<ProcessingSettings> => {
+  if (!raw || typeof raw !== 'object') return {};
+  const result: Partial<Record<keyof ProcessingSettings, unknown>> = {};
+
+  for (const key of Object.keys(DEFAULT_SETTINGS) as (keyof ProcessingSettings)[]) {
+    const value = (raw as Record<string, unknown>)[key];
+    if (value !== undefined && isValidValue(key, value)) result[key] = value;
+  }
+
+  return result as Partial<ProcessingSettings>;
+};
@@ -0,0 +1,135 @@
+import { useCallback, useRef, useState } from 'react';
+import { ProcessingSettings } from '../types';
+
+export interface HistoryEntry {
+  id: number;
+  settings: ProcessingSettings;
+  changed: (keyof ProcessingSettings)[]; // Fields this step changed, for labeling
+  thumbnail?: string;                    // Data URL of the first rendered frame
+}
+
+interface HistoryState {
+  entries: HistoryEntry[];
+  index: number; // The entry currently shown
+}
+
+// Repeated changes to the same fields closer together than this merge into one step,
+// so a whole slider drag undoes at once
+const COALESCE_MS = 1000;
+const MAX_ENTRIES = 50;
+const THUMBNAIL_SIZE = 64;
+
+let nextEntryId = 1;
+
+const createEntry = (settings: ProcessingSettings, changed: (keyof ProcessingSettings)[]): HistoryEntry => ({
+  id: nextEntryId++,
+  settings,
+  changed,
+});
+
+/**
+ * Downscales a rendered frame into a small PNG data URL
+ */
+export const createThumbnail = (frame: ImageData): string => {
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(frame.width, frame.height));
+  const full = document.createElement('canvas');
+  full.width = frame.width;
+  full.height = frame.height;
+  full.getContext('2d')?.putImageData(frame, 0, 0);
+
+  const thumb = document.createElement('canvas');
+  thumb.width = Math.max(1, Math.round(frame.width * scale));
+  thumb.height = Math.max(1, Math.round(frame.height * scale));
+  thumb.getContext('2d')?.drawImage(full, 0, 0, thumb.width, thumb.height);
+  return thumb.toDataURL('image/png');
+};
+
+/**
+ * Settings state with an undo/redo stack. `change` records a step (coalescing drags),
+ * `amend` adjusts the current step in place (e.g. automatic suggestions), and `reset`
+ * starts a fresh history (e.g. after opening a project).
+ */
+export const useSettingsHistory = (initial: ProcessingSettings) => {
+  const [state, setState] = useState<HistoryState>(() => ({ entries: [createEntry(initial, [])], index: 0 }));
+  const lastChangeRef = useRef<{ key: string; time: number } | null>(null);
+
+  const change = useCallback((patch: Partial<ProcessingSettings>) => {
+    const changed = Object.keys(patch) as (keyof ProcessingSettings)[];
+    const key = [...changed].sort().join(',');
+    const now = Date.now();
+    const last = lastChangeRef.current;
+    const coalesce = last !== null && last.key === key && now - last.time < COALESCE_MS;
+    lastChangeRef.current = { key, time: now };
+
+    setState(prev => {
+      const present = prev.entries[prev.index];
+      if (changed.every(k => present.settings[k] === patch[k])) return prev;
+      const settings = { ...present.settings, ...patch };
+
+      // Only the newest step can absorb a drag; after an undo the drag starts a new branch
+      if (coalesce && prev.index > 0 && prev.index === prev.entries.length - 1) {
+        return { entries: [...prev.entries.slice(0, -1), { ...present, settings, thumbnail: undefined }], index: prev.index };
+      }
+
+      const entries = [...prev.entries.slice(0, prev.index + 1), createEntry(settings, changed)].slice(-MAX_ENTRIES);
+      return { entries, index: entries.length - 1 };
+    });
+  }, []);
+
+  const amend = useCallback((patch: Partial<ProcessingSettings>) => {
+    setState(prev => {
+      const entries = [...prev.entries];
+      const present = entries[prev.index];
+      entries[prev.index] = { ...present, settings: { ...present.settings, ...patch }, thumbnail: undefined };
+      return { entries, index: prev.index };
+    });
+  }, []);
+
+  const reset = useCallback((settings: ProcessingSettings) => {
+    lastChangeRef.current = null;
+    setState({ entries: [createEntry(settings, [])], index: 0 });
+  }, []);
+
+  const jumpTo = useCallback((index: number) => {
+    lastChangeRef.current = null;
+    setState(prev => (index >= 0 && index < prev.entries.length ? { ...prev, index } : prev));
+  }, []);
+
+  const undo = useCallback(() => {
+    lastChangeRef.current = null;
+    setState(prev => (prev.index > 0 ? { ...prev, index: prev.index - 1 } : prev));
+  }, []);
+
+  const redo = useCallback(() => {
+    lastChangeRef.current = null;
+    setState(prev => (prev.index < prev.entries.length - 1 ? { ...prev, index: prev.index + 1 } : prev));
+  }, []);
+
+  /**
+   * Attaches a thumbnail to the entry whose settings produced it, if it still exists
+   */
+  const setThumbnail = useCallback((settings: ProcessingSettings, thumbnail: string) => {
+    setState(prev => {
+      const i = prev.entries.findIndex(e => e.settings === settings);
+      if (i === -1 || prev.entries[i].thumbnail === thumbnail) return prev;
+      const entries = [...prev.entries];
+      entries[i] = { ...entries[i], thumbnail };
+      return { ...prev, entries };
+    });
+  }, []);
+
+  return {
+    settings: state.entries[state.index].settings,
+    entries: state.entries,
+    index: state.index,
+    canUndo: state.index > 0,
+    canRedo: state.index < state.entries.length - 1,
+    change,
+    amend,
+    reset,
+    jumpTo,
+    undo,
+    redo,
+    setThumbnail,
+  };
+};
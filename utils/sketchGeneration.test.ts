@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RgbaImage } from '../types';
+import { composePrompt, createSketchGenerator } from './sketchGeneration';
+import { SketchProvider, SketchProviderUnconfiguredError } from './sketchProviders';
+import { mockProvider } from './sketchProviders/mock';
+
+// A provider that answers with `answer` once `resolve` is called, or fails once aborted
+const createManualProvider = (answer: Blob | null = new Blob(['png'], { type: 'image/png' })) => {
+  const calls: { prompt: string; signal: AbortSignal; resolve: () => void }[] = [];
+  const provider: SketchProvider = {
+    label: 'Manual',
+    isConfigured: () => true,
+    generate: (prompt, signal) => new Promise((resolve, reject) => {
+      signal.addEventListener('abort', () => reject(signal.reason), { once: true });
+      calls.push({ prompt, signal, resolve: () => resolve(answer) });
+    }),
+  };
+  return { provider, calls };
+};
+
+describe('createSketchGenerator', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('generates a sketch with the mock provider', async () => {
+    const generating = vi.fn();
+    const generator = createSketchGenerator(mockProvider, generating);
+
+    const result = generator.generate('a cat');
+    expect(generating).toHaveBeenLastCalledWith(true);
+    await vi.runAllTimersAsync();
+
+    const done = await result;
+    expect(done.status).toBe('done');
+    const image = (done as { image: RgbaImage }).image;
+    expect(image.width).toBeGreaterThan(0);
+    expect(image.data.some((v, i) => i % 4 === 0 && v < 128)).toBe(true);
+    expect(generating).toHaveBeenLastCalledWith(false);
+  });
+
+  it('resolves as cancelled when cancelled', async () => {
+    const generating = vi.fn();
+    const generator = createSketchGenerator(mockProvider, generating);
+
+    const result = generator.generate('a cat');
+    generator.cancel();
+
+    expect(await result).toEqual({ status: 'cancelled' });
+    expect(generating).toHaveBeenLastCalledWith(false);
+  });
+
+  it('cancels the running generation when another starts', async () => {
+    const { provider, calls } = createManualProvider();
+    const generator = createSketchGenerator(provider);
+
+    const first = generator.generate('first');
+    const second = generator.generate('second');
+    expect(calls[0].signal.aborted).toBe(true);
+    calls[1].resolve();
+
+    expect(await first).toEqual({ status: 'cancelled' });
+    expect((await second).status).toBe('done');
+  });
+
+  it('stays generating until the latest generation ends', async () => {
+    const { provider, calls } = createManualProvider();
+    const generating = vi.fn();
+    const generator = createSketchGenerator(provider, generating);
+
+    const first = generator.generate('first');
+    const second = generator.generate('second');
+    await first;
+    expect(generating).toHaveBeenLastCalledWith(true);
+
+    calls[1].resolve();
+    await second;
+    expect(generating).toHaveBeenLastCalledWith(false);
+  });
+
+  it('reports a provider that is not configured without calling it', async () => {
+    const generate = vi.fn();
+    const generator = createSketchGenerator({ label: 'Off', isConfigured: () => false, generate });
+
+    expect(await generator.generate('a cat')).toEqual({ status: 'unconfigured' });
+    expect(generate).not.toHaveBeenCalled();
+  });
+
+  it('reports a provider that turns out not to be configured', async () => {
+    const generator = createSketchGenerator({
+      label: 'Server',
+      isConfigured: () => true,
+      generate: () => Promise.reject(new SketchProviderUnconfiguredError('no key')),
+    });
+
+    expect(await generator.generate('a cat')).toEqual({ status: 'unconfigured' });
+  });
+
+  it('reports an answer without an image as empty', async () => {
+    const { provider, calls } = createManualProvider(null);
+    const generator = createSketchGenerator(provider);
+
+    const result = generator.generate('a cat');
+    calls[0].resolve();
+
+    expect(await result).toEqual({ status: 'empty' });
+  });
+
+  it('passes other provider errors on', async () => {
+    const error = new Error('quota');
+    const generator = createSketchGenerator({ label: 'Server', isConfigured: () => true, generate: () => Promise.reject(error) });
+
+    expect(await generator.generate('a cat')).toEqual({ status: 'failed', error });
+  });
+});
+
+describe('composePrompt', () => {
+  it('appends the style modifiers as a sentence', () => {
+    expect(composePrompt(' a cat ', [])).toBe('a cat');
+    expect(composePrompt('a cat', ['ink', 'minimal'])).toBe('a cat. Style: ink drawing, minimal details.');
+    expect(composePrompt('a cat!', ['pencil'])).toBe('a cat! Style: pencil sketch.');
+  });
+});
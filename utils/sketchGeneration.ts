@@ -0,0 +1,98 @@
+import { useEffect, useMemo, useState } from 'react';
+import { SketchImage, SketchProvider, SketchProviderUnconfiguredError } from './sketchProviders';
+
+export type StyleModifier = 'thickLines' | 'thinLines' | 'minimal' | 'continuousLine' | 'pencil' | 'ink' | 'cartoon' | 'whiteBackground';
+
+// What each modifier adds to the prompt; the provider always gets English
+export const STYLE_MODIFIERS: Record<StyleModifier, string> = {
+  thickLines: 'thick bold lines',
+  thinLines: 'thin fine lines',
+  minimal: 'minimal details',
+  continuousLine: 'drawn as one continuous line',
+  pencil: 'pencil sketch',
+  ink: 'ink drawing',
+  cartoon: 'cartoon style',
+  whiteBackground: 'plain white background',
+};
+
+export const STYLE_MODIFIER_IDS = Object.keys(STYLE_MODIFIERS) as StyleModifier[];
+
+/**
+ * The prompt sent to a provider: the user's text followed by the picked modifiers
+ */
+export const composePrompt = (prompt: string, modifiers: StyleModifier[]): string => {
+  const text = prompt.trim();
+  if (modifiers.length === 0) return text;
+  return `${text}${/[.!?]$/.test(text) ? '' : '.'} Style: ${modifiers.map(m => STYLE_MODIFIERS[m]).join(', ')}.`;
+};
+
+export type SketchResult =
+  | { status: 'done'; image: SketchImage }
+  | { status: 'cancelled' }
+  | { status: 'unconfigured' }
+  | { status: 'empty' } // The provider answered without an image
+  | { status: 'failed'; error: unknown };
+
+/**
+ * Runs one generation at a time with `provider`. Starting another or calling `cancel`
+ * aborts the running one, which then resolves as 'cancelled'. `onGeneratingChange`
+ * hears when a generation starts and when the latest one ends.
+ */
+export const createSketchGenerator = (
+  provider: SketchProvider,
+  onGeneratingChange: (generating: boolean) => void = () => {}
+) => {
+  let current: AbortController | null = null;
+
+  const cancel = () => {
+    current?.abort();
+    current = null;
+    onGeneratingChange(false);
+  };
+
+  const generate = async (prompt: string): Promise<SketchResult> => {
+    if (!provider.isConfigured()) return { status: 'unconfigured' };
+
+    current?.abort();
+    const controller = new AbortController();
+    current = controller;
+    onGeneratingChange(true);
+
+    try {
+      const image = await provider.generate(prompt, controller.signal);
+      if (controller.signal.aborted) return { status: 'cancelled' };
+      return image ? { status: 'done', image } : { status: 'empty' };
+    } catch (error) {
+      if (controller.signal.aborted) return { status: 'cancelled' };
+      return error instanceof SketchProviderUnconfiguredError ? { status: 'unconfigured' } : { status: 'failed', error };
+    } finally {
+      if (current === controller) {
+        current = null;
+        onGeneratingChange(false);
+      }
+    }
+  };
+
+  // Aborts without reporting, for when nobody is listening any more
+  const dispose = () => {
+    current?.abort();
+    current = null;
+  };
+
+  return { generate, cancel, dispose };
+};
+
+/**
+ * A sketch generator for a component, with whether it's generating as state. Unmounting
+ * aborts the running generation.
+ */
+export const useSketchGeneration = (provider: SketchProvider) => {
+  const [generating, setGenerating] = useState(false);
+  const generator = useMemo(() => createSketchGenerator(provider, setGenerating), [provider]);
+
+  useEffect(() => generator.dispose, [generator]);
+
+  return { generating, generate: generator.generate, cancel: generator.cancel };
+};
+
+export type SketchGeneration = ReturnType<typeof useSketchGeneration>;
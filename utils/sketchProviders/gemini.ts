@@ -0,0 +1,27 @@
+import { GoogleGenAI } from '@google/genai';
+import { SketchProvider } from './types';
+
+const MODEL = 'gemini-2.5-flash-image';
+
+/**
+ * Calls Gemini directly, so it only runs where the key can stay secret (the Worker).
+ * `baseUrl` points it at another host, e.g. a stubbed model in tests.
+ */
+export const createGeminiProvider = (apiKey: string | undefined, baseUrl?: string): SketchProvider<Blob> => ({
+  label: 'Gemini',
+  isConfigured: () => !!apiKey,
+  generate: async (prompt, signal) => {
+    const ai = new GoogleGenAI({ apiKey, httpOptions: baseUrl ? { baseUrl } : undefined });
+    const response = await ai.models.generateContent({
+      model: MODEL,
+      contents: prompt,
+      config: { abortSignal: signal },
+    });
+    signal.throwIfAborted();
+
+    const image = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData?.data)?.inlineData;
+    if (!image?.data) return null;
+    const res = await fetch(`data:${image.mimeType ?? 'image/png'};base64,${image.data}`);
+    return res.blob();
+  },
+});
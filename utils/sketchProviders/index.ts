@@ -0,0 +1,20 @@
+import { SketchProvider } from './types';
+import { serverProvider } from './server';
+import { mockProvider } from './mock';
+
+export type { SketchImage, SketchProvider } from './types';
+export { SketchProviderUnconfiguredError } from './types';
+
+export type SketchProviderId = 'server' | 'mock';
+
+// Providers the browser can use; Gemini itself is only called from the Worker
+export const sketchProviders: Record<SketchProviderId, SketchProvider> = {
+  server: serverProvider,
+  mock: mockProvider,
+};
+
+/**
+ * The provider picked at build time with SKETCH_PROVIDER, the server by default
+ */
+export const activeSketchProvider = (): SketchProvider =>
+  sketchProviders[process.env.SKETCH_PROVIDER as SketchProviderId] ?? serverProvider;
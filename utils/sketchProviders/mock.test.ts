@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { drawMockSketch, mockProvider } from './mock';
+
+const samePixels = (a: Uint8ClampedArray, b: Uint8ClampedArray) =>
+  a.length === b.length && a.every((v, i) => v === b[i]);
+
+describe('mock sketch provider', () => {
+  it('draws the same sketch for the same prompt', () => {
+    const a = drawMockSketch('a cat');
+    const b = drawMockSketch('a cat');
+    const other = drawMockSketch('a dog');
+
+    expect(samePixels(a.data, b.data)).toBe(true);
+    expect(samePixels(a.data, other.data)).toBe(false);
+  });
+
+  it('draws dark lines on white', () => {
+    const { width, height, data } = drawMockSketch('a cat');
+    let ink = 0, opaque = 0;
+    for (let i = 0; i < data.length; i += 4) {
+      if (data[i + 3] === 255) opaque++;
+      if (data[i] < 128) ink++;
+    }
+    expect(opaque).toBe(width * height);
+    expect(data[0]).toBe(255);
+    expect(ink / (width * height)).toBeGreaterThan(0.01);
+    expect(ink / (width * height)).toBeLessThan(0.3);
+  });
+
+  it('rejects once aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(mockProvider.generate('a cat', controller.signal)).rejects.toThrow();
+  });
+});
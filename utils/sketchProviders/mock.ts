@@ -0,0 +1,154 @@
+import { RgbaImage } from '../../types';
+import { createRng, deriveSeed, Rng } from '../random';
+import { SketchProvider } from './types';
+
+const SIZE = 768;
+const LINE_WIDTH = 8;
+// Polyline points per curve
+const CURVE_STEPS = 24;
+// Long enough to see the loading state and try cancelling it
+const LATENCY_MS = 1200;
+
+const wait = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    signal.throwIfAborted();
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+const promptSeed = (prompt: string) =>
+  deriveSeed(0x5EED, ...Array.from(prompt, ch => ch.codePointAt(0) ?? 0));
+
+type Point = [number, number];
+
+/**
+ * A stroke as a polyline: the points of a quadratic or cubic Bézier from `p0`
+ */
+const curve = (p0: Point, ...controls: Point[]): Point[] =>
+  Array.from({ length: CURVE_STEPS + 1 }, (_, i) => {
+    const t = i / CURVE_STEPS;
+    let points = [p0, ...controls];
+    // de Casteljau: lerp neighbours until one point is left
+    while (points.length > 1) {
+      points = points.slice(1).map(([x, y], k) => [points[k][0] + (x - points[k][0]) * t, points[k][1] + (y - points[k][1]) * t]);
+    }
+    return points[0];
+  });
+
+/**
+ * Inks a round-capped polyline `LINE_WIDTH` wide into `ink` (0 = paper, 1 = black),
+ * anti-aliased over one pixel
+ */
+const stroke = (ink: Float32Array, points: Point[]) => {
+  const radius = LINE_WIDTH / 2;
+  for (let s = 0; s < points.length - 1; s++) {
+    const [ax, ay] = points[s];
+    const [bx, by] = points[s + 1];
+    const dx = bx - ax, dy = by - ay;
+    const lengthSq = dx * dx + dy * dy || 1;
+    const x0 = Math.max(0, Math.floor(Math.min(ax, bx) - radius - 1));
+    const x1 = Math.min(SIZE - 1, Math.ceil(Math.max(ax, bx) + radius + 1));
+    const y0 = Math.max(0, Math.floor(Math.min(ay, by) - radius - 1));
+    const y1 = Math.min(SIZE - 1, Math.ceil(Math.max(ay, by) + radius + 1));
+
+    for (let y = y0; y <= y1; y++) {
+      for (let x = x0; x <= x1; x++) {
+        const t = Math.max(0, Math.min(1, ((x + 0.5 - ax) * dx + (y + 0.5 - ay) * dy) / lengthSq));
+        const d = Math.hypot(x + 0.5 - (ax + dx * t), y + 0.5 - (ay + dy * t));
+        const coverage = Math.min(1, Math.max(0, radius + 0.5 - d));
+        const i = y * SIZE + x;
+        if (coverage > ink[i]) ink[i] = coverage;
+      }
+    }
+  }
+};
+
+/**
+ * A wobbly closed outline around (cx, cy), smoothed through segment midpoints
+ */
+const blob = (rng: Rng, cx: number, cy: number, radius: number): Point[] => {
+  const count = 7 + Math.floor(rng() * 5);
+  const points = Array.from({ length: count }, (_, i): Point => {
+    const angle = (i / count) * Math.PI * 2;
+    const r = radius * (0.75 + rng() * 0.5);
+    return [cx + Math.cos(angle) * r, cy + Math.sin(angle) * r];
+  });
+  const mid = (i: number): Point => {
+    const [ax, ay] = points[i % count];
+    const [bx, by] = points[(i + 1) % count];
+    return [(ax + bx) / 2, (ay + by) / 2];
+  };
+
+  const outline: Point[] = [];
+  for (let i = 1; i <= count; i++) outline.push(...curve(mid(i - 1), points[i % count], mid(i)));
+  return outline;
+};
+
+const circle = (cx: number, cy: number, r: number): Point[] =>
+  Array.from({ length: CURVE_STEPS + 1 }, (_, i) => {
+    const angle = (i / CURVE_STEPS) * Math.PI * 2;
+    return [cx + Math.cos(angle) * r, cy + Math.sin(angle) * r];
+  });
+
+/**
+ * Draws a doodle that only depends on the prompt: a body, a head with eyes and a
+ * few loose strokes, black on white like the sketches the real providers return.
+ * Plain pixels, so it draws without a DOM.
+ */
+export const drawMockSketch = (prompt: string): RgbaImage => {
+  const rng = createRng(promptSeed(prompt));
+  const ink = new Float32Array(SIZE * SIZE);
+
+  const cx = SIZE / 2;
+  const bodyY = SIZE * 0.62;
+  const headY = SIZE * 0.32;
+  const headR = SIZE * (0.12 + rng() * 0.05);
+  stroke(ink, blob(rng, cx, bodyY, SIZE * (0.18 + rng() * 0.06)));
+  stroke(ink, blob(rng, cx, headY, headR));
+
+  for (const side of [-1, 1]) {
+    stroke(ink, circle(cx + side * headR * 0.4, headY - headR * 0.1, SIZE * 0.018));
+  }
+
+  const strokes = 3 + Math.floor(rng() * 4);
+  for (let i = 0; i < strokes; i++) {
+    const x0 = SIZE * (0.1 + rng() * 0.8);
+    const y0 = SIZE * (0.1 + rng() * 0.8);
+    stroke(ink, curve(
+      [x0, y0],
+      [x0 + (rng() - 0.5) * SIZE * 0.3, y0 + (rng() - 0.5) * SIZE * 0.3],
+      [x0 + (rng() - 0.5) * SIZE * 0.3, y0 + (rng() - 0.5) * SIZE * 0.3],
+      [x0 + (rng() - 0.5) * SIZE * 0.2, y0 + (rng() - 0.5) * SIZE * 0.2]
+    ));
+  }
+
+  const data = new Uint8ClampedArray(SIZE * SIZE * 4);
+  for (let i = 0; i < ink.length; i++) {
+    const v = 255 * (1 - ink[i]);
+    data[i * 4] = v;
+    data[i * 4 + 1] = v;
+    data[i * 4 + 2] = v;
+    data[i * 4 + 3] = 255;
+  }
+  return { width: SIZE, height: SIZE, data };
+};
+
+/**
+ * Offline stand-in for development and tests: no network, API key or DOM, and the
+ * same prompt always gives the same sketch
+ */
+export const mockProvider: SketchProvider = {
+  label: 'Mock',
+  isConfigured: () => true,
+  generate: async (prompt, signal) => {
+    await wait(LATENCY_MS, signal);
+    return drawMockSketch(prompt);
+  },
+};
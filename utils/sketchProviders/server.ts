@@ -0,0 +1,24 @@
+import { SketchProvider, SketchProviderUnconfiguredError } from './types';
+
+export const GENERATE_ENDPOINT = '/api/generate';
+
+/**
+ * Generates through the Worker's /api/generate, which holds the Gemini key. It answers
+ * 204 when the model returned no image and 503 when no key is set.
+ */
+export const serverProvider: SketchProvider = {
+  label: 'Gemini',
+  isConfigured: () => typeof fetch !== 'undefined',
+  generate: async (prompt, signal) => {
+    const res = await fetch(GENERATE_ENDPOINT, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ prompt }),
+      signal,
+    });
+
+    if (res.status === 503) throw new SketchProviderUnconfiguredError(await res.text());
+    if (!res.ok) throw new Error(`${GENERATE_ENDPOINT} answered ${res.status}: ${await res.text()}`);
+    return res.status === 204 ? null : res.blob();
+  },
+};
@@ -0,0 +1,21 @@
+import { RgbaImage } from '../../types';
+
+// An encoded image file, or plain pixels from a provider that draws them itself
+export type SketchImage = Blob | RgbaImage;
+
+/**
+ * Turns a text prompt into a sketch the editor can load as its source image
+ */
+export interface SketchProvider<Image extends SketchImage = SketchImage> {
+  label: string;
+  // False when the provider can't run here at all
+  isConfigured: () => boolean;
+  // Resolves to null when the provider answered without an image; rejects once `signal` aborts
+  generate: (prompt: string, signal: AbortSignal) => Promise<Image | null>;
+}
+
+/**
+ * Thrown by `generate` when the provider turns out not to be set up, e.g. the server
+ * has no API key
+ */
+export class SketchProviderUnconfiguredError extends Error {}
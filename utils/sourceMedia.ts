@@ -0,0 +1,158 @@
+import { decodeGif } from './gifDecoder';
+import { fitSize } from './imageProcessing';
+import { loadImage, SourceImage, toImageData } from './canvas';
+import { MAX_SOURCE_FRAMES } from './sourceTiming';
+
+/**
+ * What the editor renders from: a still image, or the frames of an animation or video
+ * clip together with how long each one shows
+ */
+export interface SourceMedia {
+  width: number;
+  height: number;
+  frames: SourceImage[];
+  delays: number[] | null; // ms per frame; null for a still image
+}
+
+// Video is sampled like hand-drawn animation "on twos"
+export const VIDEO_FRAME_RATE = 12;
+
+// Longest side of sampled video frames
+const MAX_VIDEO_SIZE = 1920;
+
+// Frames that don't state a duration show this long, as in browsers
+const DEFAULT_FRAME_DELAY = 100;
+
+export const isSourceFile = (file: Blob) => file.type.startsWith('image/') || file.type.startsWith('video/');
+
+const loadStill = async (blob: Blob): Promise<SourceMedia> => {
+  const url = URL.createObjectURL(blob);
+  try {
+    const img = await loadImage(url);
+    return { width: img.width, height: img.height, frames: [img], delays: null };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * GIFs go through the bundled decoder, so they give the same frames in every browser
+ * (and in the CLI)
+ */
+const loadGif = async (blob: Blob): Promise<SourceMedia | null> => {
+  const gif = decodeGif(new Uint8Array(await blob.arrayBuffer()), MAX_SOURCE_FRAMES);
+  if (gif.frames.length < 2) return null;
+  return {
+    width: gif.width,
+    height: gif.height,
+    frames: await Promise.all(gif.frames.map(f => createImageBitmap(toImageData(f.image)))),
+    delays: gif.frames.map(f => f.delay),
+  };
+};
+
+/**
+ * Animated PNG and WebP, where the browser can decode them frame by frame
+ */
+const loadAnimatedImage = async (blob: Blob): Promise<SourceMedia | null> => {
+  if (typeof ImageDecoder === 'undefined' || !(await ImageDecoder.isTypeSupported(blob.type))) return null;
+
+  const decoder = new ImageDecoder({ data: await blob.arrayBuffer(), type: blob.type });
+  try {
+    await decoder.tracks.ready;
+    const track = decoder.tracks.selectedTrack;
+    if (!track?.animated || track.frameCount < 2) return null;
+
+    const frames: ImageBitmap[] = [];
+    const delays: number[] = [];
+    for (let i = 0; i < Math.min(track.frameCount, MAX_SOURCE_FRAMES); i++) {
+      const { image } = await decoder.decode({ frameIndex: i });
+      frames.push(await createImageBitmap(image));
+      // VideoFrame durations are in microseconds
+      delays.push(image.duration ? image.duration / 1000 : DEFAULT_FRAME_DELAY);
+      image.close();
+    }
+    return { width: frames[0].width, height: frames[0].height, frames, delays };
+  } finally {
+    decoder.close();
+  }
+};
+
+const waitFor = (video: HTMLVideoElement, event: string) =>
+  new Promise<void>((resolve, reject) => {
+    const done = () => {
+      video.removeEventListener(event, done);
+      video.removeEventListener('error', fail);
+      resolve();
+    };
+    const fail = () => {
+      video.removeEventListener(event, done);
+      video.removeEventListener('error', fail);
+      reject(video.error ?? new Error('Could not decode video'));
+    };
+    video.addEventListener(event, done);
+    video.addEventListener('error', fail);
+  });
+
+/**
+ * Samples a video at VIDEO_FRAME_RATE by seeking to the middle of each frame slot
+ */
+const loadVideo = async (blob: Blob): Promise<SourceMedia> => {
+  const url = URL.createObjectURL(blob);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+
+  try {
+    video.src = url;
+    await waitFor(video, 'loadeddata');
+
+    const { width, height } = fitSize(video.videoWidth, video.videoHeight, MAX_VIDEO_SIZE);
+    // Some recordings don't know their duration; they get the longest clip allowed
+    const duration = Number.isFinite(video.duration) ? video.duration : MAX_SOURCE_FRAMES / VIDEO_FRAME_RATE;
+    const count = Math.max(1, Math.min(MAX_SOURCE_FRAMES, Math.round(duration * VIDEO_FRAME_RATE)));
+
+    const frames: ImageBitmap[] = [];
+    for (let i = 0; i < count; i++) {
+      video.currentTime = Math.min(duration, (i + 0.5) / VIDEO_FRAME_RATE);
+      await waitFor(video, 'seeked');
+      frames.push(await createImageBitmap(video, { resizeWidth: width, resizeHeight: height, resizeQuality: 'high' }));
+    }
+
+    return { width, height, frames, delays: frames.map(() => 1000 / VIDEO_FRAME_RATE) };
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * Decodes an uploaded file: videos and animated GIF/APNG/WebP into their frames (up to
+ * MAX_SOURCE_FRAMES), anything else as a still image
+ */
+export const loadSourceMedia = async (blob: Blob): Promise<SourceMedia> => {
+  if (blob.type.startsWith('video/')) return loadVideo(blob);
+  // A GIF our decoder rejects may still open as a still image in the browser
+  const animation = blob.type === 'image/gif'
+    ? await loadGif(blob).catch((err) => { console.error(err); return null; })
+    : ['image/png', 'image/apng', 'image/webp'].includes(blob.type) ? await loadAnimatedImage(blob) : null;
+  return animation ?? loadStill(blob);
+};
+
+/**
+ * Frees the decoded frames of media that is no longer shown
+ */
+export const releaseSourceMedia = (media: SourceMedia) => {
+  for (const frame of media.frames) {
+    if (frame instanceof ImageBitmap) frame.close();
+  }
+};
+
+/**
+ * Bitmaps of every frame at width × height, e.g. to hand to the render worker
+ */
+export const sourceBitmaps = (media: SourceMedia, width: number, height: number): Promise<ImageBitmap[]> =>
+  Promise.all(media.frames.map(frame =>
+    createImageBitmap(frame, { resizeWidth: width, resizeHeight: height, resizeQuality: 'high' })
+  ));
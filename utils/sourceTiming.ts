@@ -0,0 +1,20 @@
+import { ProcessingSettings } from '../types';
+
+// Longer animations and clips are cut off here, to keep their frames in memory
+export const MAX_SOURCE_FRAMES = 120;
+
+/**
+ * The settings a source renders with: an animated source gets one output frame per
+ * source frame, so it sets the frame count (and the loop length in flow mode)
+ */
+export const sourceSettings = (settings: ProcessingSettings, sourceDelays: number[] | null): ProcessingSettings =>
+  sourceDelays ? { ...settings, frameCount: sourceDelays.length } : settings;
+
+/**
+ * How long each output frame shows, in ms. Animated sources keep their own timing
+ * unless retimed to a uniform jitterSpeed.
+ */
+export const frameDelays = (settings: ProcessingSettings, sourceDelays: number[] | null): number[] =>
+  sourceDelays && settings.sourceTiming === 'source'
+    ? sourceDelays
+    : Array.from({ length: sourceDelays?.length ?? settings.frameCount }, () => settings.jitterSpeed);
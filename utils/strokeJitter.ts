@@ -0,0 +1,194 @@
+import { ProcessingSettings } from '../types';
+import { labelConnectedComponents } from './connectedComponents';
+import { createRng, deriveSeed } from './random';
+import { flowWeights, FLOW_BASIS_COUNT, FLOW_BASIS_FRAME, FLOW_MAX_GAIN } from './flow';
+
+/**
+ * A connected stroke of the line mask
+ */
+export interface Stroke {
+  id: number;
+  cx: number; // Centroid
+  cy: number;
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+  radius: number; // Half the bounding-box diagonal
+}
+
+export interface StrokeAnalysis {
+  labels: Int32Array;
+  strokes: Stroke[];
+}
+
+/**
+ * Per-frame rigid-ish motion of one stroke: offset, rotation about its centroid,
+ * and a gentle bow bend across a random axis
+ */
+export interface StrokeTransform {
+  forward: (x: number, y: number) => [number, number];
+  inverse: (x: number, y: number) => [number, number];
+}
+
+// Stream id for stroke randomness (0-2 are the pixel displacement fields)
+const STROKE_STREAM = 3;
+// Rotations stay small so long strokes don't swing wildly
+const MAX_ROTATION = 0.15;
+
+/**
+ * Raw motion of a stroke in one frame: offset, turn and bend in -0.5..0.5 (before
+ * scaling by `jitterAmount`), plus the bend axis in 0..1
+ */
+interface StrokeMotion {
+  ox: number;
+  oy: number;
+  turn: number;
+  bend: number;
+  axis: number;
+}
+
+const sampleMotion = (settings: ProcessingSettings, frameIndex: number, strokeId: number): StrokeMotion => {
+  const rng = createRng(deriveSeed(settings.seed, frameIndex, STROKE_STREAM, strokeId));
+  return { ox: rng() - 0.5, oy: rng() - 0.5, turn: rng() - 0.5, bend: rng() - 0.5, axis: rng() };
+};
+
+/**
+ * Boil draws fresh motion every frame; flow blends fixed basis motions along the loop
+ * and keeps the bend axis of the first one, so the stroke drifts instead of jumping
+ */
+const strokeMotion = (stroke: Stroke, settings: ProcessingSettings, frameIndex: number): StrokeMotion => {
+  if (settings.animationMode !== 'flow') return sampleMotion(settings, frameIndex, stroke.id);
+
+  const weights = flowWeights(settings, frameIndex);
+  const motion: StrokeMotion = { ox: 0, oy: 0, turn: 0, bend: 0, axis: 0 };
+  for (let b = 0; b < FLOW_BASIS_COUNT; b++) {
+    const basis = sampleMotion(settings, FLOW_BASIS_FRAME + b, stroke.id);
+    motion.ox += basis.ox * weights[b];
+    motion.oy += basis.oy * weights[b];
+    motion.turn += basis.turn * weights[b];
+    motion.bend += basis.bend * weights[b];
+    if (b === 0) motion.axis = basis.axis;
+  }
+  return motion;
+};
+
+export const analyzeStrokes = (lineMask: Uint8Array, width: number, height: number): StrokeAnalysis => {
+  const { labels, count } = labelConnectedComponents(lineMask, width, height);
+
+  const sums = new Float64Array((count + 1) * 3);
+  const bounds = new Int32Array((count + 1) * 4);
+  for (let l = 1; l <= count; l++) {
+    bounds[l * 4] = width;
+    bounds[l * 4 + 1] = height;
+    bounds[l * 4 + 2] = -1;
+    bounds[l * 4 + 3] = -1;
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const l = labels[y * width + x];
+      if (l === 0) continue;
+      sums[l * 3] += x;
+      sums[l * 3 + 1] += y;
+      sums[l * 3 + 2]++;
+      if (x < bounds[l * 4]) bounds[l * 4] = x;
+      if (y < bounds[l * 4 + 1]) bounds[l * 4 + 1] = y;
+      if (x > bounds[l * 4 + 2]) bounds[l * 4 + 2] = x;
+      if (y > bounds[l * 4 + 3]) bounds[l * 4 + 3] = y;
+    }
+  }
+
+  const strokes: Stroke[] = [];
+  for (let l = 1; l <= count; l++) {
+    const n = sums[l * 3 + 2];
+    const minX = bounds[l * 4], minY = bounds[l * 4 + 1], maxX = bounds[l * 4 + 2], maxY = bounds[l * 4 + 3];
+    strokes.push({
+      id: l,
+      cx: sums[l * 3] / n,
+      cy: sums[l * 3 + 1] / n,
+      minX, minY, maxX, maxY,
+      radius: Math.max(1, Math.hypot(maxX - minX + 1, maxY - minY + 1) / 2),
+    });
+  }
+
+  return { labels, strokes };
+};
+
+/**
+ * Deterministic transform for a stroke in a given frame, scaled so that no part of
+ * the stroke moves much more than `jitterAmount` pixels
+ */
+export const strokeTransform = (stroke: Stroke, settings: ProcessingSettings, frameIndex: number): StrokeTransform => {
+  const motion = strokeMotion(stroke, settings, frameIndex);
+  const amount = settings.jitterAmount;
+
+  const ox = motion.ox * amount;
+  const oy = motion.oy * amount;
+  const angle = Math.max(-MAX_ROTATION, Math.min(MAX_ROTATION, (motion.turn * amount) / stroke.radius));
+  const bend = motion.bend * amount;
+  const axis = motion.axis * Math.PI;
+
+  const cos = Math.cos(angle), sin = Math.sin(angle);
+  const ux = Math.cos(axis), uy = Math.sin(axis);
+  const { cx, cy, radius } = stroke;
+
+  // Bow: strongest at the middle of the axis, fading to zero at the stroke's extent
+  const bendAt = (x: number, y: number): [number, number] => {
+    const s = Math.max(-1, Math.min(1, ((x - cx) * ux + (y - cy) * uy) / radius));
+    const k = bend * (1 - s * s);
+    return [-uy * k, ux * k];
+  };
+
+  return {
+    forward: (x, y) => {
+      const [bx, by] = bendAt(x, y);
+      const rx = x - cx, ry = y - cy;
+      return [cx + cos * rx - sin * ry + ox + bx, cy + sin * rx + cos * ry + oy + by];
+    },
+    // The bend is smooth and small, so evaluating it at the destination is close enough
+    inverse: (x, y) => {
+      const [bx, by] = bendAt(x, y);
+      const rx = x - cx - ox - bx, ry = y - cy - oy - by;
+      return [cx + cos * rx + sin * ry, cy - sin * rx + cos * ry];
+    },
+  };
+};
+
+/**
+ * Backward-maps every stroke through its own transform. Only the stroke's own pixels
+ * are picked up, so strokes move as whole pieces and keep their continuity.
+ */
+export const mapStrokes = (
+  analysis: StrokeAnalysis,
+  width: number,
+  height: number,
+  settings: ProcessingSettings,
+  frameIndex: number
+): Int32Array => {
+  const { labels, strokes } = analysis;
+  const mapping = new Int32Array(width * height).fill(-1);
+
+  for (const stroke of strokes) {
+    const transform = strokeTransform(stroke, settings, frameIndex);
+    // Destination area: the bounding box grown by the largest possible motion
+    const reach = settings.animationMode === 'flow' ? FLOW_MAX_GAIN : 1;
+    const margin = Math.ceil(settings.jitterAmount * 1.5 * reach + stroke.radius * MAX_ROTATION) + 1;
+    const x0 = Math.max(0, stroke.minX - margin), x1 = Math.min(width - 1, stroke.maxX + margin);
+    const y0 = Math.max(0, stroke.minY - margin), y1 = Math.min(height - 1, stroke.maxY + margin);
+
+    for (let y = y0; y <= y1; y++) {
+      for (let x = x0; x <= x1; x++) {
+        const [sx, sy] = transform.inverse(x, y);
+        const srcX = Math.round(sx);
+        const srcY = Math.round(sy);
+        if (srcX < 0 || srcX >= width || srcY < 0 || srcY >= height) continue;
+
+        const srcIdx = srcY * width + srcX;
+        if (labels[srcIdx] === stroke.id) mapping[y * width + x] = srcIdx;
+      }
+    }
+  }
+
+  return mapping;
+};
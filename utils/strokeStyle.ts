@@ -0,0 +1,363 @@
+import { ProcessingSettings } from '../types';
+import { createRng, deriveSeed, hashToUnit } from './random';
+import { createNoiseMap } from './noise';
+
+/**
+ * The line mask as drawn after stroke styling, plus the ink each of its pixels holds
+ * (0-255). All of it lives in source space, so every frame displaces the texture
+ * together with its line. Null coverage means every line pixel is solid.
+ */
+export interface StyledMask {
+  mask: Uint8Array;
+  coverage: Uint8Array | null;
+  // The detected line pixel each pixel takes its original color from, so grown lines
+  // don't pick up the paper around them; null when the mask only lost pixels
+  colorSource: Int32Array | null;
+}
+
+// Frame index the texture noise is derived with, well clear of real frames and flow bases
+const TEXTURE_FRAME = 1 << 21;
+
+const INF = 1e20;
+
+const hasTexture = (settings: ProcessingSettings) => settings.strokeTexture !== 'none' && settings.textureStrength > 0;
+
+/**
+ * Whether `settings` change the lines beyond the detected mask
+ */
+export const hasStrokeStyle = (settings: ProcessingSettings) =>
+  settings.lineWeight !== 0 || settings.taperLength > 0 || hasTexture(settings);
+
+/**
+ * Squared Euclidean distance transform of one row or column (Felzenszwalb & Huttenlocher).
+ * `nearest` receives the position each distance was measured to.
+ */
+const transform1d = (f: Float64Array, n: number, d: Float64Array, nearest: Int32Array, v: Int32Array, z: Float64Array) => {
+  let k = 0;
+  v[0] = 0;
+  z[0] = -INF;
+  z[1] = INF;
+  for (let q = 1; q < n; q++) {
+    let s = (f[q] + q * q - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    while (s <= z[k]) {
+      k--;
+      s = (f[q] + q * q - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    }
+    k++;
+    v[k] = q;
+    z[k] = s;
+    z[k + 1] = INF;
+  }
+  k = 0;
+  for (let q = 0; q < n; q++) {
+    while (z[k + 1] < q) k++;
+    d[q] = (q - v[k]) * (q - v[k]) + f[v[k]];
+    nearest[q] = v[k];
+  }
+};
+
+/**
+ * Squared distance from every pixel to the nearest pixel where mask === target, and
+ * that pixel's index (meaningless where there is no such pixel at all)
+ */
+const distanceTo = (mask: Uint8Array, width: number, height: number, target: 0 | 1) => {
+  const n = Math.max(width, height);
+  const f = new Float64Array(n);
+  const d = new Float64Array(n);
+  const at = new Int32Array(n);
+  const v = new Int32Array(n);
+  const z = new Float64Array(n + 1);
+  const squared = new Float32Array(width * height);
+  const nearestRow = new Int32Array(width * height);
+  const nearest = new Int32Array(width * height);
+
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) f[y] = mask[y * width + x] === target ? 0 : INF;
+    transform1d(f, height, d, at, v, z);
+    for (let y = 0; y < height; y++) {
+      squared[y * width + x] = d[y];
+      nearestRow[y * width + x] = at[y];
+    }
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) f[x] = squared[y * width + x];
+    transform1d(f, width, d, at, v, z);
+    for (let x = 0; x < width; x++) {
+      squared[y * width + x] = d[x];
+      nearest[y * width + x] = nearestRow[y * width + at[x]] * width + at[x];
+    }
+  }
+
+  return { squared, nearest };
+};
+
+const squaredDistanceTo = (mask: Uint8Array, width: number, height: number, target: 0 | 1) =>
+  distanceTo(mask, width, height, target).squared;
+
+/**
+ * Grows (weight > 0) or shrinks (weight < 0) the lines by |weight| pixels with a round
+ * brush. Shrinking keeps the ridge of every stroke, so thin lines get thinner down to
+ * a pixel or two but never disappear.
+ */
+export const adjustLineWeight = (mask: Uint8Array, width: number, height: number, weight: number): Uint8Array => {
+  if (weight === 0) return mask;
+  const out = new Uint8Array(mask.length);
+
+  if (weight > 0) {
+    const toLine = squaredDistanceTo(mask, width, height, 1);
+    const limit = weight * weight;
+    for (let i = 0; i < out.length; i++) if (toLine[i] <= limit) out[i] = 1;
+    return out;
+  }
+
+  const toPaper = squaredDistanceTo(mask, width, height, 0);
+  const limit = weight * weight;
+  const at = (x: number, y: number) =>
+    x < 0 || x >= width || y < 0 || y >= height ? 0 : toPaper[y * width + x];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (mask[i] !== 1) continue;
+      const d = toPaper[i];
+      const ridge = d >= at(x - 1, y) && d >= at(x + 1, y) && d >= at(x, y - 1) && d >= at(x, y + 1);
+      if (d > limit || ridge) out[i] = 1;
+    }
+  }
+  return out;
+};
+
+/**
+ * Zhang-Suen thinning down to a one pixel wide skeleton
+ */
+const skeletonize = (mask: Uint8Array, width: number, height: number): Uint8Array => {
+  const skeleton = mask.slice();
+  const at = (x: number, y: number) =>
+    x < 0 || x >= width || y < 0 || y >= height ? 0 : skeleton[y * width + x];
+
+  let live: number[] = [];
+  for (let i = 0; i < mask.length; i++) if (mask[i] === 1) live.push(i);
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (let pass = 0; pass < 2; pass++) {
+      const remove: number[] = [];
+      for (const i of live) {
+        const x = i % width;
+        const y = (i - x) / width;
+        // Neighbors clockwise from north
+        const p = [at(x, y - 1), at(x + 1, y - 1), at(x + 1, y), at(x + 1, y + 1),
+          at(x, y + 1), at(x - 1, y + 1), at(x - 1, y), at(x - 1, y - 1)];
+        const count = p[0] + p[1] + p[2] + p[3] + p[4] + p[5] + p[6] + p[7];
+        if (count < 2 || count > 6) continue;
+        let transitions = 0;
+        for (let k = 0; k < 8; k++) if (p[k] === 0 && p[(k + 1) % 8] === 1) transitions++;
+        if (transitions !== 1) continue;
+        const keep = pass === 0
+          ? p[0] * p[2] * p[4] !== 0 || p[2] * p[4] * p[6] !== 0
+          : p[0] * p[2] * p[6] !== 0 || p[0] * p[4] * p[6] !== 0;
+        if (!keep) remove.push(i);
+      }
+      for (const i of remove) skeleton[i] = 0;
+      if (remove.length > 0) {
+        changed = true;
+        live = live.filter(i => skeleton[i] === 1);
+      }
+    }
+  }
+
+  return skeleton;
+};
+
+/**
+ * How far along its stroke every line pixel is from the nearest stroke end, in pixels
+ * (walking inside the mask), up to `limit`. Ends are the tips of the stroke skeleton;
+ * closed loops have none and stay at `limit`.
+ */
+const distanceFromEnds = (
+  mask: Uint8Array,
+  skeleton: Uint8Array,
+  width: number,
+  height: number,
+  limit: number
+): Float32Array => {
+  const distance = new Float32Array(mask.length).fill(limit);
+  let frontier: number[] = [];
+
+  for (let i = 0; i < skeleton.length; i++) {
+    if (skeleton[i] !== 1) continue;
+    const x = i % width;
+    const y = (i - x) / width;
+    let neighbors = 0;
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        const nx = x + dx, ny = y + dy;
+        if ((dx || dy) && nx >= 0 && nx < width && ny >= 0 && ny < height && skeleton[ny * width + nx] === 1) neighbors++;
+      }
+    }
+    if (neighbors <= 1) {
+      distance[i] = 0;
+      frontier.push(i);
+    }
+  }
+
+  // Breadth-first over the mask, one step per ring
+  for (let step = 1; step < limit && frontier.length > 0; step++) {
+    const next: number[] = [];
+    for (const i of frontier) {
+      const x = i % width;
+      const y = (i - x) / width;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx, ny = y + dy;
+          if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+          const n = ny * width + nx;
+          if (mask[n] === 1 && distance[n] > step) {
+            distance[n] = step;
+            next.push(n);
+          }
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  return distance;
+};
+
+/**
+ * Narrows strokes toward their ends: a pixel `t` of the way into the taper keeps only
+ * the middle `t` of the stroke's width and fades, so even one pixel lines taper
+ */
+const taperStrokes = (
+  mask: Uint8Array,
+  coverage: Float32Array,
+  width: number,
+  height: number,
+  length: number
+): Uint8Array => {
+  const skeleton = skeletonize(mask, width, height);
+  const fromEnds = distanceFromEnds(mask, skeleton, width, height, length);
+  const toPaper = squaredDistanceTo(mask, width, height, 0);
+  const toCenter = squaredDistanceTo(skeleton, width, height, 1);
+  const out = new Uint8Array(mask.length);
+
+  for (let i = 0; i < mask.length; i++) {
+    if (mask[i] !== 1) continue;
+    const t = fromEnds[i] / length;
+    const center = Math.sqrt(toCenter[i]);
+    const halfWidth = center + Math.sqrt(toPaper[i]);
+    if (center > halfWidth * t) continue;
+    out[i] = 1;
+    coverage[i] *= 0.2 + 0.8 * t;
+  }
+  return out;
+};
+
+/**
+ * Smooth noise in 0..1 for texturing, with cells `cellSize` pixels wide
+ */
+const textureNoise = (width: number, height: number, seed: number, stream: number, cellSize: number) => {
+  const map = createNoiseMap(width, height, createRng(deriveSeed(seed, TEXTURE_FRAME, stream)), {
+    type: 'value',
+    octaves: 2,
+    cellSize,
+  });
+  for (let i = 0; i < map.length; i++) map[i] = map[i] * 0.5 + 0.5;
+  return map;
+};
+
+/**
+ * Applies the brush texture to the line coverage. Pencil is graphite catching on paper
+ * tooth, chalk breaks up into dry gaps and ink bleeds past the line into rough, fading
+ * edges (growing the mask). `grain` is the texture's finest detail in pixels.
+ */
+const applyTexture = (
+  mask: Uint8Array,
+  coverage: Float32Array,
+  width: number,
+  height: number,
+  settings: ProcessingSettings,
+  grain: number
+): Uint8Array => {
+  const { strokeTexture, textureStrength: strength, seed } = settings;
+  const grainSeed = deriveSeed(seed, TEXTURE_FRAME, 0);
+  const cols = Math.ceil(width / grain);
+  const speck = (i: number) => {
+    const x = i % width;
+    const y = (i - x) / width;
+    return hashToUnit(grainSeed, Math.floor(y / grain) * cols + Math.floor(x / grain));
+  };
+
+  if (strokeTexture === 'pencil') {
+    const tooth = textureNoise(width, height, seed, 1, grain * 3);
+    for (let i = 0; i < mask.length; i++) {
+      if (mask[i] !== 1) continue;
+      coverage[i] *= 1 - strength * 0.75 * (0.6 * speck(i) + 0.4 * tooth[i]);
+    }
+    return mask;
+  }
+
+  if (strokeTexture === 'chalk') {
+    const drag = textureNoise(width, height, seed, 1, grain * 6);
+    for (let i = 0; i < mask.length; i++) {
+      if (mask[i] !== 1) continue;
+      const dry = 0.55 * speck(i) + 0.45 * drag[i];
+      coverage[i] *= dry < strength * 0.5 ? 0 : 1 - strength * 0.3 * speck(i);
+    }
+    return mask;
+  }
+
+  if (strokeTexture === 'ink') {
+    const reach = grain * (1 + 5 * strength);
+    const bleed = textureNoise(width, height, seed, 1, grain * 4);
+    const toLine = squaredDistanceTo(mask, width, height, 1);
+    const out = mask.slice();
+    for (let i = 0; i < mask.length; i++) {
+      if (mask[i] === 1) continue;
+      const d = Math.sqrt(toLine[i]);
+      // Each spot soaks up ink to its own distance, so the edge comes out ragged
+      const soak = reach * (0.3 + 1.2 * bleed[i]) - d;
+      if (soak <= 0) continue;
+      out[i] = 1;
+      coverage[i] = Math.min(1, soak / grain) * (0.5 + 0.3 * speck(i));
+    }
+    return out;
+  }
+
+  return mask;
+};
+
+/**
+ * Styles the detected line mask with `settings` (already in pixels): line weight,
+ * then tapered ends, then the brush texture. `grain` is the texture's finest detail,
+ * which scales with the render size like every other pixel-valued setting.
+ */
+export const styleLineMask = (
+  lineMask: Uint8Array,
+  width: number,
+  height: number,
+  settings: ProcessingSettings,
+  grain: number
+): StyledMask => {
+  if (!hasStrokeStyle(settings)) return { mask: lineMask, coverage: null, colorSource: null };
+
+  let mask = adjustLineWeight(lineMask, width, height, settings.lineWeight);
+  const coverage = new Float32Array(mask.length).fill(1);
+
+  if (settings.taperLength > 0) mask = taperStrokes(mask, coverage, width, height, settings.taperLength);
+  if (hasTexture(settings)) mask = applyTexture(mask, coverage, width, height, settings, Math.max(1, grain));
+
+  let colorSource: Int32Array | null = null;
+  for (let i = 0; i < mask.length; i++) {
+    if (mask[i] === 1 && lineMask[i] !== 1) {
+      colorSource = distanceTo(lineMask, width, height, 1).nearest;
+      break;
+    }
+  }
+
+  if (settings.taperLength <= 0 && !hasTexture(settings)) return { mask, coverage: null, colorSource };
+  const bytes = new Uint8Array(mask.length);
+  for (let i = 0; i < bytes.length; i++) bytes[i] = Math.round(coverage[i] * 255);
+  return { mask, coverage: bytes, colorSource };
+};
@@ -0,0 +1,154 @@
+import { ProcessingSettings, RgbaImage } from '../types';
+import { toLuma, gaussianBlur, sobel } from './edgeDetection';
+
+// Share of pixels that should end up as lines when targeting gradient percentiles
+const EDGE_TARGET_RATIO = 0.08;
+
+/**
+ * Otsu's method: the luma cutoff (0-255) that best separates ink from paper
+ */
+export const otsuThreshold = (luma: Float32Array): number => {
+  const histogram = new Uint32Array(256);
+  for (let i = 0; i < luma.length; i++) {
+    histogram[Math.min(255, Math.max(0, Math.round(luma[i])))]++;
+  }
+
+  const total = luma.length;
+  let sumAll = 0;
+  for (let v = 0; v < 256; v++) sumAll += v * histogram[v];
+
+  let sumBelow = 0;
+  let countBelow = 0;
+  let best = 0;
+  let bestVariance = -1;
+
+  for (let v = 0; v < 256; v++) {
+    countBelow += histogram[v];
+    if (countBelow === 0) continue;
+    const countAbove = total - countBelow;
+    if (countAbove === 0) break;
+
+    sumBelow += v * histogram[v];
+    const meanBelow = sumBelow / countBelow;
+    const meanAbove = (sumAll - sumBelow) / countAbove;
+    const variance = countBelow * countAbove * (meanBelow - meanAbove) ** 2;
+
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = v;
+    }
+  }
+
+  // Lines are pixels strictly darker than the threshold, so include the dark class
+  return best + 1;
+};
+
+/**
+ * Value below which `ratio` of the samples fall
+ */
+const percentile = (values: Float32Array, ratio: number): number => {
+  const sorted = values.slice().sort();
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.floor(sorted.length * ratio)))];
+};
+
+/**
+ * The gradient metric used by 'edge' mode: RGB difference to the right and bottom neighbors
+ */
+const neighborDiff = (sourceData: RgbaImage): Float32Array => {
+  const { width, height, data } = sourceData;
+  const diff = new Float32Array(Math.max(0, (width - 1) * (height - 1)));
+  let n = 0;
+  for (let y = 0; y < height - 1; y++) {
+    for (let x = 0; x < width - 1; x++) {
+      const idx = (y * width + x) * 4;
+      const right = idx + 4;
+      const below = idx + width * 4;
+      diff[n++] =
+        Math.abs(data[idx] - data[right]) + Math.abs(data[idx + 1] - data[right + 1]) + Math.abs(data[idx + 2] - data[right + 2]) +
+        Math.abs(data[idx] - data[below]) + Math.abs(data[idx + 1] - data[below + 1]) + Math.abs(data[idx + 2] - data[below + 2]);
+    }
+  }
+  return diff;
+};
+
+const clampThreshold = (v: number) => Math.round(Math.min(500, Math.max(0, v)));
+
+// Edge modes keep pixels strictly above `500 - threshold`, so step one below the percentile
+const cutoffToThreshold = (cutoff: number) => clampThreshold(500 - Math.floor(cutoff) + 1);
+
+/**
+ * Suggests extraction settings for the current detection mode:
+ * Otsu for luma-based modes, gradient-percentile targeting for edge modes.
+ */
+export const suggestThreshold = (sourceData: RgbaImage, settings: ProcessingSettings): Partial<ProcessingSettings> => {
+  const { width, height } = sourceData;
+  if (width === 0 || height === 0) return {};
+
+  switch (settings.detectionMode) {
+    case 'brightness':
+      return { threshold: clampThreshold(otsuThreshold(toLuma(sourceData))) };
+
+    case 'xdog':
+      // ε is threshold / 500 * 255 in luma units
+      return { threshold: clampThreshold(otsuThreshold(toLuma(sourceData)) / 255 * 500) };
+
+    case 'edge': {
+      const cutoff = percentile(neighborDiff(sourceData), 1 - EDGE_TARGET_RATIO);
+      return { threshold: cutoffToThreshold(cutoff) };
+    }
+
+    case 'sobel': {
+      const luma = gaussianBlur(toLuma(sourceData), width, height, settings.edgeBlur);
+      const cutoff = percentile(sobel(luma, width, height).magnitude, 1 - EDGE_TARGET_RATIO);
+      return { threshold: cutoffToThreshold(cutoff) };
+    }
+
+    case 'canny': {
+      const luma = gaussianBlur(toLuma(sourceData), width, height, settings.edgeBlur);
+      const high = percentile(sobel(luma, width, height).magnitude, 1 - EDGE_TARGET_RATIO);
+      return { cannyHigh: clampThreshold(high), cannyLow: clampThreshold(high * 0.4) };
+    }
+
+    default:
+      return {};
+  }
+};
+
+/**
+ * Locally-adaptive thresholding: a pixel is a line when it is darker than the mean of its
+ * neighborhood by more than `adaptiveOffset`. Copes with uneven lighting and paper shadows.
+ */
+export const adaptiveMask = (sourceData: RgbaImage, settings: ProcessingSettings): Uint8Array => {
+  const { width, height } = sourceData;
+  const luma = toLuma(sourceData);
+  const radius = Math.max(1, Math.round(settings.adaptiveRadius));
+
+  // Summed-area table, padded by one row/column of zeros
+  const stride = width + 1;
+  const integral = new Float64Array(stride * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += luma[y * width + x];
+      integral[(y + 1) * stride + (x + 1)] = integral[y * stride + (x + 1)] + rowSum;
+    }
+  }
+
+  const mask = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - radius);
+    const y1 = Math.min(height, y + radius + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - radius);
+      const x1 = Math.min(width, x + radius + 1);
+      const area = (x1 - x0) * (y1 - y0);
+      const sum = integral[y1 * stride + x1] - integral[y0 * stride + x1] - integral[y1 * stride + x0] + integral[y0 * stride + x0];
+
+      if (luma[y * width + x] < sum / area - settings.adaptiveOffset) {
+        mask[y * width + x] = 1;
+      }
+    }
+  }
+
+  return mask;
+};
@@ -4,70 +4,340 @@ export type Language = 'en' | 'zh';
 export const translations = {
   en: {
     appTitle: "WiggleLine Studio",
-    downloadGif: "Download GIF",
+    download: "Download",
     uploadImage: "Upload Image",
     generateSample: "Generate Sample",
     startCreating: "Start Creating",
-    introText: "Upload a line drawing or sketch to create a boiling line animation. Simple, high-contrast images work best.",
+    introText: "Upload a line drawing or sketch to create a boiling line animation. Simple, high-contrast images work best. Animated GIF/PNG/WebP and short videos get every frame redrawn.",
     uploadSketch: "Upload Sketch",
     or: "or",
     generateWithAi: "Generate one with AI",
     dreaming: "Dreaming up a sketch...",
-    rendering: "Rendering GIF...",
+    generateTitle: "Generate a Sketch",
+    generateSketch: "Generate",
+    promptLabel: "Describe the drawing",
+    styleModifiers: "Style",
+    styleThickLines: "Thick lines",
+    styleThinLines: "Thin lines",
+    styleMinimal: "Minimal details",
+    styleContinuousLine: "One continuous line",
+    stylePencil: "Pencil",
+    styleInk: "Ink",
+    styleCartoon: "Cartoon",
+    styleWhiteBackground: "White background",
+    rendering: "Rendering export...",
+    processingFrames: "Rendering frames",
     settings: "Settings",
+    presets: "Presets",
+    undo: "Undo",
+    batch: "Batch",
+    batchTitle: "Batch Export",
+    batchAddFiles: "Add Files",
+    batchClear: "Clear",
+    batchClose: "Close",
+    batchDropHint: "Drop images here or click to add them",
+    batchQueued: "Queued",
+    batchRendering: "Rendering",
+    batchDone: "Done",
+    batchError: "Failed",
+    batchCustomize: "Overrides",
+    batchOverridden: "Custom",
+    batchShared: "Shared",
+    batchUsesExport: "Exports with the current settings as",
+    batchStart: "Render All",
+    batchCancel: "Stop",
+    batchDownloadZip: "Download ZIP",
+    redo: "Redo",
+    historyInitial: "Initial settings",
+    openProject: "Open Project",
+    saveProject: "Save Project",
+    projectOpenError: "That file isn't a project this version can open.",
+    projectSaveError: "Couldn't save the project. Please try again.",
+    presetChoose: "Apply a preset...",
+    presetBuiltIn: "Built-in",
+    presetSaved: "Saved",
+    presetNamePlaceholder: "Preset name",
+    presetSave: "Save",
+    presetDelete: "Delete",
+    presetImport: "Import",
+    presetExport: "Export",
+    presetImportError: "That file isn't a compatible preset file.",
     extraction: "Extraction",
     threshold: "Sensitivity",
     detectionMode: "Detection Mode",
     modeBrightness: "Darkness (Sketches)",
     modeEdge: "Edge (Photos/Art)",
+    modeSobel: "Sobel (Smooth Edges)",
+    modeCanny: "Canny (Thin Outlines)",
+    modeXdog: "XDoG (Inked Look)",
+    modeAdaptive: "Adaptive (Uneven Lighting)",
+    autoThreshold: "Auto Sensitivity",
+    adaptiveRadius: "Neighborhood Size (Px)",
+    adaptiveOffset: "Darkness Offset",
+    edgeBlur: "Pre-Blur",
+    cannyLow: "Weak Edge Threshold",
+    cannyHigh: "Strong Edge Threshold",
+    xdogSigma: "Ink Blur (σ)",
+    xdogSharpness: "Ink Sharpness",
     useOriginalColors: "Use Original Colors",
     animation: "Animation",
+    jitterMode: "Jitter Style",
+    jitterModePixel: "Boil (Per Pixel)",
+    jitterModeStroke: "Redrawn Strokes",
+    noiseType: "Noise Type",
+    noiseValue: "Value (Classic)",
+    noisePerlin: "Perlin",
+    noiseSimplex: "Simplex",
+    noiseScale: "Noise Size (%)",
+    noiseOctaves: "Noise Detail (Octaves)",
+    noiseAnisotropy: "Direction (Vertical ↔ Horizontal)",
     jitterAmount: "Jitter Amount (Px)",
     speed: "Speed (ms/frame)",
+    sourceTiming: "Timing",
+    timingSource: "Source Timing",
+    timingUniform: "Uniform (Speed Slider)",
+    sourceFrames: "Source Frames",
     uniqueFrames: "Unique Frames",
+    animationMode: "Motion",
+    animationBoil: "Boil (Independent Frames)",
+    animationFlow: "Flow (Seamless Loop)",
+    loopLength: "Loop Length (Frames)",
+    flowSmoothness: "Smoothness",
+    seed: "Jitter Seed",
+    lockSeed: "Lock seed (keep this wiggle)",
+    unlockSeed: "Unlock seed (new wiggle on every change)",
+    rerollSeed: "Reroll seed",
     style: "Style",
     lineColor: "Line Color",
+    lineWeight: "Line Weight",
+    taperLength: "Taper Ends",
+    strokeTexture: "Brush Texture",
+    textureNone: "None",
+    texturePencil: "Pencil",
+    textureInk: "Ink Bleed",
+    textureChalk: "Chalk",
+    textureStrength: "Texture Strength",
+    paletteMode: "Color Palette",
+    paletteOff: "Off",
+    paletteExtracted: "Extracted from Image",
+    paletteSwatches: "Swatches",
+    paletteDuotone: "Duotone (by tone)",
+    paletteGradient: "Gradient",
+    paletteSize: "Palette Colors",
+    paletteColors: "Swatches",
+    addSwatch: "Add swatch",
+    removeSwatch: "Remove swatch",
+    extractPalette: "Extract from Image",
+    editExtractedPalette: "Edit as Swatches",
+    paletteExtractError: "Couldn't find any line colors to extract.",
+    gradientDirection: "Gradient Direction",
+    gradientHorizontal: "Left to Right",
+    gradientVertical: "Top to Bottom",
+    gradientDiagonal: "Diagonal",
+    gradientRadial: "Radial",
     bgColor: "Background Color",
-    exportGif: "Export GIF",
+    transparentBg: "Transparent Background",
+    antiHalo: "Remove Edge Halo",
+    backgroundStyle: "Background",
+    backgroundFlat: "Flat",
+    backgroundPaper: "Paper",
+    backgroundNotebook: "Notebook",
+    backgroundGrid: "Grid",
+    backgroundChalkboard: "Chalkboard",
+    backgroundTexture: "Imported Texture",
+    backgroundStrength: "Background Strength",
+    importTexture: "Import Texture",
+    replaceTexture: "Replace Texture",
+    textureLoadError: "Couldn't load that texture image.",
+    underlayOpacity: "Original Underlay",
+    underlayDesaturation: "Underlay Desaturation",
+    underlayJitter: "Underlay Jitter",
+    export: "Export",
+    exportFormat: "Format",
+    exportQuality: "Quality",
+    loopCount: "Loops",
+    loopForever: "forever",
+    dither: "Dithering",
+    exportResolution: "Resolution",
+    resolutionPreview: "Preview",
+    resolutionOriginal: "Original",
+    formatUnsupported: "This browser can't export this format.",
+    formatLeavesOut: "Not in this format: ",
+    listSeparator: ", ",
+    exportError: "Export failed. Please try again.",
     generating: "Generating...",
-    apiKeyAlert: "Please provide an API_KEY in the environment variables to use Gemini.",
+    apiKeyAlert: "Sketch generation isn't set up: the server needs a GEMINI_API_KEY secret to use Gemini.",
     geminiError: "Gemini did not return an image. Try again.",
     generalError: "Failed to generate image with Gemini.",
-    gifLibError: "GIF library not loaded. Please refresh.",
     prompt: "A simple, clean, black and white 2d line art sketch of a cute robot cat, minimal details, white background, thick lines."
   },
   zh: {
     appTitle: "WiggleLine Studio",
-    downloadGif: "下载 GIF",
+    download: "下载",
     uploadImage: "上传图片",
     generateSample: "生成示例",
     startCreating: "开始创作",
-    introText: "上传简笔画或素描，一键制作“抖动线条”动画。简单的高对比度图像效果最佳。",
+    introText: "上传简笔画或素描，一键制作“抖动线条”动画。简单的高对比度图像效果最佳。动图 (GIF/PNG/WebP) 和短视频会逐帧重绘。",
     uploadSketch: "上传草图",
     or: "或",
     generateWithAi: "使用 AI 生成一张",
     dreaming: "正在绘制草图...",
-    rendering: "正在渲染 GIF...",
+    generateTitle: "生成草图",
+    generateSketch: "生成",
+    promptLabel: "描述你想要的画面",
+    styleModifiers: "风格",
+    styleThickLines: "粗线条",
+    styleThinLines: "细线条",
+    styleMinimal: "极简细节",
+    styleContinuousLine: "一笔画",
+    stylePencil: "铅笔",
+    styleInk: "墨水",
+    styleCartoon: "卡通",
+    styleWhiteBackground: "白色背景",
+    rendering: "正在渲染导出...",
+    processingFrames: "正在渲染帧",
     settings: "设置",
+    presets: "预设",
+    undo: "撤销",
+    batch: "批量",
+    batchTitle: "批量导出",
+    batchAddFiles: "添加文件",
+    batchClear: "清空",
+    batchClose: "关闭",
+    batchDropHint: "将图片拖到这里，或点击添加",
+    batchQueued: "排队中",
+    batchRendering: "渲染中",
+    batchDone: "完成",
+    batchError: "失败",
+    batchCustomize: "单独设置",
+    batchOverridden: "已自定义",
+    batchShared: "共用",
+    batchUsesExport: "使用当前设置导出为",
+    batchStart: "全部渲染",
+    batchCancel: "停止",
+    batchDownloadZip: "下载 ZIP",
+    redo: "重做",
+    historyInitial: "初始设置",
+    openProject: "打开项目",
+    saveProject: "保存项目",
+    projectOpenError: "此版本无法打开该项目文件。",
+    projectSaveError: "项目保存失败，请重试。",
+    presetChoose: "应用预设...",
+    presetBuiltIn: "内置",
+    presetSaved: "已保存",
+    presetNamePlaceholder: "预设名称",
+    presetSave: "保存",
+    presetDelete: "删除",
+    presetImport: "导入",
+    presetExport: "导出",
+    presetImportError: "该文件不是兼容的预设文件。",
     extraction: "线条提取",
     threshold: "灵敏度",
     detectionMode: "提取模式",
     modeBrightness: "亮度检测 (适合简笔画)",
     modeEdge: "边缘检测 (适合照片/插画)",
+    modeSobel: "Sobel (平滑边缘)",
+    modeCanny: "Canny (细轮廓)",
+    modeXdog: "XDoG (墨线效果)",
+    modeAdaptive: "自适应 (光照不均)",
+    autoThreshold: "自动灵敏度",
+    adaptiveRadius: "邻域大小 (像素)",
+    adaptiveOffset: "暗度偏移",
+    edgeBlur: "预模糊",
+    cannyLow: "弱边缘阈值",
+    cannyHigh: "强边缘阈值",
+    xdogSigma: "墨线模糊 (σ)",
+    xdogSharpness: "墨线锐度",
     useOriginalColors: "保留原始颜色",
     animation: "动画设置",
+    jitterMode: "抖动方式",
+    jitterModePixel: "沸腾 (逐像素)",
+    jitterModeStroke: "整笔重绘",
+    noiseType: "噪声类型",
+    noiseValue: "值噪声 (经典)",
+    noisePerlin: "Perlin",
+    noiseSimplex: "Simplex",
+    noiseScale: "噪声尺寸 (%)",
+    noiseOctaves: "噪声细节 (倍频)",
+    noiseAnisotropy: "方向 (纵向 ↔ 横向)",
     jitterAmount: "抖动幅度 (像素)",
     speed: "速度 (毫秒/帧)",
+    sourceTiming: "节奏",
+    timingSource: "沿用原动画节奏",
+    timingUniform: "匀速 (使用速度滑块)",
+    sourceFrames: "原动画帧数",
     uniqueFrames: "循环帧数",
+    animationMode: "运动方式",
+    animationBoil: "沸腾 (独立帧)",
+    animationFlow: "流动 (无缝循环)",
+    loopLength: "循环长度 (帧)",
+    flowSmoothness: "平滑度",
+    seed: "抖动种子",
+    lockSeed: "锁定种子（保留当前抖动）",
+    unlockSeed: "解锁种子（每次修改都生成新抖动）",
+    rerollSeed: "随机新种子",
     style: "样式",
     lineColor: "线条颜色",
+    lineWeight: "线条粗细",
+    taperLength: "笔锋收尖",
+    strokeTexture: "笔刷质感",
+    textureNone: "无",
+    texturePencil: "铅笔",
+    textureInk: "墨水晕染",
+    textureChalk: "粉笔",
+    textureStrength: "质感强度",
+    paletteMode: "调色板",
+    paletteOff: "关闭",
+    paletteExtracted: "从图片提取",
+    paletteSwatches: "色板",
+    paletteDuotone: "双色调（按明暗）",
+    paletteGradient: "渐变",
+    paletteSize: "调色板颜色数",
+    paletteColors: "色板",
+    addSwatch: "添加颜色",
+    removeSwatch: "移除颜色",
+    extractPalette: "从图片提取",
+    editExtractedPalette: "转为色板编辑",
+    paletteExtractError: "未找到可提取的线条颜色。",
+    gradientDirection: "渐变方向",
+    gradientHorizontal: "从左到右",
+    gradientVertical: "从上到下",
+    gradientDiagonal: "对角",
+    gradientRadial: "径向",
     bgColor: "背景颜色",
-    exportGif: "导出 GIF",
+    transparentBg: "透明背景",
+    antiHalo: "去除边缘光晕",
+    backgroundStyle: "背景",
+    backgroundFlat: "纯色",
+    backgroundPaper: "纸张",
+    backgroundNotebook: "笔记本",
+    backgroundGrid: "方格纸",
+    backgroundChalkboard: "黑板",
+    backgroundTexture: "导入纹理",
+    backgroundStrength: "背景强度",
+    importTexture: "导入纹理",
+    replaceTexture: "更换纹理",
+    textureLoadError: "无法加载该纹理图片。",
+    underlayOpacity: "原图底稿",
+    underlayDesaturation: "底稿去色",
+    underlayJitter: "底稿抖动",
+    export: "导出",
+    exportFormat: "格式",
+    exportQuality: "质量",
+    loopCount: "循环次数",
+    loopForever: "无限",
+    dither: "抖动仿色",
+    exportResolution: "分辨率",
+    resolutionPreview: "预览尺寸",
+    resolutionOriginal: "原图尺寸",
+    formatUnsupported: "当前浏览器不支持导出此格式。",
+    formatLeavesOut: "此格式不包含：",
+    listSeparator: "、",
+    exportError: "导出失败，请重试。",
     generating: "生成中...",
-    apiKeyAlert: "请在环境变量中提供 API_KEY 以使用 Gemini。",
+    apiKeyAlert: "草图生成尚未配置：服务器需要设置 GEMINI_API_KEY 密钥才能使用 Gemini。",
     geminiError: "Gemini 未返回图片，请重试。",
     generalError: "Gemini 生成图片失败。",
-    gifLibError: "GIF 库未加载，请刷新页面。",
     prompt: "一张简单、干净的黑白二维简笔画，画一只可爱的机器猫，细节极少，白色背景，线条粗犷。"
   }
 };
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS } from '../constants';
+import { createRgbaImage } from './imageProcessing';
+import { buildAnimatedSvg, displacementMap, traceLineMask, VectorPath } from './vectorize';
+
+const SIZE = 24;
+
+// Shoelace area of a closed outline; positive for the clockwise (on screen) outlines we trace
+const area = (points: number[]) => {
+  let sum = 0;
+  for (let i = 0; i < points.length; i += 2) {
+    const j = (i + 2) % points.length;
+    sum += points[i] * points[j + 1] - points[j] * points[i + 1];
+  }
+  return sum / 2;
+};
+
+describe('traceLineMask', () => {
+  it('traces a one-pixel diagonal as a thin straight band, not a staircase', () => {
+    const mask = new Uint8Array(SIZE * SIZE);
+    for (let i = 2; i < SIZE - 2; i++) mask[i * SIZE + i] = 1;
+
+    const paths = traceLineMask(mask, createRgbaImage(SIZE, SIZE), DEFAULT_SETTINGS);
+
+    expect(paths).toHaveLength(1);
+    expect(paths[0].points.length / 2).toBeLessThanOrEqual(6);
+    // Still about as wide as the pixels it came from
+    expect(area(paths[0].points)).toBeGreaterThan((SIZE - 4) * 0.6);
+  });
+
+  it('keeps holes as outlines of their own', () => {
+    const mask = new Uint8Array(SIZE * SIZE);
+    for (let y = 4; y < 20; y++) {
+      for (let x = 4; x < 20; x++) mask[y * SIZE + x] = x < 8 || x >= 16 || y < 8 || y >= 16 ? 1 : 0;
+    }
+
+    const paths = traceLineMask(mask, createRgbaImage(SIZE, SIZE), DEFAULT_SETTINGS);
+
+    expect(paths).toHaveLength(2);
+    expect(Math.sign(area(paths[0].points))).toBe(-Math.sign(area(paths[1].points)));
+  });
+});
+
+describe('displacementMap', () => {
+  it('stores the shift that pulls each pixel in, centered on 0.5', () => {
+    const field = { x: new Float32Array(SIZE * SIZE).fill(1), y: new Float32Array(SIZE * SIZE) };
+
+    const map = displacementMap(field, SIZE, SIZE, { ...DEFAULT_SETTINGS, jitterAmount: 2 })!;
+
+    // The raster frames take pixel x from x - 2, so the filter looks 2 pixels left
+    expect(map.scale).toBe(4);
+    expect(map.image.data[0]).toBe(0);
+    expect(map.image.data[1]).toBe(Math.round(Math.round(0.5 * 31) * 255 / 31));
+  });
+
+  it('is null when nothing moves', () => {
+    const field = { x: new Float32Array(SIZE * SIZE), y: new Float32Array(SIZE * SIZE) };
+
+    expect(displacementMap(field, SIZE, SIZE, DEFAULT_SETTINGS)).toBeNull();
+  });
+});
+
+describe('buildAnimatedSvg', () => {
+  const paths: VectorPath[] = [{ points: [2, 2, 10, 2, 10, 10], color: '#000000', strokeId: 1 }];
+  const map = { image: createRgbaImage(2, 2), scale: 3, spacing: 20, href: 'data:image/png;base64,' };
+
+  it('writes shared outlines once and shifts them through each frame\'s map', () => {
+    const svg = buildAnimatedSvg(() => paths, [100, 100, 100], { kind: 'field', maps: [map, map, map] }, SIZE, SIZE, DEFAULT_SETTINGS);
+
+    expect(svg.match(/<path /g)).toHaveLength(1);
+    expect(svg.match(/<feDisplacementMap /g)).toHaveLength(3);
+    expect(svg.match(/<use href="#s0" filter="url\(#d\d\)"\/>/g)).toHaveLength(3);
+  });
+
+  it('moves the vertices of every frame when asked to', () => {
+    const svg = buildAnimatedSvg(() => paths, [100, 100], {
+      kind: 'vertices',
+      displace: (f, x, y) => [x + f, y],
+    }, SIZE, SIZE, DEFAULT_SETTINGS);
+
+    expect(svg).toContain('d="M2 2l8 0 0 8z"');
+    expect(svg).toContain('d="M3 2l8 0 0 8z"');
+  });
+});
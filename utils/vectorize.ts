@@ -0,0 +1,387 @@
+import { ProcessingSettings, RgbaImage } from '../types';
+import { createRgbaImage, DisplacementField } from './imageProcessing';
+import { labelConnectedComponents } from './connectedComponents';
+import { hexToRgbTuple, PaletteMapper } from './palette';
+import { Stroke } from './strokeJitter';
+
+/**
+ * A closed outline traced from the line mask. `points` is a flat [x0, y0, x1, y1, ...] list.
+ */
+export interface VectorPath {
+  points: number[];
+  color: string;
+  strokeId: number; // Connected component the outline belongs to
+}
+
+/**
+ * Moves a vertex for a given frame
+ */
+export type VertexDisplacer = (frameIndex: number, x: number, y: number, strokeId: number) => [number, number];
+
+// Max deviation (px) when merging outline vertices
+const SIMPLIFY_TOLERANCE = 0.75;
+
+// For outlines that collapse at SIMPLIFY_TOLERANCE: under the 0.71px a one-pixel
+// diagonal is wide once traced, so such strokes keep their width
+const THIN_TOLERANCE = 0.5;
+
+// Steps per displacement map channel: about a fifth of a pixel at the default jitter,
+// finer than the raster frames' whole-pixel rounding, and few enough to compress well
+const MAP_LEVELS = 31;
+
+const toHex = (r: number, g: number, b: number) =>
+  '#' + [r, g, b].map(v => Math.round(v).toString(16).padStart(2, '0')).join('');
+
+const perpendicularDistance = (
+  px: number, py: number,
+  ax: number, ay: number,
+  bx: number, by: number
+): number => {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const len = Math.hypot(dx, dy);
+  if (len === 0) return Math.hypot(px - ax, py - ay);
+  return Math.abs(dy * px - dx * py + bx * ay - by * ax) / len;
+};
+
+/**
+ * Ramer–Douglas–Peucker on a flat point list (kept iterative to survive long outlines)
+ */
+const simplify = (points: number[], tolerance: number): number[] => {
+  const count = points.length / 2;
+  if (count <= 3) return points;
+
+  const keep = new Uint8Array(count);
+  keep[0] = 1;
+  keep[count - 1] = 1;
+  const stack: [number, number][] = [[0, count - 1]];
+
+  while (stack.length > 0) {
+    const [start, end] = stack.pop()!;
+    let maxDist = 0;
+    let index = -1;
+    for (let i = start + 1; i < end; i++) {
+      const d = perpendicularDistance(
+        points[i * 2], points[i * 2 + 1],
+        points[start * 2], points[start * 2 + 1],
+        points[end * 2], points[end * 2 + 1]
+      );
+      if (d > maxDist) {
+        maxDist = d;
+        index = i;
+      }
+    }
+    if (index !== -1 && maxDist > tolerance) {
+      keep[index] = 1;
+      stack.push([start, index], [index, end]);
+    }
+  }
+
+  const out: number[] = [];
+  for (let i = 0; i < count; i++) {
+    if (keep[i]) out.push(points[i * 2], points[i * 2 + 1]);
+  }
+  return out;
+};
+
+/**
+ * Traces the outlines of the line mask into closed paths. Every boundary edge is oriented
+ * clockwise around its filled pixel, so the nonzero rule keeps holes open. The outlines
+ * run through the middle of each pixel edge rather than its corners, which turns
+ * staircases into the diagonals and curves they stand for.
+ */
+export const traceLineMask = (
+  lineMask: Uint8Array,
+  sourceData: RgbaImage,
+  settings: ProcessingSettings,
+  labeled = labelConnectedComponents(lineMask, sourceData.width, sourceData.height)
+): VectorPath[] => {
+  const { width, height } = sourceData;
+  const src = sourceData.data;
+  const stride = width + 1;
+  const { labels, count } = labeled;
+  const filled = (x: number, y: number) =>
+    x >= 0 && x < width && y >= 0 && y < height && lineMask[y * width + x] === 1;
+
+  // With original colors, each stroke gets its average color. Coloring whole components
+  // (not single outlines) keeps holes in the same <path> as their outer boundary.
+  const strokeColors: string[] = [];
+  if (settings.useOriginalColors) {
+    const sums = new Float64Array((count + 1) * 4);
+    for (let i = 0; i < labels.length; i++) {
+      const l = labels[i];
+      if (l === 0) continue;
+      sums[l * 4] += src[i * 4];
+      sums[l * 4 + 1] += src[i * 4 + 1];
+      sums[l * 4 + 2] += src[i * 4 + 2];
+      sums[l * 4 + 3]++;
+    }
+    for (let l = 1; l <= count; l++) {
+      const n = sums[l * 4 + 3];
+      strokeColors[l] = toHex(sums[l * 4] / n, sums[l * 4 + 1] / n, sums[l * 4 + 2] / n);
+    }
+  }
+
+  // Directed boundary edges keyed by start corner; each edge remembers its pixel for coloring
+  const outgoing = new Map<number, { to: number; pixel: number }[]>();
+  const addEdge = (x0: number, y0: number, x1: number, y1: number, pixel: number) => {
+    const from = y0 * stride + x0;
+    const list = outgoing.get(from);
+    const edge = { to: y1 * stride + x1, pixel };
+    if (list) list.push(edge);
+    else outgoing.set(from, [edge]);
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!filled(x, y)) continue;
+      const pixel = y * width + x;
+      if (!filled(x, y - 1)) addEdge(x, y, x + 1, y, pixel);
+      if (!filled(x + 1, y)) addEdge(x + 1, y, x + 1, y + 1, pixel);
+      if (!filled(x, y + 1)) addEdge(x + 1, y + 1, x, y + 1, pixel);
+      if (!filled(x - 1, y)) addEdge(x, y + 1, x, y, pixel);
+    }
+  }
+
+  const paths: VectorPath[] = [];
+
+  for (const [start, edges] of outgoing) {
+    while (edges.length > 0) {
+      const points: number[] = [];
+      let pixel = -1;
+      let current = start;
+
+      // Walk until we're back where we started
+      while (true) {
+        const list = outgoing.get(current);
+        if (!list || list.length === 0) break;
+        const edge = list.pop()!;
+        points.push(current % stride, Math.floor(current / stride));
+        pixel = edge.pixel;
+
+        current = edge.to;
+        if (current === start) break;
+      }
+
+      if (points.length < 6) continue;
+      const midpoints = points.map((v, i) => (v + points[(i + 2) % points.length]) / 2);
+      const closed = [...midpoints, midpoints[0], midpoints[1]];
+      let simplified = simplify(closed, SIMPLIFY_TOLERANCE);
+      if (simplified.length < 8) simplified = simplify(closed, THIN_TOLERANCE);
+      simplified.length -= 2; // Drop the closing duplicate again
+
+      paths.push({
+        // Tiny specks can collapse to a line; keep their whole outline instead
+        points: simplified.length >= 6 ? simplified : midpoints,
+        color: settings.useOriginalColors ? strokeColors[labels[pixel]] : settings.lineColor,
+        strokeId: labels[pixel],
+      });
+    }
+  }
+
+  return paths;
+};
+
+/**
+ * Maps each stroke's color onto the line palette. A path has one fill, so gradients are
+ * sampled at the stroke's centroid.
+ */
+export const recolorPaths = (paths: VectorPath[], strokes: Stroke[], width: number, recolor: PaletteMapper): VectorPath[] => {
+  const centroids = new Map(strokes.map(s => [s.id, Math.round(s.cy) * width + Math.round(s.cx)]));
+  return paths.map((path) => {
+    const [r, g, b] = hexToRgbTuple(path.color);
+    return { ...path, color: toHex(...recolor(r, g, b, centroids.get(path.strokeId) ?? 0)) };
+  });
+};
+
+/**
+ * Moves vertices along each frame's displacement field: the forward counterpart
+ * of the raster backward mapping
+ */
+export const fieldDisplacer = (
+  fields: DisplacementField[],
+  width: number,
+  height: number,
+  jitterAmount: number
+): VertexDisplacer => (frameIndex, x, y) => {
+  const field = fields[frameIndex];
+  const fi = Math.min(height - 1, Math.max(0, Math.round(y))) * width + Math.min(width - 1, Math.max(0, Math.round(x)));
+  return [x + field.x[fi] * jitterAmount, y + field.y[fi] * jitterAmount];
+};
+
+/**
+ * A frame's displacement field as an image for feDisplacementMap: red and green hold the
+ * x and y shift that pulls each pixel's content in, 0.5 for none and 0 or 1 for
+ * -scale/2 or +scale/2 pixels. Its pixels sit `spacing` pixels apart, the first one
+ * over the middle of the frame's top-left pixel, for the browser to interpolate between.
+ */
+export interface DisplacementMap {
+  image: RgbaImage;
+  scale: number;
+  spacing: number;
+}
+
+/**
+ * Samples a frame's displacement field on the lattice of its finest noise octave. Value
+ * noise is bilinear between lattice points, so the browser's bilinear upscaling gives
+ * it back exactly; the smoother Perlin and simplex noise get two samples per cell.
+ * `settings` are in pixels. Null when nothing moves.
+ */
+export const displacementMap = (
+  field: DisplacementField,
+  width: number,
+  height: number,
+  settings: ProcessingSettings
+): DisplacementMap | null => {
+  const octaves = Math.max(1, Math.round(settings.noiseOctaves));
+  const finestCell = (settings.noiseScale / 100) * Math.max(width, height) / 2 ** (octaves - 1);
+  const spacing = Math.max(1, finestCell / (settings.noiseType === 'value' ? 1 : 2));
+  const mapWidth = Math.ceil((width - 1) / spacing) + 1;
+  const mapHeight = Math.ceil((height - 1) / spacing) + 1;
+
+  // The raster frames take each pixel from `field` times the jitter behind it
+  const shifts = new Float32Array(mapWidth * mapHeight * 2);
+  let reach = 0;
+  for (let my = 0; my < mapHeight; my++) {
+    const y = Math.min(height - 1, Math.round(my * spacing));
+    for (let mx = 0; mx < mapWidth; mx++) {
+      const i = y * width + Math.min(width - 1, Math.round(mx * spacing));
+      const m = (my * mapWidth + mx) * 2;
+      shifts[m] = -field.x[i] * settings.jitterAmount;
+      shifts[m + 1] = -field.y[i] * settings.jitterAmount;
+      reach = Math.max(reach, Math.abs(shifts[m]), Math.abs(shifts[m + 1]));
+    }
+  }
+  if (reach === 0) return null;
+
+  const image = createRgbaImage(mapWidth, mapHeight);
+  for (let m = 0; m < mapWidth * mapHeight; m++) {
+    image.data[m * 4] = Math.round((0.5 + shifts[m * 2] / (2 * reach)) * MAP_LEVELS) * 255 / MAP_LEVELS;
+    image.data[m * 4 + 1] = Math.round((0.5 + shifts[m * 2 + 1] / (2 * reach)) * MAP_LEVELS) * 255 / MAP_LEVELS;
+    image.data[m * 4 + 3] = 255;
+  }
+  return { image, scale: 2 * reach, spacing };
+};
+
+/**
+ * How the lines move from frame to frame. `field` writes each source frame's outlines
+ * once and shifts them through every frame's displacement map (with the image's URL, or
+ * null to hold still); `vertices` moves the outline vertices themselves, for motion no
+ * smooth map can carry or noise too fine for small maps.
+ */
+export type SvgMotion =
+  | { kind: 'field'; maps: (DisplacementMap & { href: string } | null)[] }
+  | { kind: 'vertices'; displace: VertexDisplacer };
+
+/**
+ * Path data for a closed outline to a tenth of a pixel: an absolute move, then relative
+ * lines, leaving out the separators SVG can do without
+ */
+const pathData = (points: number[]): string => {
+  let d = 'M';
+  let previous = ''; // The last number written, or '' right after a command
+  const write = (tenths: number) => {
+    const text = String(tenths / 10).replace(/^(-?)0\./, '$1.');
+    const separate = previous !== '' && (/^\d/.test(text) || (text[0] === '.' && !previous.includes('.')));
+    d += (separate ? ' ' : '') + text;
+    previous = text;
+  };
+
+  let x = 0, y = 0;
+  for (let i = 0; i < points.length; i += 2) {
+    if (i === 2) {
+      d += 'l';
+      previous = '';
+    }
+    const px = Math.round(points[i] * 10);
+    const py = Math.round(points[i + 1] * 10);
+    write(px - x);
+    write(py - y);
+    x = px;
+    y = py;
+  }
+  return d + 'z';
+};
+
+const displacedPoints = (path: VectorPath, frameIndex: number, displace: VertexDisplacer): number[] => {
+  const out: number[] = [];
+  for (let i = 0; i < path.points.length; i += 2) {
+    out.push(...displace(frameIndex, path.points[i], path.points[i + 1], path.strokeId));
+  }
+  return out;
+};
+
+// One <path> per color, so a frame needs few elements
+const pathElements = (paths: VectorPath[], points: (path: VectorPath) => number[]): string => {
+  const byColor = new Map<string, string>();
+  for (const path of paths) byColor.set(path.color, (byColor.get(path.color) ?? '') + pathData(points(path)));
+  return Array.from(byColor, ([color, d]) => `<path fill="${color}" d="${d}"/>`).join('');
+};
+
+const displacementFilter = (id: string, map: DisplacementMap & { href: string }, width: number, height: number) => {
+  const { image, spacing } = map;
+  const offset = +(0.5 - spacing / 2).toFixed(2);
+  // sRGB keeps the map's channel values as written
+  return `<filter id="${id}" filterUnits="userSpaceOnUse" x="0" y="0" width="${width}" height="${height}" color-interpolation-filters="sRGB">` +
+    `<feImage href="${map.href}" x="${offset}" y="${offset}" width="${+(image.width * spacing).toFixed(2)}" ` +
+    `height="${+(image.height * spacing).toFixed(2)}" preserveAspectRatio="none" result="map"/>` +
+    `<feDisplacementMap in="SourceGraphic" in2="map" scale="${+map.scale.toFixed(2)}" xChannelSelector="R" yChannelSelector="G"/>` +
+    `</filter>`;
+};
+
+/**
+ * Builds a self-contained looping SVG: one group per frame, switched with discrete SMIL
+ * visibility animations so it plays anywhere an <img> can show SVG. `framePaths` gives
+ * the outlines of each frame (the same array for frames that share them); `delays` sets
+ * both the frame count and how long each frame shows.
+ */
+export const buildAnimatedSvg = (
+  framePaths: (frameIndex: number) => VectorPath[],
+  delays: number[],
+  motion: SvgMotion,
+  width: number,
+  height: number,
+  settings: ProcessingSettings
+): string => {
+  const frameCount = delays.length;
+  const duration = delays.reduce((sum, d) => sum + d, 0);
+  const starts = delays.map((_, f) => delays.slice(0, f).reduce((sum, d) => sum + d, 0));
+  const keyTimes = starts.map(t => +(t / duration).toFixed(6)).join(';');
+
+  const defs: string[] = [];
+  const shapes = new Map<VectorPath[], string>();
+  const shapeId = (paths: VectorPath[]) => {
+    let id = shapes.get(paths);
+    if (!id) {
+      id = `s${shapes.size}`;
+      shapes.set(paths, id);
+      defs.push(`<g id="${id}">${pathElements(paths, path => path.points)}</g>`);
+    }
+    return id;
+  };
+
+  const groups = Array.from({ length: frameCount }, (_, f) => {
+    let content: string;
+    if (motion.kind === 'vertices') {
+      content = pathElements(framePaths(f), path => displacedPoints(path, f, motion.displace));
+    } else {
+      const id = shapeId(framePaths(f));
+      const map = motion.maps[f];
+      if (map) defs.push(displacementFilter(`d${f}`, map, width, height));
+      content = `<use href="#${id}"${map ? ` filter="url(#d${f})"` : ''}/>`;
+    }
+    const values = Array.from({ length: frameCount }, (_, i) => (i === f ? 'visible' : 'hidden')).join(';');
+
+    return `<g visibility="${f === 0 ? 'visible' : 'hidden'}">` +
+      `<animate attributeName="visibility" values="${values}" keyTimes="${keyTimes}" calcMode="discrete" ` +
+      `dur="${duration}ms" repeatCount="indefinite"/>` +
+      content +
+      `</g>`;
+  });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+    (defs.length > 0 ? `<defs>${defs.join('')}</defs>` : '') +
+    (settings.transparentBg ? '' : `<rect width="100%" height="100%" fill="${settings.bgColor}"/>`) +
+    `<g fill-rule="nonzero">${groups.join('')}</g>` +
+    `</svg>`;
+};
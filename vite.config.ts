@@ -1,18 +1,24 @@
+import fs from 'fs';
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    const pkg = JSON.parse(fs.readFileSync(path.resolve(__dirname, 'package.json'), 'utf-8'));
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // The API runs in the Worker: start it with `npm run dev:worker`
+        proxy: {
+          '/api': 'http://localhost:8787',
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.SKETCH_PROVIDER': JSON.stringify(env.SKETCH_PROVIDER),
+        'process.env.APP_VERSION': JSON.stringify(pkg.version)
       },
       resolve: {
         alias: {
@@ -0,0 +1,9 @@
+/**
+ * Bindings from wrangler.jsonc and the Worker's secrets
+ */
+export interface Env {
+  ASSETS: { fetch: (request: Request) => Promise<Response> };
+  GEMINI_API_KEY?: string;
+  // Sends Gemini requests to another host instead, e.g. a stubbed model in local tests
+  GEMINI_BASE_URL?: string;
+}
@@ -0,0 +1,33 @@
+import { createGeminiProvider } from '../utils/sketchProviders/gemini';
+import { Env } from './env';
+import { ApiError, isPlainObject, readJson } from './http';
+
+const MAX_BODY_BYTES = 16 * 1024;
+const MAX_PROMPT_LENGTH = 2000;
+
+/**
+ * POST /api/generate: `{ "prompt": string }` → the sketch image. Answers 204 when the
+ * model returned no image and 503 when the Worker has no GEMINI_API_KEY.
+ */
+export const handleGenerate = async (request: Request, env: Env): Promise<Response> => {
+  const provider = createGeminiProvider(env.GEMINI_API_KEY, env.GEMINI_BASE_URL);
+  if (!provider.isConfigured()) throw new ApiError(503, 'Sketch generation is not configured on this server');
+
+  const body = await readJson(request, MAX_BODY_BYTES);
+  const prompt = isPlainObject(body) ? body.prompt : undefined;
+  if (typeof prompt !== 'string' || !prompt.trim()) throw new ApiError(400, '"prompt" must be a non-empty string');
+  if (prompt.length > MAX_PROMPT_LENGTH) throw new ApiError(422, `"prompt" is longer than ${MAX_PROMPT_LENGTH} characters`);
+
+  let image: Blob | null;
+  try {
+    image = await provider.generate(prompt, request.signal);
+  } catch (err) {
+    console.error('Gemini request failed', err);
+    throw new ApiError(502, 'The model request failed');
+  }
+  if (!image) return new Response(null, { status: 204 });
+
+  return new Response(image, {
+    headers: { 'content-type': image.type || 'image/png', 'cache-control': 'no-store' },
+  });
+};
@@ -0,0 +1,91 @@
+/**
+ * An error answered with its own status code and message
+ */
+export class ApiError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+export const errorResponse = (err: unknown): Response => {
+  if (err instanceof ApiError) return Response.json({ error: err.message }, { status: err.status });
+  console.error(err);
+  return Response.json({ error: 'Internal error' }, { status: 500 });
+};
+
+const formatBytes = (bytes: number) => `${Math.round(bytes / 1024 / 1024 * 10) / 10} MB`;
+
+/**
+ * Reads the whole body, failing with 413 as soon as it grows past `limit` bytes
+ * (Content-Length is only a hint, the stream is what counts)
+ */
+export const readBody = async (request: Request, limit: number): Promise<Uint8Array> => {
+  const tooLarge = () => new ApiError(413, `Request body is larger than ${formatBytes(limit)}`);
+  if (Number(request.headers.get('content-length')) > limit) throw tooLarge();
+  if (!request.body) return new Uint8Array(0);
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = request.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > limit) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body;
+};
+
+const requireContentType = (request: Request, expected: string) => {
+  const type = request.headers.get('content-type') ?? '';
+  if (!type.toLowerCase().startsWith(expected)) throw new ApiError(415, `Expected Content-Type ${expected}`);
+  return type;
+};
+
+export const readForm = async (request: Request, limit: number): Promise<FormData> => {
+  const type = requireContentType(request, 'multipart/form-data');
+  const body = await readBody(request, limit);
+  try {
+    return await new Response(body, { headers: { 'content-type': type } }).formData();
+  } catch {
+    throw new ApiError(400, 'Malformed multipart body');
+  }
+};
+
+export const readJson = async (request: Request, limit: number): Promise<unknown> => {
+  requireContentType(request, 'application/json');
+  const body = await readBody(request, limit);
+  try {
+    return JSON.parse(new TextDecoder().decode(body));
+  } catch {
+    throw new ApiError(400, 'Malformed JSON body');
+  }
+};
+
+/**
+ * A form field holding JSON; undefined when the field is absent
+ */
+export const jsonField = (form: FormData, name: string): unknown => {
+  const value = form.get(name);
+  if (value === null) return undefined;
+  if (typeof value !== 'string') throw new ApiError(400, `"${name}" must be a JSON text field`);
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new ApiError(400, `"${name}" is not valid JSON`);
+  }
+};
+
+export const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
@@ -0,0 +1,282 @@
+import fs from 'node:fs';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import pngjs from 'pngjs';
+import { unstable_startWorker } from 'wrangler';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { encodeGif } from '../utils/gifEncoder';
+
+/*
+ * Runs the Worker from wrangler.jsonc in the local workerd runtime, as `wrangler dev`
+ * does. GEMINI_BASE_URL points it at a local server that answers with `upstream`, in
+ * place of the Gemini API, and the app is a one-page stand-in so it doesn't need a build.
+ */
+
+const API_KEY = 'test-key-do-not-leak';
+// Starting workerd takes a few seconds
+const STARTUP_TIMEOUT = 60_000;
+
+type Worker = Awaited<ReturnType<typeof unstable_startWorker>>;
+
+let assetsDir: string;
+let geminiServer: http.Server;
+let geminiBaseUrl: string;
+let upstream: (request: Request) => Promise<Response> | Response;
+const upstreamRequests: Request[] = [];
+
+// Hands each request to `upstream` as a fetch Request and writes back its Response
+const serveUpstream = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk);
+  const request = new Request(new URL(req.url ?? '/', geminiBaseUrl), {
+    method: req.method,
+    headers: Object.entries(req.headers).map(([name, value]) => [name, String(value)]),
+    body: req.method === 'GET' || req.method === 'HEAD' ? undefined : Buffer.concat(chunks),
+  });
+  upstreamRequests.push(request.clone());
+
+  const response = await upstream(request);
+  res.writeHead(response.status, Object.fromEntries(response.headers));
+  res.end(Buffer.from(await response.arrayBuffer()));
+};
+
+const startWorker = (secrets: Record<string, string>) =>
+  unstable_startWorker({
+    config: 'wrangler.jsonc',
+    assets: assetsDir,
+    // `wrangler dev` derives this from the config's nodejs_compat flag; startWorker doesn't
+    build: { nodejsCompatMode: 'v2' },
+    bindings: Object.fromEntries(
+      Object.entries(secrets).map(([name, value]) => [name, { type: 'plain_text', value }])
+    ),
+    sendMetrics: false,
+    dev: {
+      server: { hostname: '127.0.0.1', port: 0 },
+      inspector: false,
+      persist: false,
+      watch: false,
+      logLevel: 'none',
+    },
+  });
+
+const post = async (worker: Worker, route: string, body: BodyInit, headers?: HeadersInit) =>
+  fetch(new URL(route, await worker.url), { method: 'POST', body, headers });
+
+const png = (width: number, height: number) => {
+  const image = new pngjs.PNG({ width, height });
+  for (let i = 0; i < image.data.length; i += 4) {
+    // A dark diagonal band on white, so there are lines to find
+    const x = (i / 4) % width, y = Math.floor(i / 4 / width);
+    const v = Math.abs(x - y) < 3 ? 0 : 255;
+    image.data.set([v, v, v, 255], i);
+  }
+  return new Uint8Array(pngjs.PNG.sync.write(image));
+};
+
+const renderForm = (image: Uint8Array, fields: Record<string, unknown> = {}, type = 'image/png') => {
+  const form = new FormData();
+  form.set('image', new Blob([image], { type }), 'image');
+  for (const [name, value] of Object.entries(fields)) form.set(name, JSON.stringify(value));
+  return form;
+};
+
+const geminiAnswer = (parts: unknown[]) =>
+  Response.json({ candidates: [{ content: { role: 'model', parts } }] });
+
+// Everything the client sees of a response
+const exposed = async (response: Response) =>
+  JSON.stringify([...response.headers]) + new TextDecoder().decode(await response.arrayBuffer());
+
+beforeAll(async () => {
+  assetsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wiggleline-assets-'));
+  fs.writeFileSync(path.join(assetsDir, 'index.html'), '<title>app</title>');
+
+  geminiServer = http.createServer((req, res) => {
+    serveUpstream(req, res).catch(err => {
+      res.writeHead(500).end(String(err));
+    });
+  });
+  await new Promise<void>(resolve => geminiServer.listen(0, '127.0.0.1', resolve));
+  geminiBaseUrl = `http://127.0.0.1:${(geminiServer.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  fs.rmSync(assetsDir, { recursive: true, force: true });
+  await new Promise(resolve => geminiServer.close(resolve));
+});
+
+describe('Worker API', () => {
+  let worker: Worker;
+
+  beforeAll(async () => {
+    worker = await startWorker({ GEMINI_API_KEY: API_KEY, GEMINI_BASE_URL: geminiBaseUrl });
+    await worker.ready;
+  }, STARTUP_TIMEOUT);
+
+  afterAll(() => worker?.dispose());
+
+  beforeEach(() => {
+    upstreamRequests.length = 0;
+    upstream = () => new Response('Unexpected upstream request', { status: 500 });
+  });
+
+  describe('POST /api/render', () => {
+    it('renders an animated GIF', async () => {
+      const response = await post(worker, '/api/render', renderForm(png(32, 24), {
+        settings: { frameCount: 3, seed: 7 },
+      }));
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('content-type')).toBe('image/gif');
+      expect(response.headers.get('x-wiggleline-seed')).toBe('7');
+      const gif = new Uint8Array(await response.arrayBuffer());
+      expect(new TextDecoder().decode(gif.subarray(0, 6))).toBe('GIF89a');
+      expect(upstreamRequests).toHaveLength(0);
+    });
+
+    it('answers 413 for a body over the upload limit', async () => {
+      const response = await post(worker, '/api/render', renderForm(new Uint8Array(9 * 1024 * 1024)));
+
+      expect(response.status).toBe(413);
+      expect(await response.json()).toEqual({ error: expect.stringContaining('larger than') });
+    });
+
+    it('answers 413 for an image too large to decode', async () => {
+      // Only the header is read before the size check, so a patched one will do
+      const image = png(1, 1);
+      new DataView(image.buffer).setUint32(16, 5000);
+      new DataView(image.buffer).setUint32(20, 4000);
+      const response = await post(worker, '/api/render', renderForm(image));
+
+      expect(response.status).toBe(413);
+      expect(await response.json()).toEqual({ error: expect.stringContaining('5000×4000') });
+    });
+
+    it('answers 413 for an animated GIF whose frames are too large to decode', async () => {
+      // One 3000×2000 frame would fit; three don't
+      const width = 3000, height = 2000;
+      const gif = encodeGif(
+        Array.from({ length: 3 }, () => ({ indices: new Uint8Array(width * height), delay: 100 })),
+        { width, height, palette: [[255, 255, 255], [0, 0, 0]], loopCount: 0 }
+      );
+      const response = await post(worker, '/api/render', renderForm(gif, {}, 'image/gif'));
+
+      expect(response.status).toBe(413);
+      expect(await response.json()).toEqual({ error: expect.stringContaining('3 frames') });
+    });
+
+    it('answers 413 for a render over the memory budget', async () => {
+      const image = png(1024, 1024);
+      const response = await post(worker, '/api/render', renderForm(image, { settings: { frameCount: 48 } }));
+
+      expect(response.status).toBe(413);
+      expect(await response.json()).toEqual({ error: expect.stringContaining('48 frames at 1024×1024') });
+
+      // The same request fits at a lower resolution
+      const smaller = await post(worker, '/api/render', renderForm(image, {
+        settings: { frameCount: 48 },
+        options: { resolution: 256 },
+      }));
+      expect(smaller.status).toBe(200);
+    });
+
+    it('answers 415 for an image that is not a PNG, JPEG or GIF', async () => {
+      const response = await post(worker, '/api/render', renderForm(new TextEncoder().encode('not an image'), {}, 'text/plain'));
+
+      expect(response.status).toBe(415);
+    });
+
+    it('answers 415 for a body that is not a form', async () => {
+      const response = await post(worker, '/api/render', '{}', { 'content-type': 'application/json' });
+
+      expect(response.status).toBe(415);
+    });
+
+    it.each([
+      { noiseOctaves: 10 },
+      { paletteSize: 5000 },
+      { edgeBlur: 300 },
+      { jitterSpeed: -5 },
+      { lineWeight: -50 },
+      { seed: 1.5 },
+      { frameCount: 49 },
+      { unknownSetting: 1 },
+    ])('answers 422 for settings %o', async settings => {
+      const response = await post(worker, '/api/render', renderForm(png(8, 8), { settings }));
+
+      expect(response.status).toBe(422);
+      expect(await response.json()).toEqual({ error: expect.stringContaining(Object.keys(settings)[0]) });
+    });
+  });
+
+  describe('POST /api/generate', () => {
+    const generate = (prompt: unknown) =>
+      post(worker, '/api/generate', JSON.stringify({ prompt }), { 'content-type': 'application/json' });
+
+    it('proxies the prompt to Gemini and answers with its image', async () => {
+      const image = png(4, 4);
+      upstream = () => geminiAnswer([
+        { text: 'Here is your sketch' },
+        { inlineData: { mimeType: 'image/png', data: Buffer.from(image).toString('base64') } },
+      ]);
+
+      const response = await generate('a cat on a chair');
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('content-type')).toBe('image/png');
+      expect(new Uint8Array(await response.clone().arrayBuffer())).toEqual(image);
+      expect(await exposed(response)).not.toContain(API_KEY);
+
+      expect(upstreamRequests).toHaveLength(1);
+      const [request] = upstreamRequests;
+      expect(new URL(request.url).pathname).toMatch(/\/models\/gemini-2\.5-flash-image:generateContent$/);
+      expect(request.headers.get('x-goog-api-key')).toBe(API_KEY);
+      expect(JSON.stringify(await request.json())).toContain('a cat on a chair');
+    });
+
+    it('answers 204 when the model returns no image', async () => {
+      upstream = () => geminiAnswer([{ text: 'I can only describe it' }]);
+
+      const response = await generate('a cat');
+
+      expect(response.status).toBe(204);
+    });
+
+    it('answers 502 without passing on upstream errors', async () => {
+      // Some upstream errors quote the key back
+      upstream = () => Response.json({ error: { code: 400, message: `API key ${API_KEY} not valid` } }, { status: 400 });
+
+      const response = await generate('a cat');
+
+      expect(response.status).toBe(502);
+      expect(await exposed(response)).not.toContain(API_KEY);
+    });
+
+    it('answers 400 for a missing prompt and 422 for one that is too long', async () => {
+      expect((await generate('')).status).toBe(400);
+      expect((await generate('a'.repeat(2001))).status).toBe(422);
+      expect(upstreamRequests).toHaveLength(0);
+    });
+  });
+});
+
+describe('Worker API without a Gemini key', () => {
+  let worker: Worker;
+
+  beforeAll(async () => {
+    worker = await startWorker({});
+    await worker.ready;
+  }, STARTUP_TIMEOUT);
+
+  afterAll(() => worker?.dispose());
+
+  it('answers 503 to /api/generate', async () => {
+    const response = await post(worker, '/api/generate', JSON.stringify({ prompt: 'a cat' }), {
+      'content-type': 'application/json',
+    });
+
+    expect(response.status).toBe(503);
+  });
+});
@@ -0,0 +1,28 @@
+import { Env } from './env';
+import { ApiError, errorResponse } from './http';
+import { handleRender } from './render';
+import { handleGenerate } from './generate';
+
+const ROUTES: Record<string, (request: Request, env: Env) => Promise<Response>> = {
+  '/api/render': handleRender,
+  '/api/generate': handleGenerate,
+};
+
+/**
+ * Serves the API routes; everything else is the built app from ./dist
+ */
+export default {
+  async fetch(request: Request, env: Env): Promise<Response> {
+    const { pathname } = new URL(request.url);
+    if (!pathname.startsWith('/api/')) return env.ASSETS.fetch(request);
+
+    try {
+      const route = ROUTES[pathname];
+      if (!route) throw new ApiError(404, `No API route ${pathname}`);
+      if (request.method !== 'POST') throw new ApiError(405, `${pathname} only accepts POST`);
+      return await route(request, env);
+    } catch (err) {
+      return errorResponse(err);
+    }
+  },
+};
@@ -0,0 +1,132 @@
+import { Buffer } from 'node:buffer';
+import { ProcessingSettings } from '../types';
+import { DEFAULT_SETTINGS, DEFAULT_EXPORT_OPTIONS } from '../constants';
+import { exporters, ExportOptions } from '../utils/exporters';
+import { parseSettings, SETTING_RANGES } from '../utils/settings';
+import { planPixelExport, renderPixelExport } from '../utils/pixelExport';
+import { decodeInput, imageSize } from '../cli/decode';
+import { countGifFrames } from '../utils/gifDecoder';
+import { ApiError, isPlainObject, jsonField, readForm } from './http';
+
+const MAX_UPLOAD_BYTES = 8 * 1024 * 1024;
+const MAX_FRAMES = SETTING_RANGES.frameCount.max; // Source frames of an animated GIF, as in the app
+
+// Pixel memory one request may use: decoded images plus rendering. A Worker has 128 MB,
+// and the runtime and the upload (held twice while it's parsed) need the rest.
+const MEMORY_BUDGET = 80 * 1024 * 1024;
+// Rendering keeps every frame until they're encoded. Per output pixel, measured under
+// Node: the resized source, masks, fields and background, then each frame and its
+// palette indices (plus the garbage both leave behind).
+const WORKING_BYTES_PER_PIXEL = 32;
+const FRAME_BYTES_PER_PIXEL = 6;
+
+const formatMegabytes = (bytes: number) => `${Math.ceil(bytes / 1024 / 1024)} MB`;
+
+const tooLarge = (what: string, bytes: number) =>
+  new ApiError(413, `${what} needs about ${formatMegabytes(bytes)} of memory; the limit is ${formatMegabytes(MEMORY_BUDGET)}`);
+
+// A rejected setting, with its allowed range when it has one
+const describeRejected = (key: string) => {
+  if (!Object.hasOwn(SETTING_RANGES, key)) return key;
+  const range = SETTING_RANGES[key as keyof typeof SETTING_RANGES];
+  return `${key} (${range.integer ? 'whole number ' : ''}${range.min} to ${range.max})`;
+};
+
+/**
+ * Settings from the request, merged over the defaults. Unlike importing a file, any
+ * unknown key or invalid value, including a number outside SETTING_RANGES, rejects
+ * the whole request.
+ */
+const requestSettings = (raw: unknown): ProcessingSettings => {
+  if (raw === undefined) return DEFAULT_SETTINGS;
+  if (!isPlainObject(raw)) throw new ApiError(400, '"settings" must be a JSON object');
+
+  const parsed = parseSettings(raw);
+  const rejected = Object.keys(raw).filter(key => !Object.hasOwn(parsed, key));
+  if (rejected.length > 0) throw new ApiError(422, `Invalid settings: ${rejected.map(describeRejected).join(', ')}`);
+
+  const settings = { ...DEFAULT_SETTINGS, ...parsed };
+  // An explicit threshold wins over the automatic one, as in the CLI
+  if ('threshold' in parsed && !('autoThreshold' in parsed)) settings.autoThreshold = false;
+  return settings;
+};
+
+const requestOptions = (raw: unknown): ExportOptions => {
+  if (raw === undefined) return DEFAULT_EXPORT_OPTIONS;
+  if (!isPlainObject(raw)) throw new ApiError(400, '"options" must be a JSON object');
+
+  const valid: Record<keyof ExportOptions, (v: unknown) => boolean> = {
+    quality: v => typeof v === 'number' && v >= 1 && v <= 100,
+    loopCount: v => Number.isInteger(v) && (v as number) >= 0,
+    dither: v => typeof v === 'boolean',
+    resolution: v => v === 'preview' || v === 'original' || (Number.isInteger(v) && (v as number) >= 1),
+  };
+  const rejected = Object.keys(raw).filter(key => !Object.hasOwn(valid, key) || !valid[key as keyof ExportOptions](raw[key]));
+  if (rejected.length > 0) throw new ApiError(422, `Invalid options: ${rejected.join(', ')}`);
+
+  return { ...DEFAULT_EXPORT_OPTIONS, ...(raw as Partial<ExportOptions>) };
+};
+
+/**
+ * Decodes the image file in form field `name`, keeping at most `maxFrames` frames.
+ * Fails with 413 before decoding when the frames would take more than `budget` bytes;
+ * `bytes` is what they take.
+ */
+const imageField = async (form: FormData, name: string, maxFrames: number, budget: number) => {
+  const file = form.get(name);
+  if (!file || typeof file === 'string') throw new ApiError(400, `Missing "${name}" file field`);
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const size = imageSize(bytes);
+  if (!size) throw new ApiError(415, `"${name}" must be a PNG, JPEG or GIF`);
+
+  // Read from the header and block structure; the decoder works in one more frame
+  const frameCount = Math.max(1, countGifFrames(bytes, maxFrames));
+  const decodedBytes = size.width * size.height * 4 * (frameCount + 1);
+  if (decodedBytes > budget) {
+    throw tooLarge(`Decoding "${name}" (${size.width}×${size.height}, ${frameCount} ${frameCount === 1 ? 'frame' : 'frames'})`, decodedBytes);
+  }
+
+  try {
+    const source = await decodeInput(Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength), maxFrames);
+    return { source, bytes: decodedBytes };
+  } catch (err) {
+    throw new ApiError(422, `Can't decode "${name}": ${err instanceof Error ? err.message : err}`);
+  }
+};
+
+/**
+ * POST /api/render: multipart form with an `image` (PNG, JPEG or GIF), optional
+ * `settings` (ProcessingSettings fields) and `options` (ExportOptions) JSON fields, and
+ * an optional `texture` image for the 'texture' background style. Answers with the
+ * animated GIF.
+ */
+export const handleRender = async (request: Request): Promise<Response> => {
+  const form = await readForm(request, MAX_UPLOAD_BYTES);
+  const settings = requestSettings(jsonField(form, 'settings'));
+  const options = requestOptions(jsonField(form, 'options'));
+
+  const image = await imageField(form, 'image', MAX_FRAMES, MEMORY_BUDGET);
+  let used = image.bytes;
+  let texture = null;
+  if (form.has('texture')) {
+    const decoded = await imageField(form, 'texture', 1, MEMORY_BUDGET - used);
+    texture = decoded.source.frames[0];
+    used += decoded.bytes;
+  }
+
+  const plan = planPixelExport(image.source, settings, options);
+  const { width, height, settings: { frameCount } } = plan;
+  const renderBytes = width * height * (WORKING_BYTES_PER_PIXEL + FRAME_BYTES_PER_PIXEL * frameCount);
+  if (used + renderBytes > MEMORY_BUDGET) {
+    throw tooLarge(`Rendering ${frameCount} frames at ${width}×${height} (lower options.resolution or settings.frameCount)`, used + renderBytes);
+  }
+
+  const gif = await renderPixelExport(image.source, plan, exporters.gif, options, 'api', texture);
+  return new Response(gif, {
+    headers: {
+      'content-type': exporters.gif.mimeType,
+      'cache-control': 'no-store',
+      'x-wiggleline-seed': String(plan.settings.seed),
+    },
+  });
+};